@@ -1,14 +1,16 @@
 import "dotenv/config";
-import { generateText } from "ai";
-import { createGateway } from "@ai-sdk/gateway";
 import { config } from "./src/config/env.js";
+import { getModel } from "./src/agent/provider.js";
 import { logger } from "./src/utils/logger.js";
 import { initDB, runMigrations } from "./src/db/index.js";
 import { getAllSessions } from "./src/db/client.js";
-import { Session } from "./src/agent/session.js";
-import { tools } from "./src/agent/tools.js";
-import { extractUsage } from "./src/agent/tokenCounter.js";
-import { ensureContainer } from "./src/docker/manager.js";
+import type { Run, RunToolCall, Session as DbSession } from "./src/db/schema.js";
+import { Session, type ForkPoint } from "./src/agent/session.js";
+import { parseSummary } from "./src/agent/summary.js";
+import { SYSTEM_PROMPT, runAgent, resumeAgent, type RunAgentOptions, type AgentTurnResult } from "./src/agent/agent.js";
+import { getApprovalPolicy, type ApprovalRequest, type ApprovalAnswer } from "./src/agent/approval.js";
+import { exportSessionFile, importSessionFile, EXPORT_FORMATS, type ExportFormat } from "./src/agent/sessionExport.js";
+import { startIdleReaper, shutdownContainers } from "./src/docker/manager.js";
 import * as readline from "readline/promises";
 import inquirer from "inquirer";
 
@@ -16,74 +18,349 @@ import inquirer from "inquirer";
  * Main entry point for the context-compacting coding agent
  */
 
-// Initialize the gateway provider
-const gateway = createGateway({
-  apiKey: config.apiKey,
-});
+/**
+ * Describe a tool call's input in one line for CLI progress output
+ */
+function describeToolInput(toolName: string, input: any): string {
+  if (toolName === "run_shell" || toolName === "start_process") {
+    return input?.command ?? "";
+  }
+  if (toolName === "process_status" || toolName === "read_process_output" || toolName === "stop_process") {
+    return input?.id ?? "";
+  }
+  if (toolName === "glob" || toolName === "grep") {
+    return `${input?.pattern ?? ""}${input?.path ? ` in ${input.path}` : ""}`;
+  }
+  if (toolName === "apply_patch") {
+    const files = String(input?.patch ?? "").match(/^\+\+\+ /gm)?.length ?? 0;
+    return `${files} file(s)`;
+  }
+  if (toolName === "read_tool_output") {
+    return `${input?.id ?? ""}${input?.field ? ` ${input.field}` : ""} @${input?.offset ?? 0}`;
+  }
+  return input?.path ?? "";
+}
 
-const model = gateway(config.model);
+/**
+ * Describe a tool result in one line for CLI progress output
+ */
+function describeToolOutput(output: any, error?: string): string {
+  if (error) {
+    return `❌ ${error}`;
+  }
+  if (output?.timedOut) {
+    return `⏱️ timed out (exit ${output.exitCode})`;
+  }
+  if (output?.success && typeof output?.status === "string") {
+    return `✅ ${output.id} ${output.status}${typeof output.exitCode === "number" ? ` (exit ${output.exitCode})` : ""}`;
+  }
+  if (typeof output?.exitCode === "number") {
+    return `${output.exitCode === 0 ? "✅" : "❌"} exit ${output.exitCode}`;
+  }
+  return output?.success === false ? `❌ ${output.error}` : "✅ done";
+}
 
-// System prompt for the agent
-const SYSTEM_PROMPT = `You are a helpful coding assistant with access to tools for executing commands, reading files, and writing files. 
+const RUN_STATUS_ICONS: Record<Run["status"], string> = {
+  running: "⏳",
+  completed: "✅",
+  failed: "❌",
+  aborted: "⏹️ ",
+  interrupted: "💥",
+};
 
-You work in a sandboxed Docker environment where you can safely run commands and manipulate files.
+/**
+ * Describe a turn or step run in one line for /runs
+ */
+function describeRun(run: Run): string {
+  const toolCalls: RunToolCall[] = run.tool_calls_json ? JSON.parse(run.tool_calls_json) : [];
+  const details = [
+    run.finish_reason && run.status === "completed" ? run.finish_reason : "",
+    run.duration_ms !== null ? `${(run.duration_ms / 1000).toFixed(1)}s` : "",
+    run.total_tokens > 0 ? `${run.total_tokens.toLocaleString()} tokens` : "",
+    toolCalls.length > 0 ? `tools: ${toolCalls.map(call => call.toolName).join(", ")}` : "",
+  ].filter(Boolean);
+
+  return `${RUN_STATUS_ICONS[run.status]} ${run.status}${run.recovery ? ` (${run.recovery})` : ""}${details.length > 0 ? ` - ${details.join(", ")}` : ""}` +
+    `${run.error ? `\n        ${run.error}` : ""}`;
+}
 
-When the user asks you to do something:
-1. Break it down into steps
-2. Use the available tools to accomplish the task
-3. Provide clear explanations of what you're doing
-4. Show the results of your actions
+/**
+ * Handle a slash command typed in the CLI
+ * Returns the session to continue in (a different one after /fork)
+ */
+async function handleCommand(session: Session, rl: readline.Interface, input: string): Promise<Session> {
+  const [command, ...args] = input.trim().split(/\s+/);
+
+  switch (command) {
+    case "/help":
+      console.log("\nCommands:");
+      console.log("  /usage             Show token usage (conversation vs compaction)");
+      console.log("  /compactions       List this session's compactions");
+      console.log("  /rollback <id>     Restore the state before a compaction");
+      console.log("  /approvals         Show recent approval decisions on tool calls");
+      console.log("  /runs [n]          Show the last n turns (default 10) and their model steps");
+      console.log("  /fork [message id] Branch a new session off this one and switch to it");
+      console.log("  exit               Quit\n");
+      break;
 
-Available tools:
-- run_shell: Execute shell commands in the Docker sandbox
-- read_file: Read file contents from the workspace
-- write_file: Write content to a file in the workspace
+    case "/usage": {
+      const totals = session.getUsage();
+      if (totals.length === 0) {
+        console.log("\nNo usage recorded in this session yet\n");
+        break;
+      }
+
+      console.log("\n💰 Token usage:");
+      for (const row of totals) {
+        console.log(
+          `  ${row.kind.padEnd(12)} ${row.model} - ${row.calls} call(s), ` +
+          `${row.input_tokens.toLocaleString()} in / ${row.output_tokens.toLocaleString()} out ` +
+          `(${row.total_tokens.toLocaleString()} total)`
+        );
+      }
+      console.log();
+      break;
+    }
+
+    case "/compactions": {
+      const compactions = session.getCompactions();
+      if (compactions.length === 0) {
+        console.log("\nNo compactions in this session yet\n");
+        break;
+      }
+
+      console.log("\n🗜️  Compactions (newest first):");
+      for (const compaction of compactions) {
+        const date = new Date(compaction.created_at * 1000).toLocaleString();
+        const archived = JSON.parse(compaction.archived_messages_json).length;
+        const status = compaction.rolled_back_at ? "↩️  rolled back" : "✅ active";
+        console.log(
+          `  #${compaction.id} (${date}) - ${archived} messages archived, ` +
+          `summary ${compaction.input_summary?.length ?? 0} → ${compaction.output_summary.length} chars, ` +
+          `${compaction.total_tokens.toLocaleString()} tokens - ${status}`
+        );
+      }
+      console.log();
+      break;
+    }
+
+    case "/rollback": {
+      const compactionId = Number(args[0]);
+      if (!Number.isInteger(compactionId)) {
+        console.log("\nUsage: /rollback <compaction id> (see /compactions)\n");
+        break;
+      }
 
-Be concise but thorough. Focus on getting things done.`;
+      try {
+        const undone = session.rollbackCompaction(compactionId);
+        console.log(`\n↩️  Rolled back ${undone} compaction(s); restored the state before #${compactionId}`);
+        console.log(`📊 Tokens: ${session.getState().totalTokens.toLocaleString()} / ${config.maxTokens.toLocaleString()}\n`);
+      } catch (error: any) {
+        console.error("\n❌ Rollback failed:", error.message, "\n");
+      }
+      break;
+    }
+
+    case "/runs": {
+      const turnLimit = args[0] ? Number(args[0]) : 10;
+      if (!Number.isInteger(turnLimit) || turnLimit < 1) {
+        console.log("\nUsage: /runs [number of turns]\n");
+        break;
+      }
+
+      const runs = session.getRuns(turnLimit);
+      if (runs.length === 0) {
+        console.log("\nNo runs in this session yet\n");
+        break;
+      }
+
+      console.log("\n📜 Runs (oldest first):");
+      for (const run of runs) {
+        if (run.kind === "turn") {
+          const date = new Date(run.created_at * 1000).toLocaleString();
+          console.log(`  #${run.id} turn (${date}) ${describeRun(run)}`);
+        } else {
+          console.log(`      step ${run.step_no} ${describeRun(run)}`);
+        }
+      }
+      console.log();
+      break;
+    }
+
+    case "/approvals": {
+      const approvals = session.getApprovals();
+      if (approvals.length === 0) {
+        console.log("\nNo approval decisions in this session yet\n");
+        break;
+      }
+
+      console.log("\n🛡️  Approval decisions (newest first):");
+      for (const approval of approvals) {
+        const time = new Date(approval.created_at * 1000).toLocaleTimeString();
+        const verdict = approval.approved ? "✅ approved" : "❌ denied";
+        console.log(
+          `  ${time} ${approval.tool_name} ${approval.subject} - ${verdict} by ${approval.decided_by}` +
+          `${approval.rule ? ` (rule ${approval.rule})` : ""}${approval.reason && !approval.approved ? `: ${approval.reason}` : ""}`
+        );
+      }
+      console.log();
+      break;
+    }
+
+    case "/fork": {
+      const points = session.getForkPoints();
+      if (points.length === 0) {
+        console.log("\nNothing to fork yet: no exchange in this session has finished\n");
+        break;
+      }
+
+      let atMessageId: number;
+      if (args[0]) {
+        atMessageId = Number(args[0]);
+        if (!points.some(point => point.messageId === atMessageId)) {
+          console.log("\nUsage: /fork [message id] - the id must end an exchange; run /fork to pick one\n");
+          break;
+        }
+      } else {
+        atMessageId = await withPausedReadline(rl, () => promptForkPoint(points));
+      }
+
+      try {
+        const forked = await session.fork(atMessageId);
+        console.log(`\n🍴 Forked ${session.getId().substring(0, 8)} at message #${atMessageId}`);
+        console.log(`Session ID: ${forked.getId()} (the original is unchanged; pick it in the session selector to go back)`);
+        console.log(`📊 Tokens: ${forked.getState().totalTokens.toLocaleString()} / ${config.maxTokens.toLocaleString()}\n`);
+        return forked;
+      } catch (error: any) {
+        console.error("\n❌ Fork failed:", error.message, "\n");
+      }
+      break;
+    }
+
+    default:
+      console.log(`\nUnknown command: ${command}. Type /help for commands.\n`);
+  }
+
+  return session;
+}
 
 /**
- * Main agent loop
+ * Ask where to fork: after which exchange, newest first
  */
-async function runAgent(session: Session, userMessage: string) {
-  logger.info({ sessionId: session.getId(), userMessage }, "Processing user message");
+async function promptForkPoint(points: ForkPoint[]): Promise<number> {
+  const preview = (text: string) => {
+    const line = text.replace(/\s+/g, " ").trim();
+    return line.length > 40 ? `${line.substring(0, 40)}...` : line;
+  };
 
-  // Add user message to session
-  session.addUserMessage(userMessage);
+  const { messageId } = await inquirer.prompt([
+    {
+      type: "list",
+      name: "messageId",
+      message: "Fork after which exchange?",
+      choices: points.slice(-15).reverse().map(point => ({
+        name: `#${point.messageId} You: ${preview(point.userMessage)} → ${preview(point.reply) || "(tool calls)"}`,
+        value: point.messageId,
+      })),
+      loop: false,
+    },
+  ]);
 
-  // Build prompt context
-  const messages = session.buildPromptContext(SYSTEM_PROMPT);
+  return messageId;
+}
 
-  // Generate response with tools
-  const result = await generateText({
-    model,
-    messages,
-    tools,
-    maxSteps: 10, // Allow multiple tool calls in sequence
-  });
+/**
+ * Run an inquirer prompt while the CLI's line reader is active
+ */
+async function withPausedReadline<T>(rl: readline.Interface, prompt: () => Promise<T>): Promise<T> {
+  rl.pause();
+  try {
+    return await prompt();
+  } finally {
+    // inquirer leaves the terminal in cooked mode, which would echo input twice
+    if (process.stdin.isTTY) {
+      process.stdin.setRawMode(true);
+    }
+    rl.resume();
+  }
+}
 
-  // Extract usage
-  const usage = extractUsage(result.usage);
-  logger.info({ usage }, "Generation completed");
+/**
+ * Ask the user about a tool call the approval policy marks "ask"
+ * The CLI's line reader is paused while inquirer has the terminal
+ */
+async function promptApproval(rl: readline.Interface, request: ApprovalRequest): Promise<ApprovalAnswer> {
+  // Let the tool call's progress line print before the prompt takes over
+  await new Promise(resolve => setImmediate(resolve));
+
+  return withPausedReadline(rl, async () => {
+    console.log(`\n🛡️  ${request.toolName} needs approval${request.reason ? ` - ${request.reason}` : ""}`);
+    console.log(`   ${request.command ?? request.paths.join(", ")}`);
+
+    const { choice } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "choice",
+        message: "Run this tool call?",
+        choices: [
+          { name: "Approve once", value: "once" },
+          { name: "Approve always for this session", value: "session" },
+          { name: "Deny", value: "deny" },
+        ],
+        loop: false,
+      },
+    ]);
+
+    if (choice === "deny") {
+      const { reason } = await inquirer.prompt([
+        { type: "input", name: "reason", message: "Reason for the model (optional):" },
+      ]);
+      return { approved: false, reason: reason.trim() || undefined };
+    }
+    return { approved: true, remember: choice === "session" };
+  });
+}
 
-  // Add assistant response to session
-  // Handle responses with tool calls but no text content
-  const responseText = result.text || "(Used tools to complete the task)";
-  session.addAssistantMessage(responseText, usage.totalTokens);
+/**
+ * Offer to resume or discard a turn a crash cut off
+ * Returns true to resume it; a discarded turn is removed right away
+ */
+async function promptPendingTurn(session: Session): Promise<boolean> {
+  const pending = session.getPendingTurn()!;
+  const finished = pending.toolCalls.filter(call => call.output_json !== null).length;
+  const cutOff = pending.toolCalls.length - finished;
+  const preview = pending.userMessage.length > 200 ? `${pending.userMessage.substring(0, 200)}...` : pending.userMessage;
+
+  console.log("\n⚠️  The last turn was cut off before the agent replied:");
+  console.log(`   You: ${preview}`);
+  if (pending.toolCalls.length > 0) {
+    console.log(`   ${finished} tool call(s) finished and will be replayed${cutOff > 0 ? `; ${cutOff} was cut off mid-run` : ""}`);
+  }
 
-  // Update token count
-  session.updateTokenCount(usage.inputTokens, usage.outputTokens);
+  const { action } = await inquirer.prompt([
+    {
+      type: "list",
+      name: "action",
+      message: "What should happen to the interrupted turn?",
+      choices: [
+        { name: "Resume it (finished tool calls are not run again)", value: "resume" },
+        { name: "Discard it (removes the message from the conversation)", value: "discard" },
+      ],
+      loop: false,
+    },
+  ]);
 
-  // Check if compaction is needed
-  const compacted = await session.checkAndCompact();
-  if (compacted) {
-    logger.info("Conversation compacted successfully");
+  if (action === "discard") {
+    session.discardPendingTurn();
+    console.log("🗑️  Discarded the interrupted turn");
+    return false;
   }
-
-  return result;
+  return true;
 }
 
 /**
  * Show interactive session selector
+ * Forks are listed under the session they branched from
  */
 async function selectSession(): Promise<string | null> {
   const sessions = getAllSessions(10);
@@ -94,17 +371,41 @@ async function selectSession(): Promise<string | null> {
   ];
   
   if (sessions.length > 0) {
+    const listed = new Set(sessions.map(session => session.id));
+    const children = new Map<string, DbSession[]>();
     for (const session of sessions) {
+      if (session.parent_session_id && listed.has(session.parent_session_id)) {
+        children.set(session.parent_session_id, [...(children.get(session.parent_session_id) ?? []), session]);
+      }
+    }
+
+    const addSession = (session: DbSession, depth: number) => {
       const date = new Date(session.updated_at * 1000).toLocaleString();
       const hasMessages = session.summary_text ? "📝" : "💬";
-      const preview = session.summary_text 
-        ? session.summary_text.substring(0, 60) + "..." 
+      const goal = parseSummary(session.summary_text).goal;
+      const preview = goal 
+        ? goal.substring(0, 60) + "..." 
         : "Empty session";
+      const indent = depth > 0 ? `${"   ".repeat(depth - 1)}└─ ` : "";
+      // A fork whose parent isn't in the list still says where it came from
+      const forkOf = depth === 0 && session.parent_session_id
+        ? ` (fork of ${session.parent_session_id.substring(0, 8)})`
+        : "";
       
       choices.push({
-        name: `${hasMessages} ${session.id.substring(0, 8)}... (${date}) - ${preview}`,
+        name: `${indent}${hasMessages} ${session.id.substring(0, 8)}...${forkOf} (${date}) - ${preview}`,
         value: session.id,
       });
+
+      for (const child of children.get(session.id) ?? []) {
+        addSession(child, depth + 1);
+      }
+    };
+
+    for (const session of sessions) {
+      if (!session.parent_session_id || !listed.has(session.parent_session_id)) {
+        addSession(session, 0);
+      }
     }
   } else {
     choices.push({
@@ -138,29 +439,37 @@ async function cliLoop(skipSelector: boolean = false) {
   
   if (skipSelector) {
     // Skip selector and create new session directly
-    session = await Session.loadOrCreate();
+    session = await Session.loadOrCreate(undefined, SYSTEM_PROMPT);
     logger.info({ sessionId: session.getId() }, "Created new session");
   } else {
     // Show interactive session selector (default behavior)
     const selectedSessionId = await selectSession();
     if (selectedSessionId) {
-      session = await Session.loadOrCreate(selectedSessionId);
+      session = await Session.loadOrCreate(selectedSessionId, SYSTEM_PROMPT);
       logger.info({ sessionId: session.getId() }, "Loaded selected session");
     } else {
-      session = await Session.loadOrCreate();
+      session = await Session.loadOrCreate(undefined, SYSTEM_PROMPT);
       logger.info({ sessionId: session.getId() }, "Created new session");
     }
   }
   
   logger.info({ sessionId: session.getId() }, "Session ready");
 
+  // A turn cut off by a crash can be resumed or discarded; any other turn
+  // that didn't complete last time is worth knowing about before continuing
+  const resumePending = session.getPendingTurn() ? await promptPendingTurn(session) : false;
+  const lastTurn = session.getLastTurn();
+
   console.log("\n🤖 Context-Compacting Coding Agent");
   console.log("=====================================");
   console.log(`Session ID: ${session.getId()}`);
   console.log(`Model: ${config.model}`);
   console.log(`Max Tokens: ${config.maxTokens.toLocaleString()}`);
   console.log(`Compact At: ${config.compactAtTokens.toLocaleString()} (${config.compactAtPercent}%)`);
-  console.log("\nType your message and press Enter. Type 'exit' to quit.\n");
+  if (lastTurn && lastTurn.status !== "completed" && !lastTurn.recovery && !resumePending) {
+    console.log(`\n⚠️  The last turn ${lastTurn.status}${lastTurn.error ? `: ${lastTurn.error}` : ""} (see /runs)`);
+  }
+  console.log("\nType your message and press Enter. Type /help for commands, 'exit' to quit. Ctrl+C stops the current turn.\n");
 
   // Create readline interface after session selection to avoid conflicts
   const rl = readline.createInterface({
@@ -168,30 +477,72 @@ async function cliLoop(skipSelector: boolean = false) {
     output: process.stdout,
   });
 
-  while (true) {
-    const userInput = await rl.question("You: ");
-
-    if (userInput.trim().toLowerCase() === "exit") {
-      logger.info("User requested exit");
-      break;
+  // Ctrl+C aborts the running turn instead of killing the process
+  let turnController: AbortController | null = null;
+  rl.on("SIGINT", () => {
+    if (turnController) {
+      turnController.abort();
+      return;
     }
+    console.log("\n(Type 'exit' to quit)");
+    rl.prompt();
+  });
 
-    if (!userInput.trim()) {
-      continue;
-    }
+  /**
+   * Run a turn (new or resumed) with live progress output
+   */
+  const runCliTurn = async (start: (options: RunAgentOptions) => Promise<AgentTurnResult>) => {
+    turnController = new AbortController();
 
     try {
-      const result = await runAgent(session, userInput);
-
-      const displayText = result.text || "(Used tools to complete the task)";
-      console.log("\nAssistant:", displayText);
+      process.stdout.write("\nAssistant: ");
+
+      // Live command output is shown dimmed; track whether it ended mid-line
+      // so the tool summary starts on a fresh one
+      let outputOpenLine = false;
+
+      const result = await start({
+        abortSignal: turnController.signal,
+        onTextDelta: (text) => process.stdout.write(text),
+        onToolStart: (toolName, input) => {
+          console.log(`\n🔧 ${toolName} ${describeToolInput(toolName, input)}`);
+        },
+        onToolOutput: (_toolCallId, _stream, text) => {
+          process.stdout.write(`\x1b[2m${text}\x1b[0m`);
+          outputOpenLine = !text.endsWith("\n");
+        },
+        onToolEnd: (toolName, output, error) => {
+          if (outputOpenLine) {
+            process.stdout.write("\n");
+            outputOpenLine = false;
+          }
+          console.log(`   ${toolName} ${describeToolOutput(output, error)}`);
+        },
+        requestApproval: (request) => {
+          if (outputOpenLine) {
+            process.stdout.write("\n");
+            outputOpenLine = false;
+          }
+          return promptApproval(rl, request);
+        },
+        onContextBudget: (report) => {
+          console.log(`\n⚠️  Prompt would exceed the context budget (${report.tokensBefore.toLocaleString()} / ${report.budget.toLocaleString()} tokens)`);
+          if (report.compacted) {
+            console.log("   🗜️  Compacted the conversation first");
+          }
+          if (report.truncatedMessages > 0) {
+            console.log(`   ✂️  Truncated ${report.truncatedMessages} oversized message(s) in the prompt`);
+          }
+          console.log(`   Prompt is now ${report.tokensAfter.toLocaleString()} tokens\n`);
+        },
+      });
 
-      // Show tool calls if any
-      if (result.toolCalls && result.toolCalls.length > 0) {
-        console.log("\n📦 Tool Calls:");
-        for (const call of result.toolCalls) {
-          console.log(`  - ${call.toolName}`);
-        }
+      if (result.aborted) {
+        console.log("\n\n⏹️  Turn aborted");
+      } else if (!result.text) {
+        console.log("(Used tools to complete the task)");
+      } else {
+        console.log();
       }
 
       // Show token usage
@@ -201,7 +552,33 @@ async function cliLoop(skipSelector: boolean = false) {
       logger.error({ error }, "Error processing message");
       console.error("\n❌ Error:", error.message);
       console.log();
+    } finally {
+      turnController = null;
+    }
+  };
+
+  if (resumePending) {
+    await runCliTurn(options => resumeAgent(session, options));
+  }
+
+  while (true) {
+    const userInput = await rl.question("You: ");
+
+    if (userInput.trim().toLowerCase() === "exit") {
+      logger.info("User requested exit");
+      break;
+    }
+
+    if (!userInput.trim()) {
+      continue;
     }
+
+    if (userInput.trim().startsWith("/")) {
+      session = await handleCommand(session, rl, userInput);
+      continue;
+    }
+
+    await runCliTurn(options => runAgent(session, userInput, options));
   }
 
   rl.close();
@@ -215,7 +592,7 @@ async function runDemo() {
   logger.info("Running demo task");
 
   // Create new session for demo
-  const session = await Session.loadOrCreate();
+  const session = await Session.loadOrCreate(undefined, SYSTEM_PROMPT);
 
   console.log("\n🤖 Running Demo Task");
   console.log("====================\n");
@@ -231,34 +608,102 @@ async function runDemo() {
   console.log("\n✅ Demo completed");
 }
 
+/**
+ * Export a session to a JSON or Markdown file
+ */
+function runExport(sessionId: string | undefined, format: string, outputPath?: string) {
+  if (!sessionId || !EXPORT_FORMATS.includes(format as ExportFormat)) {
+    console.error(`Usage: export <sessionId> --format ${EXPORT_FORMATS.join("|")} [--output <file>]`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const path = exportSessionFile(sessionId, format as ExportFormat, outputPath);
+  console.log(`📤 Exported session ${sessionId} to ${path}`);
+}
+
+/**
+ * Import a JSON session export as a new session
+ */
+function runImport(path: string | undefined) {
+  if (!path) {
+    console.error("Usage: import <file>");
+    process.exitCode = 1;
+    return;
+  }
+
+  const session = importSessionFile(path);
+  console.log(`📥 Imported ${path} as session ${session.id} (pick it in the session selector to continue it)`);
+}
+
+/**
+ * Print the command line usage
+ */
+function printUsage() {
+  console.log(`Usage:
+  index.ts [--new|-n]                      Chat in the CLI (--new skips the session selector)
+  index.ts demo                            Run the demo task in a new session
+  index.ts export <sessionId> --format ${EXPORT_FORMATS.join("|")} [--output <file>]
+                                           Export a session to a file
+  index.ts import <file>                   Import a JSON session export as a new session
+  index.ts --help|-h                       Show this help`);
+}
+
 /**
  * Main function
  */
 async function main() {
   logger.info("Starting context-compacting coding agent");
 
+  if (process.argv.includes("--help") || process.argv.includes("-h")) {
+    printUsage();
+    return;
+  }
+
   // Initialize database
   logger.info("Initializing database");
   initDB();
   runMigrations();
 
-  // Ensure Docker container is ready
-  logger.info("Ensuring Docker container is ready");
-  await ensureContainer();
-
   // Parse command line args
   const args = process.argv.slice(2);
   logger.info({ args, fullArgv: process.argv }, "Command line arguments received");
   const skipSelector = args.includes("--new") || args.includes("-n");
-  const mode = args.find(arg => !arg.startsWith("--") && !arg.startsWith("-")) || "cli";
+  // Options that take a value, e.g. --format md
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const positional = args.filter((arg, index) =>
+    !arg.startsWith("-") && !["--format", "--output"].includes(args[index - 1])
+  );
+  const mode = positional[0] || "cli";
   logger.info({ skipSelector, mode }, "Parsed arguments");
 
+  // Export and import only touch the database
+  if (mode === "export") {
+    runExport(positional[1], option("--format") ?? "json", option("--output"));
+    return;
+  }
+  if (mode === "import") {
+    runImport(positional[1]);
+    return;
+  }
+
+  // Fail fast on missing provider settings or an invalid approval policy file
+  getModel();
+  getApprovalPolicy();
+
+  // Session containers are created on first use; stop the ones left idle
+  startIdleReaper();
+
   if (mode === "demo") {
     await runDemo();
   } else {
     await cliLoop(skipSelector);
   }
 
+  await shutdownContainers();
   logger.info("Agent shutdown complete");
 }
 
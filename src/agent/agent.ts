@@ -0,0 +1,258 @@
+import { streamText, stepCountIs, type StepResult } from "ai";
+import { getModel } from "./provider.js";
+import { logger } from "../utils/logger.js";
+import { Session, type ContextBudgetReport, type PreparedPrompt } from "./session.js";
+import { tools } from "./tools.js";
+import type { ToolContext } from "./artifacts.js";
+import { extractUsage, sumUsage } from "./tokenCounter.js";
+import { snapshotContainer } from "../docker/manager.js";
+
+/**
+ * Agent loop
+ * Runs a turn against the model with the tools, streaming progress to the
+ * caller, and records it in the session. The model is resolved per turn, so
+ * modes that never call it (export, import) need no provider credentials
+ */
+
+// System prompt for the agent
+export const SYSTEM_PROMPT = `You are a helpful coding assistant with access to tools for executing commands, reading files, and writing files. 
+
+You work in a sandboxed Docker environment where you can safely run commands and manipulate files.
+
+When the user asks you to do something:
+1. Break it down into steps
+2. Use the available tools to accomplish the task
+3. Provide clear explanations of what you're doing
+4. Show the results of your actions
+
+Available tools:
+- run_shell: Execute shell commands in the Docker sandbox
+- start_process / process_status / read_process_output / stop_process: Run long-lived commands (dev servers, watchers) in the background, follow their output and stop them
+- read_file: Read file contents from the workspace (optionally a range of lines)
+- write_file: Write content to a file in the workspace
+- edit_file: Replace an exact, unique string in a file - prefer this for small changes
+- apply_patch: Apply a unified diff to one or more files
+- list_dir: List a directory
+- glob: Find files by name pattern
+- grep: Search file contents with a regular expression
+- read_tool_output: Page through a tool output that was truncated
+
+Some tool calls need the user's approval first. A call that fails with errorCode "denied" was refused by the user or the approval policy: don't retry it as-is; take the reason into account or ask the user how to proceed.
+
+Be concise but thorough. Focus on getting things done.`;
+
+/**
+ * Callbacks for live progress while a turn is streaming
+ */
+export interface AgentEventHandlers {
+  onTextDelta?: (text: string) => void;
+  onToolStart?: (toolName: string, input: unknown) => void;
+  onToolEnd?: (toolName: string, output: unknown, error?: string) => void;
+  onToolOutput?: ToolContext["onToolOutput"];
+  requestApproval?: ToolContext["requestApproval"];
+  onContextBudget?: (report: ContextBudgetReport) => void;
+}
+
+export interface RunAgentOptions extends AgentEventHandlers {
+  abortSignal?: AbortSignal;
+}
+
+export interface AgentTurnResult {
+  text: string;
+  toolCalls: { toolName: string }[];
+  usage: ReturnType<typeof extractUsage>;
+  aborted: boolean;
+}
+
+/**
+ * Main agent loop
+ * Streams the response, reporting text and tool progress through the handlers
+ * An aborted turn keeps the messages of the steps that already finished and
+ * the tool calls of the step it stopped
+ */
+export async function runAgent(
+  session: Session,
+  userMessage: string,
+  options: RunAgentOptions = {}
+): Promise<AgentTurnResult> {
+  logger.info({ sessionId: session.getId(), userMessage }, "Processing user message");
+
+  // Add user message and build the prompt, compacting or truncating first
+  // if it would overflow the context budget
+  return runTurn(session, options, () => session.preparePrompt(SYSTEM_PROMPT, userMessage));
+}
+
+/**
+ * Continue a turn a crash cut off, replaying the tool calls that already
+ * finished instead of running them again
+ */
+export async function resumeAgent(session: Session, options: RunAgentOptions = {}): Promise<AgentTurnResult> {
+  logger.info({ sessionId: session.getId() }, "Resuming interrupted turn");
+  return runTurn(session, options, async () => session.resumePendingTurn(SYSTEM_PROMPT));
+}
+
+/**
+ * Run one turn on a prepared prompt
+ * The turn and each model step are recorded as runs, and tool calls are
+ * journaled as they start and finish so a crash mid-turn can be resumed
+ */
+async function runTurn(
+  session: Session,
+  options: RunAgentOptions,
+  prepare: () => Promise<PreparedPrompt>
+): Promise<AgentTurnResult> {
+  const turnRun = session.startRun("turn", 0);
+  const turnStartedAt = Date.now();
+
+  // The model step in progress; a step that never finishes is closed with the turn
+  let stepRun: { id: number; startedAt: number } | null = null;
+  // Step the stream is in, for journaling its tool calls
+  let stepNo = 0;
+  const closeStepRun = (status: "failed" | "aborted", error?: string) => {
+    if (stepRun) {
+      session.finishRun(stepRun.id, status, { error, durationMs: Date.now() - stepRun.startedAt });
+      stepRun = null;
+    }
+  };
+
+  // Steps are collected as they finish so an abort or a failure can still persist them
+  const steps: StepResult<typeof tools>[] = [];
+  let stepsStored = false;
+  const storeSteps = () => {
+    if (stepsStored) {
+      return;
+    }
+    stepsStored = true;
+    // Add every generated message (assistant text, tool calls, tool results)
+    // so a resumed session knows which tools ran and what they returned
+    // Each step's response messages include those of the previous steps
+    session.addResponseMessages(steps.at(-1)?.response.messages ?? []);
+    // A step stopped during its tool calls never finishes, but its tools ran
+    session.addUnfinishedToolCalls(turnRun.id, steps.length);
+  };
+
+  try {
+    const { messages, report, userMessageId } = await prepare();
+    session.setRunMessage(turnRun.id, userMessageId);
+    if (report.compacted || report.truncatedMessages > 0) {
+      options.onContextBudget?.(report);
+    }
+
+    let aborted = false;
+
+    // Stream response with tools
+    const result = streamText({
+      model: getModel(),
+      messages,
+      tools,
+      stopWhen: stepCountIs(10), // Allow multiple tool calls in sequence
+      abortSignal: options.abortSignal,
+      experimental_context: {
+        sessionId: session.getId(),
+        onToolOutput: options.onToolOutput,
+        requestApproval: options.requestApproval,
+        journalToolCall: (toolCallId, toolName, input) => session.journalToolCall(turnRun.id, stepNo, toolCallId, toolName, input),
+        journalToolResult: (toolCallId, output, isError) => session.journalToolResult(turnRun.id, toolCallId, output, isError),
+      } satisfies ToolContext,
+      prepareStep: ({ stepNumber, messages: stepMessages }) => {
+        stepNo = stepNumber + 1;
+        stepRun = { id: session.startRun("step", stepNo, turnRun.id).id, startedAt: Date.now() };
+
+        // The first prompt was fitted above; later ones grow with every tool result
+        const fitted = stepNumber > 0 ? session.fitStepPrompt(stepMessages) : null;
+        if (!fitted) {
+          return undefined;
+        }
+        options.onContextBudget?.(fitted.report);
+        return { messages: fitted.messages };
+      },
+      onStepFinish: (step) => {
+        steps.push(step);
+        if (stepRun) {
+          session.finishRun(stepRun.id, "completed", {
+            durationMs: Date.now() - stepRun.startedAt,
+            usage: extractUsage(step.usage),
+            finishReason: step.finishReason,
+            toolCalls: step.toolCalls.map(call => ({ toolCallId: call.toolCallId, toolName: call.toolName })),
+          });
+          stepRun = null;
+        }
+      },
+      onError: ({ error }) => {
+        logger.debug({ error }, "Stream error");
+      },
+    });
+
+    for await (const part of result.fullStream) {
+      switch (part.type) {
+        case "text-delta":
+          options.onTextDelta?.(part.text);
+          break;
+        case "tool-call":
+          options.onToolStart?.(part.toolName, part.input);
+          break;
+        case "tool-result":
+          if (!part.preliminary) {
+            options.onToolEnd?.(part.toolName, part.output);
+          }
+          break;
+        case "tool-error":
+          options.onToolEnd?.(part.toolName, undefined, String(part.error));
+          break;
+        case "abort":
+          aborted = true;
+          break;
+        case "error":
+          throw part.error;
+      }
+    }
+
+    closeStepRun(aborted ? "aborted" : "failed", aborted ? undefined : "The step ended without finishing");
+
+    // Extract usage across all finished steps
+    const usage = sumUsage(steps.map(step => step.usage));
+    logger.info({ usage, steps: steps.length, aborted }, "Generation completed");
+    session.recordConversationUsage(usage, steps.length);
+
+    storeSteps();
+    const lastStep = steps.at(-1);
+
+    // Update token count from the final step - its input is the whole prompt
+    if (lastStep) {
+      const lastStepUsage = extractUsage(lastStep.usage);
+      session.updateTokenCount(lastStepUsage.inputTokens, lastStepUsage.outputTokens);
+    }
+
+    // Checkpoint the container, so a recreated one keeps what this turn installed
+    await snapshotContainer(session.getId(), "turn");
+
+    // Check if compaction is needed
+    const compacted = await session.checkAndCompact();
+    if (compacted) {
+      logger.info("Conversation compacted successfully");
+    }
+
+    const toolCalls = steps.flatMap(step => step.toolCalls);
+    session.finishRun(turnRun.id, aborted ? "aborted" : "completed", {
+      durationMs: Date.now() - turnStartedAt,
+      usage,
+      finishReason: lastStep?.finishReason,
+      toolCalls: toolCalls.map(call => ({ toolCallId: call.toolCallId, toolName: call.toolName })),
+    });
+
+    return {
+      text: steps.map(step => step.text).join(""),
+      toolCalls,
+      usage,
+      aborted,
+    };
+  } catch (error: any) {
+    const message = error?.message ?? String(error);
+    // A later step failing (e.g. a rate limit) doesn't undo what earlier ones ran
+    storeSteps();
+    closeStepRun("failed", message);
+    session.finishRun(turnRun.id, "failed", { error: message, durationMs: Date.now() - turnStartedAt });
+    throw error;
+  }
+}
+
@@ -0,0 +1,313 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+import { recordApproval } from "../db/client.js";
+import type { ApprovalDecidedBy } from "../db/schema.js";
+import { config } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import { parsePatch } from "./patch.js";
+import { resolveWorkspacePath, globToRegExp } from "./workspace.js";
+import type { ToolContext } from "./artifacts.js";
+
+/**
+ * Tool call approval policy
+ * Every tool call is sorted as allow, ask or deny by the first rule that
+ * matches its tool, command and paths. "ask" pauses the call until the user
+ * answers; denied calls never run. Decisions other than a plain default
+ * allow are recorded in the approvals table
+ */
+
+export type ApprovalAction = "allow" | "ask" | "deny";
+
+const actionSchema = z.enum(["allow", "ask", "deny"]);
+
+const ruleSchema = z.object({
+  action: actionSchema,
+  // Tool names the rule applies to; omit for every tool
+  tools: z.array(z.string()).optional(),
+  // Regex tested against the command of run_shell and start_process
+  command: z.string().optional(),
+  // Workspace glob (as in the glob tool) tested against the paths a call touches
+  path: z.string().optional(),
+  // Shown when asking, and to the model when the call is denied
+  reason: z.string().optional(),
+});
+
+const policySchema = z.object({
+  // Action for calls no rule matches
+  default: actionSchema.default("allow"),
+  rules: z.array(ruleSchema).default([]),
+});
+
+export type ApprovalPolicyFile = z.infer<typeof policySchema>;
+
+interface ApprovalRule {
+  index: number;
+  action: ApprovalAction;
+  tools?: Set<string>;
+  command?: RegExp;
+  path?: RegExp;
+  reason?: string;
+  description: string;
+}
+
+export interface ApprovalPolicy {
+  default: ApprovalAction;
+  rules: ApprovalRule[];
+}
+
+/**
+ * A tool call waiting for the user's answer
+ */
+export interface ApprovalRequest {
+  toolCallId: string;
+  toolName: string;
+  command?: string;
+  paths: string[];
+  // The matched rule, or undefined when the default action is "ask"
+  rule?: string;
+  reason?: string;
+}
+
+export type ApprovalAnswer =
+  // remember: approve matching calls for the rest of the session without asking
+  | { approved: true; remember: boolean }
+  | { approved: false; reason?: string };
+
+export interface ApprovalVerdict {
+  approved: boolean;
+  // Why a call was denied, for the model
+  reason?: string;
+}
+
+// Used when APPROVAL_POLICY_PATH is not set
+const DEFAULT_POLICY: ApprovalPolicyFile = {
+  default: "allow",
+  rules: [
+    {
+      action: "deny",
+      command: String.raw`\brm\s+(-\S+\s+)*(/|~|\$HOME)/?\*?(\s|;|&|$)`,
+      reason: "Deleting the root or home directory is never allowed",
+    },
+    {
+      action: "ask",
+      command: String.raw`\brm\s+(-\S+\s+)*-[a-zA-Z]*[rR]`,
+      reason: "Recursive delete",
+    },
+    {
+      action: "ask",
+      command: String.raw`\b(curl|wget)\b[^|;&]*\|\s*(sudo\s+)?(ba|z|da)?sh\b`,
+      reason: "Runs a downloaded script",
+    },
+    {
+      action: "ask",
+      command: String.raw`\bgit\s+push\b`,
+      reason: "Publishes commits",
+    },
+  ],
+};
+
+let policy: ApprovalPolicy | null = null;
+
+// Rules approved for the rest of a session, by session id
+const rememberedApprovals = new Map<string, Set<string>>();
+
+// Parallel tool calls ask one at a time
+let promptQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Load and validate a policy file
+ */
+export function loadApprovalPolicy(path: string): ApprovalPolicy {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Failed to read approval policy ${path}: ${error.message}`);
+  }
+
+  const parsed = policySchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid approval policy ${path}: ${parsed.error.message}`);
+  }
+  return compilePolicy(parsed.data, path);
+}
+
+/**
+ * The configured policy (or the built-in one), loaded on first use
+ */
+export function getApprovalPolicy(): ApprovalPolicy {
+  if (!policy) {
+    const path = config.approval.policyPath;
+    policy = path ? loadApprovalPolicy(path) : compilePolicy(DEFAULT_POLICY, "built-in policy");
+    logger.info({ path: path ?? "built-in", rules: policy.rules.length, default: policy.default }, "Approval policy loaded");
+  }
+  return policy;
+}
+
+function compilePolicy(file: ApprovalPolicyFile, source: string): ApprovalPolicy {
+  const rules = file.rules.map((rule, index): ApprovalRule => {
+    let command: RegExp | undefined;
+    if (rule.command !== undefined) {
+      try {
+        command = new RegExp(rule.command);
+      } catch (error: any) {
+        throw new Error(`Invalid approval policy ${source}: rule ${index + 1} command: ${error.message}`);
+      }
+    }
+
+    const conditions = [
+      rule.tools ? rule.tools.join("|") : "any tool",
+      rule.command !== undefined ? `command /${rule.command}/` : "",
+      rule.path !== undefined ? `path ${rule.path}` : "",
+    ].filter(Boolean);
+
+    return {
+      index,
+      action: rule.action,
+      tools: rule.tools ? new Set(rule.tools) : undefined,
+      command,
+      path: rule.path !== undefined ? globToRegExp(rule.path) : undefined,
+      reason: rule.reason,
+      description: `#${index + 1} ${rule.action} ${conditions.join(", ")}`,
+    };
+  });
+
+  return { default: file.default, rules };
+}
+
+/**
+ * What a tool call does, as far as the rules can match it
+ */
+function describeCall(toolName: string, input: any): { command?: string; paths: string[] } {
+  if (toolName === "run_shell" || toolName === "start_process") {
+    return { command: String(input?.command ?? ""), paths: [] };
+  }
+
+  let paths: string[] = [];
+  if (toolName === "apply_patch") {
+    try {
+      paths = parsePatch(String(input?.patch ?? ""))
+        .flatMap(file => [file.oldPath, file.newPath])
+        .filter((path): path is string => !!path);
+    } catch {
+      // Unparseable patches fail in the tool itself
+    }
+  } else if (typeof input?.path === "string") {
+    paths = [input.path];
+  }
+
+  // Rules match workspace-relative paths; paths outside are refused by the tools anyway
+  return {
+    paths: [...new Set(paths.map(path => {
+      try {
+        return resolveWorkspacePath(path).relative;
+      } catch {
+        return path;
+      }
+    }))],
+  };
+}
+
+/**
+ * The first rule matching a call, and the action it decides
+ */
+export function evaluateToolCall(
+  toolName: string,
+  input: unknown,
+  current: ApprovalPolicy = getApprovalPolicy()
+): { action: ApprovalAction; rule?: ApprovalRule; command?: string; paths: string[] } {
+  const call = describeCall(toolName, input);
+
+  const rule = current.rules.find(rule =>
+    (!rule.tools || rule.tools.has(toolName)) &&
+    (!rule.command || (call.command !== undefined && rule.command.test(call.command))) &&
+    (!rule.path || call.paths.some(path => rule.path!.test(path)))
+  );
+
+  return { action: rule?.action ?? current.default, rule, ...call };
+}
+
+/**
+ * Decide whether a tool call may run, asking the user when the policy says so
+ * Without a way to ask (e.g. non-interactive runs) "ask" is treated as deny
+ */
+export async function authorizeToolCall(
+  toolName: string,
+  input: unknown,
+  toolCallId: string,
+  context?: ToolContext
+): Promise<ApprovalVerdict> {
+  const { action, rule, command, paths } = evaluateToolCall(toolName, input);
+  const subject = command ?? paths.join(", ");
+  const sessionId = context?.sessionId;
+
+  const decide = (approved: boolean, decidedBy: ApprovalDecidedBy, reason?: string): ApprovalVerdict => {
+    logger.info({ toolName, toolCallId, action, rule: rule?.description, approved, decidedBy, reason }, "Tool call approval");
+    if (sessionId) {
+      recordApproval({
+        session_id: sessionId,
+        tool_call_id: toolCallId,
+        tool_name: toolName,
+        subject,
+        action,
+        rule: rule?.description ?? null,
+        approved: approved ? 1 : 0,
+        decided_by: decidedBy,
+        reason: reason ?? null,
+      });
+    }
+    return { approved, reason };
+  };
+
+  if (action === "allow") {
+    // Plain default allows aren't worth a row each
+    return rule ? decide(true, "policy") : { approved: true };
+  }
+
+  if (action === "deny") {
+    return decide(false, "policy", rule?.reason ?? "Denied by the approval policy");
+  }
+
+  const key = rule ? `rule:${rule.index}` : `tool:${toolName}`;
+  const remembered = () => !!sessionId && !!rememberedApprovals.get(sessionId)?.has(key);
+
+  if (remembered()) {
+    return decide(true, "session");
+  }
+
+  if (!context?.requestApproval) {
+    return decide(false, "policy", `Needs the user's approval (${rule?.reason ?? "approval policy"}), but no one can be asked in this run`);
+  }
+
+  const ask = context.requestApproval;
+  const answer = promptQueue.then(async (): Promise<ApprovalAnswer | null> => {
+    // An earlier prompt may have approved this rule for the session
+    if (remembered()) {
+      return null;
+    }
+    return ask({ toolCallId, toolName, command, paths, rule: rule?.description, reason: rule?.reason });
+  });
+  promptQueue = answer.catch(() => undefined);
+
+  let result: ApprovalAnswer | null;
+  try {
+    result = await answer;
+  } catch (error: any) {
+    logger.warn({ error, toolName, toolCallId }, "Approval prompt failed");
+    return decide(false, "user", "The approval prompt was cancelled");
+  }
+
+  if (result === null) {
+    return decide(true, "session");
+  }
+  if (!result.approved) {
+    return decide(false, "user", result.reason ? `Denied by the user: ${result.reason}` : "Denied by the user");
+  }
+
+  if (result.remember && sessionId) {
+    const keys = rememberedApprovals.get(sessionId) ?? new Set<string>();
+    keys.add(key);
+    rememberedApprovals.set(sessionId, keys);
+  }
+  return decide(true, "user");
+}
@@ -0,0 +1,120 @@
+import { saveToolOutput, getToolOutputs } from "../db/client.js";
+import { config } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import type { ExecStream } from "../exec/backend.js";
+import type { ApprovalRequest, ApprovalAnswer } from "./approval.js";
+
+/**
+ * Tool output artifacts
+ * Output over a tool's cap reaches the model as head and tail only; the full
+ * text is saved by tool-call id so read_tool_output can page through it
+ */
+
+/**
+ * Context every tool call runs with (passed as the AI SDK's experimental_context)
+ */
+export interface ToolContext {
+  sessionId: string;
+  // Live output of a running command, before the tool returns
+  onToolOutput?: (toolCallId: string, stream: ExecStream, text: string) => void;
+  // Asks the user about a call the approval policy marks "ask"; without it those calls are denied
+  requestApproval?: (request: ApprovalRequest) => Promise<ApprovalAnswer>;
+  // Record a call as it starts and finishes running; called from the tool
+  // itself, so a call is on record even if its turn stops before the stream reports it
+  journalToolCall?: (toolCallId: string, toolName: string, input: unknown) => void;
+  journalToolResult?: (toolCallId: string, output: unknown, isError: boolean) => void;
+}
+
+export interface CappedOutput {
+  text: string;
+  // Size of the full output in UTF-8 bytes
+  bytes: number;
+  truncated: boolean;
+}
+
+// Share of the cap kept from the start of the output; the rest comes from the end
+const HEAD_SHARE = 0.4;
+
+/**
+ * Max characters of a tool's output returned to the model
+ */
+export function getOutputLimit(toolName: string): number {
+  return config.toolOutput.maxCharsByTool[toolName] ?? config.toolOutput.maxChars;
+}
+
+/**
+ * Cap one field of a tool result
+ * Over the limit, the full text is saved and the model gets the head and the
+ * tail with a note on how to read the rest
+ */
+export function capToolOutput(
+  call: { toolName: string; toolCallId: string; context?: ToolContext },
+  field: string,
+  text: string
+): CappedOutput {
+  const bytes = Buffer.byteLength(text, "utf-8");
+  const limit = getOutputLimit(call.toolName);
+
+  if (text.length <= limit) {
+    return { text, bytes, truncated: false };
+  }
+
+  let saved = false;
+  if (call.context?.sessionId) {
+    saveToolOutput({
+      tool_call_id: call.toolCallId,
+      field,
+      session_id: call.context.sessionId,
+      tool_name: call.toolName,
+      content: text,
+      bytes,
+    });
+    saved = true;
+  }
+
+  const head = Math.floor(limit * HEAD_SHARE);
+  const tail = limit - head;
+  const omitted = text.length - head - tail;
+  const note = saved
+    ? `read_tool_output(id: "${call.toolCallId}", field: "${field}", offset, length) returns the full ${field}`
+    : `the full ${field} was not saved`;
+
+  logger.info({ toolName: call.toolName, toolCallId: call.toolCallId, field, bytes, saved }, "Tool output truncated");
+
+  return {
+    text: `${text.slice(0, head)}\n\n...[${omitted} characters omitted of ${text.length} (${bytes} bytes); ${note}]...\n\n${text.slice(-tail)}`,
+    bytes,
+    truncated: true,
+  };
+}
+
+/**
+ * Read a range of a saved tool output
+ * field defaults to the first one saved for the call
+ */
+export function readToolOutput(
+  sessionId: string,
+  toolCallId: string,
+  field: string | undefined,
+  offset: number,
+  length: number
+): { field: string; content: string; offset: number; totalLength: number; nextOffset: number | null; fields: string[] } | null {
+  const outputs = getToolOutputs(sessionId, toolCallId);
+  const output = field ? outputs.find(o => o.field === field) : outputs[0];
+
+  if (!output) {
+    return null;
+  }
+
+  const start = Math.min(Math.max(0, offset), output.content.length);
+  const end = Math.min(start + length, output.content.length);
+
+  return {
+    field: output.field,
+    content: output.content.slice(start, end),
+    offset: start,
+    totalLength: output.content.length,
+    nextOffset: end < output.content.length ? end : null,
+    fields: outputs.map(o => o.field),
+  };
+}
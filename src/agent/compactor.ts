@@ -1,36 +1,60 @@
-import { generateText } from "ai";
-import { createGateway } from "@ai-sdk/gateway";
+import { generateText, Output } from "ai";
 import { config } from "../config/env.js";
+import { getModel } from "./provider.js";
 import { logger } from "../utils/logger.js";
-import type { ModelMessage } from "ai";
+import { getTokenizer, countMessageTokens, countMessagesTokens, type Tokenizer } from "./tokenCounter.js";
+import type { ModelMessage, ToolResultPart } from "ai";
+import {
+  summarySchema,
+  parseSummary,
+  serializeSummary,
+  renderSummaryMarkdown,
+  mergeSummaries,
+  isEmptySummary,
+  type StructuredSummary,
+} from "./summary.js";
 
 /**
  * Context compactor
  * Compresses old conversation history into structured summaries
+ * The model returns one field per section; sections are merged and
+ * length-budgeted individually (see summary.ts)
  */
 
-// Initialize the gateway provider with API key
-const gateway = createGateway({
-  apiKey: config.apiKey,
-});
+// Token budget for recent messages kept verbatim
+const KEEP_RECENT_TOKENS = config.keepRecentTokens;
 
-const model = gateway(config.model);
+// Conversation messages are measured as the conversation model sees them,
+// compaction chunks as the compaction model does
+const tokenizer = getTokenizer(config.model);
+const compactionTokenizer = getTokenizer(config.compaction.model);
 
-// Number of recent messages to keep verbatim
-const KEEP_RECENT_MESSAGES = config.keepRecentMessages;
-
-// Max length for summary to prevent infinite growth
+// Max rendered length for summary to prevent infinite growth
 const MAX_SUMMARY_LENGTH = config.maxSummaryLength;
 
+// Max formatted message tokens per compaction call; larger inputs use map-reduce
+const COMPACTION_CHUNK_TOKENS = config.compactionChunkTokens;
+
 interface CompactionInput {
   existingSummary?: string;
   messages: ModelMessage[];
 }
 
+export interface CompactionChunk {
+  messages: ModelMessage[];
+  // Formatted messages, numbered by position in the whole compaction input
+  text: string[];
+  tokens: number;
+}
+
 interface CompactionResult {
+  // Serialized structured summary, as stored in sessions.summary_text
   newSummary: string;
+  summary: StructuredSummary;
   keepMessagesFromIndex: number;
   compactedMessageCount: number;
+  // Model calls made: one per chunk
+  calls: number;
   usage: {
     inputTokens: number;
     outputTokens: number;
@@ -40,24 +64,27 @@ interface CompactionResult {
 
 /**
  * Compact conversation history into structured memory
- * Keeps last N messages verbatim, summarizes everything before
+ * Keeps the most recent turns that fit the verbatim token budget, summarizes everything before
  */
 export async function compactConversation(input: CompactionInput): Promise<CompactionResult> {
   const { existingSummary, messages } = input;
 
-  // If we have fewer messages than the keep threshold, no compaction needed
-  if (messages.length <= KEEP_RECENT_MESSAGES) {
+  // Split messages: compact older ones, keep recent ones
+  const keepMessagesFromIndex = chooseSplitIndex(messages, KEEP_RECENT_TOKENS, tokenizer);
+
+  // If everything fits the verbatim budget, no compaction needed
+  if (keepMessagesFromIndex === 0) {
     logger.info("Not enough messages to compact");
     return {
       newSummary: existingSummary || "",
+      summary: parseSummary(existingSummary),
       keepMessagesFromIndex: 0,
       compactedMessageCount: 0,
+      calls: 0,
       usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
     };
   }
 
-  // Split messages: compact older ones, keep recent ones
-  const keepMessagesFromIndex = messages.length - KEEP_RECENT_MESSAGES;
   const messagesToCompact = messages.slice(0, keepMessagesFromIndex);
   const recentMessages = messages.slice(keepMessagesFromIndex);
 
@@ -68,40 +95,62 @@ export async function compactConversation(input: CompactionInput): Promise<Compa
     hasExistingSummary: !!existingSummary,
   }, "Starting compaction");
 
-  // Build compaction prompt
-  const compactionPrompt = buildCompactionPrompt(existingSummary, messagesToCompact);
+  const previousSummary = parseSummary(existingSummary);
+
+  // Pack the messages into chunks that fit one compaction call
+  const chunks = chunkMessagesForCompaction(messagesToCompact, COMPACTION_CHUNK_TOKENS);
 
   try {
-    const result = await generateText({
-      model,
-      prompt: compactionPrompt,
-      maxOutputTokens: 4000, // Limit summary length
-    });
-
-    let newSummary = result.text.trim();
-
-    // Cap summary length to prevent infinite growth
-    if (newSummary.length > MAX_SUMMARY_LENGTH) {
-      logger.warn({ originalLength: newSummary.length }, "Summary too long, truncating");
-      newSummary = newSummary.substring(0, MAX_SUMMARY_LENGTH) + "\n\n[Summary truncated due to length]";
+    let summary: StructuredSummary;
+    const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+    if (chunks.length === 1) {
+      // Single pass: merge the messages into the existing summary in one call
+      const result = await summarizeChunk(buildCompactionPrompt(previousSummary, chunks[0]));
+      addUsage(usage, result.usage);
+
+      // Merge per section; each section is capped on its own budget
+      summary = mergeSummaries(previousSummary, result.update, MAX_SUMMARY_LENGTH);
+    } else {
+      // Map-reduce: summarize each chunk on its own, then merge the chunk
+      // summaries into the existing summary in conversation order
+      logger.info({ chunks: chunks.length, chunkTokens: COMPACTION_CHUNK_TOKENS }, "Compaction input too large, using map-reduce");
+
+      // Each chunk sees the summary so far, so sections that hold the current
+      // state (plan, open questions) carry over instead of being replaced by
+      // the last chunk's view alone
+      summary = previousSummary;
+      for (const [index, chunk] of chunks.entries()) {
+        const prompt = buildCompactionPrompt(summary, chunk, { index, total: chunks.length });
+        const result = await summarizeChunk(prompt);
+        addUsage(usage, result.usage);
+
+        summary = mergeSummaries(summary, result.update, MAX_SUMMARY_LENGTH);
+
+        logger.info({
+          chunk: index + 1,
+          of: chunks.length,
+          messages: chunk.messages.length,
+          usage: result.usage,
+        }, "Compacted chunk");
+      }
     }
 
-    const usage = {
-      inputTokens: result.usage.inputTokens ?? 0,
-      outputTokens: result.usage.outputTokens ?? 0,
-      totalTokens: result.usage.totalTokens ?? 0,
-    };
+    const newSummary = serializeSummary(summary);
 
     logger.info({
       compactedMessages: messagesToCompact.length,
-      summaryLength: newSummary.length,
+      chunks: chunks.length,
+      summaryLength: renderSummaryMarkdown(summary).length,
       usage,
     }, "Compaction completed");
 
     return {
       newSummary,
+      summary,
       keepMessagesFromIndex,
       compactedMessageCount: messagesToCompact.length,
+      calls: chunks.length,
       usage,
     };
   } catch (error) {
@@ -111,54 +160,162 @@ export async function compactConversation(input: CompactionInput): Promise<Compa
 }
 
 /**
- * Build the compaction prompt with structured template
+ * Run one compaction call and return the summary fields it produced
+ */
+async function summarizeChunk(prompt: string): Promise<{ update: StructuredSummary; usage: CompactionResult["usage"] }> {
+  const result = await generateText({
+    // Summarization is a simpler job than the conversation, so it may use a cheaper model
+    model: getModel(config.compaction.model),
+    prompt,
+    output: Output.object({ schema: summarySchema }),
+    maxOutputTokens: config.compaction.maxOutputTokens,
+    temperature: config.compaction.temperature,
+  });
+
+  return {
+    update: result.output,
+    usage: {
+      inputTokens: result.usage.inputTokens ?? 0,
+      outputTokens: result.usage.outputTokens ?? 0,
+      totalTokens: result.usage.totalTokens ?? 0,
+    },
+  };
+}
+
+/**
+ * Add one call's usage to a running total
  */
-function buildCompactionPrompt(existingSummary: string | undefined, messages: ModelMessage[]): string {
-  const hasExistingSummary = existingSummary && existingSummary.trim().length > 0;
+function addUsage(total: CompactionResult["usage"], usage: CompactionResult["usage"]): void {
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  total.totalTokens += usage.totalTokens;
+}
 
-  let prompt = `You are compacting a conversation history to save context space. `;
-  
-  if (hasExistingSummary) {
-    prompt += `There is an existing summary from previous compactions, and new messages that need to be merged into it.\n\n`;
-    prompt += `## Existing Summary\n\n${existingSummary}\n\n`;
-  } else {
-    prompt += `This is the first compaction.\n\n`;
+/**
+ * Format messages and pack them into chunks of at most chunkTokens
+ * (measured on the formatted text). A single message larger than a chunk
+ * gets a chunk of its own, cut to fit it
+ */
+export function chunkMessagesForCompaction(messages: ModelMessage[], chunkTokens: number): CompactionChunk[] {
+  const chunks: CompactionChunk[] = [];
+  let current: CompactionChunk = { messages: [], text: [], tokens: 0 };
+
+  messages.forEach((message, index) => {
+    const { text, tokens } = capToTokens(formatMessageForCompaction(message, index), chunkTokens);
+
+    if (current.messages.length > 0 && current.tokens + tokens > chunkTokens) {
+      chunks.push(current);
+      current = { messages: [], text: [], tokens: 0 };
+    }
+
+    current.messages.push(message);
+    current.text.push(text);
+    current.tokens += tokens;
+  });
+
+  if (current.messages.length > 0) {
+    chunks.push(current);
   }
 
-  prompt += `## Messages to Compact\n\n`;
-  prompt += formatMessagesForCompaction(messages);
+  return chunks;
+}
 
-  prompt += `\n\n## Task
+/**
+ * Cut a formatted message to at most maxTokens, keeping its start
+ * Only a message that alone exceeds a whole chunk is cut
+ */
+function capToTokens(text: string, maxTokens: number): { text: string; tokens: number } {
+  let capped = text;
+  let tokens = compactionTokenizer.count(capped);
+
+  while (tokens > maxTokens) {
+    // Aim a little under, as the marker and token boundaries add some back
+    const keep = Math.floor(capped.length * (maxTokens / tokens) * 0.9);
+    capped = `${text.slice(0, keep)}...[${text.length - keep} characters truncated]`;
+    tokens = compactionTokenizer.count(capped);
+  }
+
+  return { text: capped, tokens };
+}
+
+/**
+ * Choose the index of the first message to keep verbatim
+ * Keeps as many recent turns as fit in keepTokens. Splits only where a user
+ * turn starts, so a tool call is never separated from its tool result and a
+ * user message never from its reply. The latest turn is always kept, even
+ * if it alone exceeds the budget. Returns 0 when nothing should be compacted
+ */
+export function chooseSplitIndex(messages: ModelMessage[], keepTokens: number, tokenizer: Tokenizer): number {
+  if (countMessagesTokens(messages, tokenizer) <= keepTokens) {
+    return 0;
+  }
+
+  let splitIndex = 0;
+  let keptTokens = 0;
+
+  for (let i = messages.length - 1; i > 0; i--) {
+    keptTokens += countMessageTokens(messages[i], tokenizer);
+
+    if (messages[i].role !== "user") {
+      continue;
+    }
 
-Create a NEW summary that ${hasExistingSummary ? 'MERGES the existing summary with the new messages' : 'summarizes all the messages'}. Use this EXACT structure:
+    // The latest turn is always kept; earlier turns only while they fit
+    if (keptTokens > keepTokens && splitIndex > 0) {
+      break;
+    }
+    splitIndex = i;
+  }
+
+  return splitIndex;
+}
 
-# Goal
-[What is the user trying to achieve? What is the main objective or task?]
+/**
+ * Build the compaction prompt
+ * The output structure is enforced by the summary schema
+ */
+function buildCompactionPrompt(
+  previousSummary: StructuredSummary,
+  chunk: CompactionChunk,
+  part?: { index: number; total: number }
+): string {
+  const hasExistingSummary = !isEmptySummary(previousSummary);
 
-# Current Plan
-[What steps or approach have been planned or are being followed?]
+  let prompt = `You are compacting a conversation history to save context space. `;
+  
+  if (part) {
+    prompt += `The history is too long for one pass, so it is summarized in parts, in order. This is part ${part.index + 1} of ${part.total}.\n\n`;
+  }
 
-# Key Decisions
-[Important choices made, approaches selected, rejected alternatives]
+  if (hasExistingSummary) {
+    prompt += part
+      ? `The existing summary covers everything before these messages; merge these messages into it.\n\n`
+      : `There is an existing summary from previous compactions, and new messages that need to be merged into it.\n\n`;
+    prompt += `## Existing Summary\n\n${renderSummaryMarkdown(previousSummary)}\n\n`;
+  } else if (!part) {
+    prompt += `This is the first compaction.\n\n`;
+  }
 
-# Facts / Constraints
-[Technical details, requirements, limitations, environment info]
+  prompt += `## Messages to Compact\n\n`;
+  prompt += chunk.text.join("\n\n");
 
-# Tool Results
-[Important outputs from tool calls, file operations, command results]
+  prompt += `\n\n## Task
 
-# Open Questions
-[Unresolved issues, pending decisions, things that need clarification]
+Produce the summary fields ${hasExistingSummary ? 'for the conversation so far, given the existing summary and the new messages' : 'for these messages'}:
 
----
+- goal: what the user is trying to achieve - the main objective or task${hasExistingSummary ? ' (the current goal, updated if it changed)' : ''}
+- currentPlan: the steps or approach being followed${hasExistingSummary ? ' (the full current plan)' : ''}
+- keyDecisions: important choices made, approaches selected, rejected alternatives
+- factsConstraints: technical details, requirements, limitations, environment info
+- toolResults: important outputs from tool calls, file operations, command results
+- openQuestions: unresolved issues, pending decisions, things that need clarification${hasExistingSummary ? ' (the full current list - drop questions that were resolved)' : ''}
 
 IMPORTANT RULES:
 1. Keep it concise but preserve critical information
 2. Focus on technical facts, not conversational fluff
-3. ${hasExistingSummary ? 'MERGE information from existing summary with new messages - do not duplicate' : 'Extract key information from messages'}
-4. If a section is empty or not applicable, write "None" or "N/A"
-5. Use bullet points for readability
-6. Maximum length: keep the summary under 2000 words
+3. ${hasExistingSummary ? 'For keyDecisions, factsConstraints and toolResults list ONLY new items from the new messages - existing items are kept automatically, do not repeat them' : 'Extract key information from messages'}
+4. Use an empty list for a section with nothing to record
+5. One short, self-contained bullet per list item
 
 Generate the summary now:`;
 
@@ -166,42 +323,52 @@ Generate the summary now:`;
 }
 
 /**
- * Format messages into a readable text format for compaction
+ * Format a message into a readable text format for compaction
+ * index is the message's position in the whole compaction input
  */
-function formatMessagesForCompaction(messages: ModelMessage[]): string {
-  return messages
-    .map((msg, index) => {
-      const role = msg.role.toUpperCase();
-      let content = "";
-
-      if (typeof msg.content === "string") {
-        content = msg.content;
-      } else if (Array.isArray(msg.content)) {
-        // Handle multi-part content - simplified to avoid type issues
-        content = msg.content
-          .map(part => {
-            if (part.type === "text") {
-              return part.text;
-            } else if (part.type === "tool-call") {
-              return `[Tool Call: ${part.toolName}(...)]`;
-            } else if (part.type === "tool-result") {
-              return `[Tool Result from ${part.toolName}]`;
-            } else if (part.type === "image") {
-              return "[Image]";
-            } else if (part.type === "file") {
-              return "[File]";
-            }
-            return `[${part.type}]`;
-          })
-          .join("\n");
-      }
+function formatMessageForCompaction(msg: ModelMessage, index: number): string {
+  const role = msg.role.toUpperCase();
+  let content = "";
+
+  if (typeof msg.content === "string") {
+    content = msg.content;
+  } else if (Array.isArray(msg.content)) {
+    // Handle multi-part content - simplified to avoid type issues
+    content = msg.content
+      .map(part => {
+        if (part.type === "text") {
+          return part.text;
+        } else if (part.type === "tool-call") {
+          return `[Tool Call: ${part.toolName}(${JSON.stringify(part.input)})]`;
+        } else if (part.type === "tool-result") {
+          return `[Tool Result from ${part.toolName}: ${formatToolOutput(part.output)}]`;
+        } else if (part.type === "image") {
+          return "[Image]";
+        } else if (part.type === "file") {
+          return "[File]";
+        }
+        return `[${part.type}]`;
+      })
+      .join("\n");
+  }
 
-      // Truncate very long messages
-      if (content.length > 2000) {
-        content = content.substring(0, 2000) + "...[truncated]";
-      }
+  return `[${index + 1}] ${role}: ${content}`;
+}
 
-      return `[${index + 1}] ${role}: ${content}`;
-    })
-    .join("\n\n");
-}
\ No newline at end of file
+/**
+ * Format a tool result output as text for compaction
+ */
+function formatToolOutput(output: ToolResultPart["output"]): string {
+  switch (output.type) {
+    case "text":
+    case "error-text":
+      return output.value;
+    case "json":
+    case "error-json":
+      return JSON.stringify(output.value);
+    case "execution-denied":
+      return `denied${output.reason ? `: ${output.reason}` : ""}`;
+    default:
+      return `[${output.type}]`;
+  }
+}
@@ -0,0 +1,117 @@
+import type { ModelMessage } from "ai";
+import { countMessageTokens, type Tokenizer } from "./tokenCounter.js";
+
+/**
+ * Last-resort context fitting
+ * Shrinks the largest message bodies in a prompt until it fits the budget
+ */
+
+// Messages are never truncated below this many tokens
+const MIN_MESSAGE_TOKENS = 256;
+
+// Room for the "[... truncated ...]" marker added to each truncated part
+const TRUNCATION_MARKER_TOKENS = 32;
+
+export interface TruncationResult {
+  messages: ModelMessage[];
+  truncatedCount: number;
+  tokens: number;
+}
+
+/**
+ * Truncate oversized message bodies, largest first, until the prompt fits
+ * System messages (system prompt, summary) are left untouched
+ * May still exceed the budget if every message is already small
+ */
+export function truncateToBudget(
+  messages: ModelMessage[],
+  budget: number,
+  tokenizer: Tokenizer
+): TruncationResult {
+  const result = [...messages];
+  const counts = result.map(message => countMessageTokens(message, tokenizer));
+  let total = counts.reduce((sum, count) => sum + count, 0);
+  const truncated = new Set<number>();
+
+  while (total > budget) {
+    // Pick the largest message that can still shrink
+    let largest = -1;
+    for (let i = 0; i < result.length; i++) {
+      if (result[i].role === "system" || counts[i] <= MIN_MESSAGE_TOKENS) {
+        continue;
+      }
+      if (largest === -1 || counts[i] > counts[largest]) {
+        largest = i;
+      }
+    }
+
+    if (largest === -1) {
+      break;
+    }
+
+    const target = Math.max(MIN_MESSAGE_TOKENS, counts[largest] - (total - budget) - TRUNCATION_MARKER_TOKENS);
+    const shrunk = truncateMessage(result[largest], target / counts[largest]);
+    const newCount = countMessageTokens(shrunk, tokenizer);
+
+    // Guard against a message that won't shrink (e.g. only media parts)
+    if (newCount >= counts[largest]) {
+      counts[largest] = MIN_MESSAGE_TOKENS;
+      continue;
+    }
+
+    result[largest] = shrunk;
+    total -= counts[largest] - newCount;
+    counts[largest] = newCount;
+    truncated.add(largest);
+  }
+
+  return { messages: result, truncatedCount: truncated.size, tokens: total };
+}
+
+/**
+ * Keep roughly `ratio` of a message's text, in every text and tool-result part
+ */
+function truncateMessage(message: ModelMessage, ratio: number): ModelMessage {
+  if (typeof message.content === "string") {
+    return { ...message, content: truncateText(message.content, ratio) } as ModelMessage;
+  }
+
+  const content = message.content.map(part => {
+    if (part.type === "text") {
+      return { ...part, text: truncateText(part.text, ratio) };
+    }
+    if (part.type === "tool-result") {
+      const output = part.output;
+      const value = output.type === "text" || output.type === "error-text"
+        ? output.value
+        : output.type === "json" || output.type === "error-json"
+          ? JSON.stringify(output.value)
+          : null;
+
+      if (value === null) {
+        return part;
+      }
+      const type = output.type.startsWith("error") ? "error-text" : "text";
+      return { ...part, output: { type, value: truncateText(value, ratio) } };
+    }
+    return part;
+  });
+
+  return { ...message, content } as ModelMessage;
+}
+
+/**
+ * Keep the head and tail of a text, dropping the middle
+ */
+function truncateText(text: string, ratio: number): string {
+  const keep = Math.floor(text.length * ratio);
+  if (keep >= text.length) {
+    return text;
+  }
+
+  const head = Math.ceil(keep * 2 / 3);
+  const tail = keep - head;
+  const dropped = text.length - keep;
+
+  return `${text.slice(0, head)}\n...[${dropped} characters truncated to fit the context budget]...\n${tail > 0 ? text.slice(-tail) : ""}`;
+}
@@ -0,0 +1,225 @@
+import { readFileSync } from "fs";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import type {
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+  LanguageModelV3Content,
+  LanguageModelV3FinishReason,
+  LanguageModelV3GenerateResult,
+  LanguageModelV3StreamPart,
+  LanguageModelV3StreamResult,
+  LanguageModelV3Usage,
+} from "@ai-sdk/provider";
+import { getTokenizer, type Tokenizer } from "./tokenCounter.js";
+
+/**
+ * Scripted mock model
+ * Replays canned responses and tool calls from a fixture file, so the agent
+ * loop, tools and compaction can run offline and deterministically
+ */
+
+const toolCallSchema = z.object({
+  toolName: z.string(),
+  input: z.record(z.unknown()).default({}),
+});
+
+const stepSchema = z.object({
+  text: z.string().optional(),
+  toolCalls: z.array(toolCallSchema).default([]),
+  // Fail the call with this message instead, e.g. to simulate a rate limit
+  error: z.string().optional(),
+});
+
+const turnSchema = z.object({
+  // Case-insensitive regex tested against the latest user message; omit to match any
+  match: z.string().optional(),
+  // One entry per model call in the turn; later calls reuse the final text
+  steps: z.array(stepSchema).min(1),
+});
+
+const fixtureSchema = z.object({
+  turns: z.array(turnSchema).default([]),
+  // Returned for structured output calls (e.g. compaction summaries)
+  object: z.unknown().optional(),
+});
+
+export type MockFixture = z.infer<typeof fixtureSchema>;
+type MockStep = z.infer<typeof stepSchema>;
+
+export interface MockModelCall {
+  modelId: string;
+  prompt: LanguageModelV3CallOptions["prompt"];
+  // Structured output call (e.g. a compaction summary)
+  structured: boolean;
+}
+
+/**
+ * Every call made to a mock model in this process, oldest first, so tests
+ * can check what the model was sent
+ */
+export const mockModelCalls: MockModelCall[] = [];
+
+// Reply when no fixture turn matches
+const DEFAULT_STEP: MockStep = { text: "OK", toolCalls: [] };
+
+// Characters per simulated text-delta when streaming
+const STREAM_CHUNK_LENGTH = 16;
+
+/**
+ * Load and validate a fixture file
+ */
+export function loadMockFixture(path: string): MockFixture {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Failed to read mock fixture ${path}: ${error.message}`);
+  }
+
+  const parsed = fixtureSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid mock fixture ${path}: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+export class ScriptedMockModel implements LanguageModelV3 {
+  readonly specificationVersion = "v3";
+  readonly provider = "mock";
+  readonly modelId: string;
+  readonly supportedUrls = {};
+  private fixture: MockFixture;
+  private tokenizer: Tokenizer;
+  private toolCallCount = 0;
+  // Keeps tool-call ids unique across runs against the same database
+  private readonly idPrefix = randomUUID().slice(0, 8);
+
+  constructor(modelId: string, fixture: MockFixture) {
+    this.modelId = modelId;
+    this.fixture = fixture;
+    this.tokenizer = getTokenizer(modelId);
+  }
+
+  async doGenerate(options: LanguageModelV3CallOptions): Promise<LanguageModelV3GenerateResult> {
+    const content = this.reply(options);
+
+    return {
+      content,
+      finishReason: finishReasonFor(content),
+      usage: this.usage(options, content),
+      warnings: [],
+    };
+  }
+
+  async doStream(options: LanguageModelV3CallOptions): Promise<LanguageModelV3StreamResult> {
+    const content = this.reply(options);
+    const parts: LanguageModelV3StreamPart[] = [{ type: "stream-start", warnings: [] }];
+
+    for (const [index, part] of content.entries()) {
+      if (part.type === "text") {
+        const id = `text-${index}`;
+        parts.push({ type: "text-start", id });
+        for (let i = 0; i < part.text.length; i += STREAM_CHUNK_LENGTH) {
+          parts.push({ type: "text-delta", id, delta: part.text.slice(i, i + STREAM_CHUNK_LENGTH) });
+        }
+        parts.push({ type: "text-end", id });
+      } else if (part.type === "tool-call") {
+        parts.push(part);
+      }
+    }
+
+    parts.push({
+      type: "finish",
+      finishReason: finishReasonFor(content),
+      usage: this.usage(options, content),
+    });
+
+    return {
+      stream: new ReadableStream<LanguageModelV3StreamPart>({
+        start(controller) {
+          for (const part of parts) {
+            controller.enqueue(part);
+          }
+          controller.close();
+        },
+      }),
+    };
+  }
+
+  /**
+   * Build the scripted reply for a call
+   * Structured output calls get the fixture object; other calls replay the
+   * step of the matching turn, counted by assistant replies since the user spoke
+   */
+  private reply(options: LanguageModelV3CallOptions): LanguageModelV3Content[] {
+    mockModelCalls.push({ modelId: this.modelId, prompt: options.prompt, structured: options.responseFormat?.type === "json" });
+
+    if (options.responseFormat?.type === "json") {
+      return [{ type: "text", text: JSON.stringify(this.fixture.object ?? {}) }];
+    }
+
+    const step = this.selectStep(options.prompt);
+    if (step.error) {
+      throw new Error(step.error);
+    }
+    const content: LanguageModelV3Content[] = [];
+
+    if (step.text) {
+      content.push({ type: "text", text: step.text });
+    }
+    for (const call of step.toolCalls) {
+      content.push({
+        type: "tool-call",
+        toolCallId: `mock-${this.idPrefix}-${++this.toolCallCount}`,
+        toolName: call.toolName,
+        input: JSON.stringify(call.input),
+      });
+    }
+
+    return content;
+  }
+
+  private selectStep(prompt: LanguageModelV3CallOptions["prompt"]): MockStep {
+    const lastUserIndex = prompt.findLastIndex(message => message.role === "user");
+    const userMessage = prompt[lastUserIndex];
+    const userText = userMessage && userMessage.role === "user"
+      ? userMessage.content.map(part => (part.type === "text" ? part.text : "")).join("\n")
+      : "";
+
+    const turn = this.fixture.turns.find(t => !t.match || new RegExp(t.match, "i").test(userText));
+    if (!turn) {
+      return DEFAULT_STEP;
+    }
+
+    const stepIndex = prompt.slice(lastUserIndex + 1).filter(message => message.role === "assistant").length;
+    if (stepIndex < turn.steps.length) {
+      return turn.steps[stepIndex];
+    }
+
+    // Script exhausted: finish the turn instead of repeating tool calls forever
+    const finalText = turn.steps.findLast(step => step.text)?.text;
+    return { text: finalText ?? DEFAULT_STEP.text, toolCalls: [] };
+  }
+
+  /**
+   * Count usage with the local tokenizer, so budgets and compaction behave
+   * as they would against a real provider
+   */
+  private usage(options: LanguageModelV3CallOptions, content: LanguageModelV3Content[]): LanguageModelV3Usage {
+    const inputTokens = this.tokenizer.count(JSON.stringify(options.prompt));
+    const outputTokens = this.tokenizer.count(
+      content.map(part => (part.type === "text" ? part.text : part.type === "tool-call" ? part.input : "")).join("")
+    );
+
+    return {
+      inputTokens: { total: inputTokens, noCache: inputTokens, cacheRead: 0, cacheWrite: 0 },
+      outputTokens: { total: outputTokens, text: outputTokens, reasoning: 0 },
+    };
+  }
+}
+
+function finishReasonFor(content: LanguageModelV3Content[]): LanguageModelV3FinishReason {
+  const calledTools = content.some(part => part.type === "tool-call");
+  return { unified: calledTools ? "tool-calls" : "stop", raw: calledTools ? "tool_calls" : "stop" };
+}
@@ -0,0 +1,232 @@
+/**
+ * Unified diff parsing and application for the apply_patch tool
+ * Hunks are located by their context lines, starting at the line number in
+ * the hunk header and searching outward, so patches against slightly
+ * shifted files still apply. Nothing is written here; callers apply the
+ * result of every file before writing any of them
+ */
+
+export interface Hunk {
+  oldStart: number;
+  // Lines the hunk expects (context and removed) and the lines replacing them
+  oldLines: string[];
+  newLines: string[];
+  // "\ No newline at end of file" markers
+  oldNoNewline: boolean;
+  newNoNewline: boolean;
+}
+
+export interface FilePatch {
+  // null for /dev/null (file added or deleted)
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: Hunk[];
+}
+
+/**
+ * A patch that can't be parsed or doesn't match the file
+ */
+export class PatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PatchError";
+  }
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse a unified diff into per-file patches
+ * Accepts `diff --git` output and plain `---`/`+++` diffs; a/ and b/
+ * prefixes are stripped
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      current = {
+        oldPath: parseFilePath(line.slice(4)),
+        newPath: parseFilePath(lines[i + 1].slice(4)),
+        hunks: [],
+      };
+      patches.push(current);
+      i += 2;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      if (!current) {
+        throw new PatchError(`Hunk without a file header at line ${i + 1}`);
+      }
+      const [hunk, next] = parseHunk(lines, i + 1, {
+        oldStart: Number(header[1]),
+        oldCount: header[2] === undefined ? 1 : Number(header[2]),
+        newCount: header[4] === undefined ? 1 : Number(header[4]),
+      });
+      current.hunks.push(hunk);
+      i = next;
+      continue;
+    }
+
+    // diff --git, index, mode lines and free text between files
+    i++;
+  }
+
+  if (patches.length === 0) {
+    throw new PatchError("No file headers (---/+++) found in patch");
+  }
+  for (const patch of patches) {
+    if (!patch.oldPath && !patch.newPath) {
+      throw new PatchError("Patch header has /dev/null on both sides");
+    }
+    if (patch.hunks.length === 0 && patch.newPath) {
+      throw new PatchError(`No hunks for ${patch.newPath}`);
+    }
+  }
+
+  return patches;
+}
+
+/**
+ * Parse hunk body lines starting at `start`
+ * Reads until the header's line counts are satisfied, stopping early at a
+ * line that can't belong to a hunk (models often get the counts wrong)
+ */
+function parseHunk(
+  lines: string[],
+  start: number,
+  header: { oldStart: number; oldCount: number; newCount: number }
+): [Hunk, number] {
+  const hunk: Hunk = {
+    oldStart: header.oldStart,
+    oldLines: [],
+    newLines: [],
+    oldNoNewline: false,
+    newNoNewline: false,
+  };
+  let oldSeen = 0;
+  let newSeen = 0;
+  let lastType = "";
+  let i = start;
+
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith("\\")) {
+      // "\ No newline at end of file" applies to the preceding line
+      if (lastType !== "+") hunk.oldNoNewline = true;
+      if (lastType !== "-") hunk.newNoNewline = true;
+      continue;
+    }
+    if (oldSeen >= header.oldCount && newSeen >= header.newCount) {
+      break;
+    }
+
+    const type = line === "" ? " " : line[0];
+    const body = line.slice(1);
+
+    if (type === " ") {
+      hunk.oldLines.push(body);
+      hunk.newLines.push(body);
+      oldSeen++;
+      newSeen++;
+    } else if (type === "-" && !line.startsWith("--- ")) {
+      hunk.oldLines.push(body);
+      oldSeen++;
+    } else if (type === "+" && !line.startsWith("+++ ")) {
+      hunk.newLines.push(body);
+      newSeen++;
+    } else {
+      break;
+    }
+    lastType = type;
+  }
+
+  return [hunk, i];
+}
+
+/**
+ * Strip a/ b/ prefixes and trailing timestamps from a header path
+ */
+function parseFilePath(raw: string): string | null {
+  const path = raw.split("\t")[0].trim();
+  if (path === "/dev/null") {
+    return null;
+  }
+  return path.replace(/^[ab]\//, "");
+}
+
+/**
+ * Apply a file's hunks to its current content ("" for a new file)
+ */
+export function applyHunks(original: string, hunks: Hunk[], path: string): string {
+  const endsWithNewline = original === "" || original.endsWith("\n");
+  const lines = original === "" ? [] : original.replace(/\n$/, "").split("\n");
+  let result: string[] = [];
+  let position = 0;
+  let offset = 0;
+  let touchesEnd = false;
+  let newNoNewline = false;
+
+  for (const [index, hunk] of hunks.entries()) {
+    // A pure insertion's header names the line it goes after (0 for the top)
+    const base = hunk.oldStart - 1 + (hunk.oldLines.length === 0 ? 1 : 0);
+    const at = findHunk(lines, hunk.oldLines, Math.max(base + offset, position), position);
+
+    if (at === -1) {
+      throw new PatchError(
+        `Hunk ${index + 1} of ${path} does not match the file (expected near line ${hunk.oldStart}). ` +
+        `Re-read the file and regenerate the patch.`
+      );
+    }
+
+    result.push(...lines.slice(position, at), ...hunk.newLines);
+    position = at + hunk.oldLines.length;
+    offset = at - base;
+    touchesEnd = position === lines.length;
+    newNoNewline = hunk.newNoNewline;
+  }
+
+  result = result.concat(lines.slice(position));
+
+  const trailingNewline = touchesEnd ? !newNoNewline : endsWithNewline;
+  return result.length === 0 ? "" : result.join("\n") + (trailingNewline ? "\n" : "");
+}
+
+/**
+ * Find where a hunk's old lines occur, nearest to the expected line first
+ * Falls back to comparing with trailing whitespace ignored
+ */
+function findHunk(lines: string[], oldLines: string[], expected: number, minimum: number): number {
+  if (oldLines.length === 0) {
+    return Math.min(expected, lines.length);
+  }
+
+  for (const compare of [exactMatch, looseMatch]) {
+    const maxDistance = Math.max(expected - minimum, lines.length - expected);
+    for (let distance = 0; distance <= maxDistance; distance++) {
+      for (const at of distance === 0 ? [expected] : [expected - distance, expected + distance]) {
+        if (at >= minimum && at + oldLines.length <= lines.length && compare(lines, oldLines, at)) {
+          return at;
+        }
+      }
+    }
+  }
+
+  return -1;
+}
+
+function exactMatch(lines: string[], oldLines: string[], at: number): boolean {
+  return oldLines.every((line, i) => lines[at + i] === line);
+}
+
+function looseMatch(lines: string[], oldLines: string[], at: number): boolean {
+  return oldLines.every((line, i) => lines[at + i].trimEnd() === line.trimEnd());
+}
@@ -0,0 +1,62 @@
+import type { LanguageModel } from "ai";
+import { createGateway } from "@ai-sdk/gateway";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { config } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import { ScriptedMockModel, loadMockFixture, type MockFixture } from "./mockModel.js";
+
+/**
+ * Model provider layer
+ * The one place that turns a model id into a language model, for the
+ * provider selected by MODEL_PROVIDER
+ */
+
+// Providers are created on first use and shared by every model
+let gateway: ReturnType<typeof createGateway> | null = null;
+let openaiCompatible: ReturnType<typeof createOpenAICompatible> | null = null;
+let mockFixture: MockFixture | null = null;
+
+/**
+ * Replace the mock provider's script, e.g. with one built inline by a test
+ */
+export function setMockFixture(fixture: MockFixture): void {
+  mockFixture = fixture;
+}
+
+/**
+ * Get a language model for the configured provider
+ * Throws if the provider's connection settings are missing
+ */
+export function getModel(modelId: string = config.model): LanguageModel {
+  switch (config.provider.name) {
+    case "gateway":
+      if (!config.provider.gatewayApiKey) {
+        throw new Error("VERCEL_GATEWAY_KEY is required for the gateway provider");
+      }
+      gateway ??= createGateway({
+        apiKey: config.provider.gatewayApiKey,
+      });
+      return gateway(modelId);
+
+    case "openai-compatible":
+      if (!config.provider.openaiBaseUrl) {
+        throw new Error("OPENAI_BASE_URL is required for the openai-compatible provider");
+      }
+      openaiCompatible ??= createOpenAICompatible({
+        name: "openai-compatible",
+        baseURL: config.provider.openaiBaseUrl,
+        apiKey: config.provider.openaiApiKey,
+      });
+      return openaiCompatible(modelId);
+
+    case "mock":
+      if (!mockFixture) {
+        mockFixture = loadMockFixture(config.provider.mockFixturePath);
+        logger.info({
+          fixture: config.provider.mockFixturePath,
+          turns: mockFixture.turns.length,
+        }, "Using scripted mock model");
+      }
+      return new ScriptedMockModel(modelId, mockFixture);
+  }
+}
@@ -1,17 +1,38 @@
 import type { ModelMessage } from "ai";
+import type { Message, Compaction, UsageTotals, ApprovalRecord, Run, RunKind, RunStatus, JournaledToolCall } from "../db/schema.js";
 import {
   createSession as dbCreateSession,
   getSession as dbGetSession,
   appendMessage,
   getAllMessages,
-  setSummary,
-  deleteMessagesBeforeId,
   getTotalTokenCount,
+  setMessageTokenCount,
+  recordCompaction,
+  getCompactions,
+  rollbackCompaction as dbRollbackCompaction,
+  recordUsage,
+  getUsageTotals,
+  getApprovals,
+  createRun,
+  updateRun,
+  getRuns,
+  getLastTurnRun,
+  markInterruptedRuns,
+  setRunRecovery,
+  journalToolCall,
+  journalToolResult,
+  getJournaledToolCalls,
+  deleteMessagesFromId,
+  forkSession,
+  type RunDetails,
 } from "../db/client.js";
 import { compactConversation } from "./compactor.js";
+import { snapshotContainer } from "../docker/manager.js";
 import { config } from "../config/env.js";
 import { logger } from "../utils/logger.js";
-import { shouldCompact } from "./tokenCounter.js";
+import { shouldCompact, getTokenizer, countMessageTokens, countMessagesTokens } from "./tokenCounter.js";
+import { truncateToBudget } from "./contextBudget.js";
+import { parseSummary, renderSummaryMarkdown } from "./summary.js";
 
 /**
  * Session orchestrator - ties DB + compactor together
@@ -20,14 +41,145 @@ import { shouldCompact } from "./tokenCounter.js";
 
 export interface SessionState {
   id: string;
+  // Summary rendered as markdown
   summary?: string;
+  // Size of the prompt the next model call will send
   totalTokens: number;
 }
 
+/**
+ * What pre-flight budgeting did to fit a prompt into the context budget
+ */
+export interface ContextBudgetReport {
+  budget: number;
+  // Projected prompt size including the new message, before any action
+  tokensBefore: number;
+  tokensAfter: number;
+  compacted: boolean;
+  truncatedMessages: number;
+}
+
+/**
+ * A turn cut off by a crash before the agent replied
+ */
+export interface PendingTurn {
+  runId: number;
+  // The user message that started it
+  messageId: number;
+  userMessage: string;
+  // Tool calls it made, finished or not, in the order they started
+  toolCalls: JournaledToolCall[];
+}
+
+/**
+ * A prompt ready to send, for a new or a resumed turn
+ */
+export interface PreparedPrompt {
+  messages: ModelMessage[];
+  report: ContextBudgetReport;
+  // The user message the turn answers
+  userMessageId: number;
+}
+
+/**
+ * A point a session can be forked at: the end of a completed exchange
+ */
+export interface ForkPoint {
+  // The exchange's last message, the last one the fork copies
+  messageId: number;
+  userMessage: string;
+  reply: string;
+  createdAt: number;
+}
+
+// Result given to the model for a tool call the crash cut off
+const INTERRUPTED_TOOL_CALL_ERROR = "The agent exited while this tool call was running, so it may have partly completed. Check its effects before running it again.";
+
+// Result given to the model for a tool call still running when its turn was stopped
+const STOPPED_TOOL_CALL_ERROR = "The turn was stopped while this tool call was running, so it may have partly completed. Check its effects before running it again.";
+
+const tokenizer = getTokenizer(config.model);
+
+/**
+ * Rebuild a model message from a stored row
+ * Multi-part content (tool calls, tool results) is restored from content_json
+ */
+function toModelMessage(msg: Message): ModelMessage {
+  const content = msg.content_json ? JSON.parse(msg.content_json) : msg.content;
+  return { role: msg.role, content } as ModelMessage;
+}
+
+/**
+ * Rebuild the tool calls of an interrupted turn as messages: per step, an
+ * assistant message with the calls and a tool message with their journaled
+ * results. Calls that never finished get unfinishedError instead of re-running
+ */
+function replayToolCalls(calls: JournaledToolCall[], unfinishedError: string = INTERRUPTED_TOOL_CALL_ERROR): ModelMessage[] {
+  const steps = new Map<number, JournaledToolCall[]>();
+  for (const call of calls) {
+    steps.set(call.step_no, [...(steps.get(call.step_no) ?? []), call]);
+  }
+
+  const messages: ModelMessage[] = [];
+  for (const stepCalls of steps.values()) {
+    messages.push({
+      role: "assistant",
+      content: stepCalls.map(call => ({
+        type: "tool-call" as const,
+        toolCallId: call.tool_call_id,
+        toolName: call.tool_name,
+        input: JSON.parse(call.input_json),
+      })),
+    });
+    messages.push({
+      role: "tool",
+      content: stepCalls.map(call => ({
+        type: "tool-result" as const,
+        toolCallId: call.tool_call_id,
+        toolName: call.tool_name,
+        output: call.output_json === null
+          ? { type: "error-text" as const, value: unfinishedError }
+          : call.is_error
+            ? { type: "error-text" as const, value: String(JSON.parse(call.output_json)) }
+            : { type: "json" as const, value: JSON.parse(call.output_json) },
+      })),
+    });
+  }
+
+  return messages;
+}
+
+/**
+ * Render message content as plain text for the messages.content column
+ */
+function renderContentText(content: ModelMessage["content"]): string {
+  if (typeof content === "string") {
+    return content;
+  }
+
+  return content
+    .map(part => {
+      switch (part.type) {
+        case "text":
+        case "reasoning":
+          return part.text;
+        case "tool-call":
+          return `[Tool Call: ${part.toolName}(${JSON.stringify(part.input)})]`;
+        case "tool-result":
+          return `[Tool Result from ${part.toolName}]`;
+        default:
+          return `[${part.type}]`;
+      }
+    })
+    .join("\n");
+}
+
 export class Session {
   private sessionId: string;
   private summary: string | null = null;
   private totalTokens: number = 0;
+  private systemPromptTokens: number = 0;
+  private pendingTurn: PendingTurn | null = null;
 
   constructor(sessionId: string) {
     this.sessionId = sessionId;
@@ -35,19 +187,31 @@ export class Session {
 
   /**
    * Load an existing session or create a new one
+   * systemPrompt is counted into the token estimate from the start, so it is
+   * right before the first turn builds a prompt
    */
-  static async loadOrCreate(sessionId?: string): Promise<Session> {
+  static async loadOrCreate(sessionId?: string, systemPrompt?: string): Promise<Session> {
+    const systemPromptTokens = systemPrompt
+      ? countMessageTokens({ role: "system", content: systemPrompt }, tokenizer)
+      : 0;
+
     if (sessionId) {
       const existing = dbGetSession(sessionId);
       if (existing) {
         const session = new Session(sessionId);
+        session.systemPromptTokens = systemPromptTokens;
         session.summary = existing.summary_text;
-        session.totalTokens = getTotalTokenCount(sessionId);
+        session.backfillTokenCounts();
+        session.totalTokens = session.estimatePromptTokens();
+        // Runs still "running" belong to a process that exited mid-turn
+        markInterruptedRuns(sessionId);
+        session.pendingTurn = session.findPendingTurn();
         
         logger.info({
           sessionId,
           totalTokens: session.totalTokens,
           hasSummary: !!session.summary,
+          pendingTurn: session.pendingTurn?.runId,
         }, "Loaded existing session");
         
         return session;
@@ -57,6 +221,8 @@ export class Session {
     // Create new session
     const newSession = dbCreateSession({ createdAt: new Date().toISOString() });
     const session = new Session(newSession.id);
+    session.systemPromptTokens = systemPromptTokens;
+    session.totalTokens = systemPromptTokens;
     
     logger.info({ sessionId: session.sessionId }, "Created new session");
     
@@ -76,7 +242,7 @@ export class Session {
   getState(): SessionState {
     return {
       id: this.sessionId,
-      summary: this.summary ?? undefined,
+      summary: this.summary ? renderSummaryMarkdown(parseSummary(this.summary)) : undefined,
       totalTokens: this.totalTokens,
     };
   }
@@ -94,23 +260,19 @@ export class Session {
         role: "system",
         content: systemPrompt,
       });
+      this.systemPromptTokens = countMessageTokens(messages[0], tokenizer);
     }
 
     // Add summary as a system message if it exists
-    if (this.summary) {
-      messages.push({
-        role: "system",
-        content: `# Previous Conversation Summary\n\n${this.summary}`,
-      });
+    const summaryMessage = this.getSummaryMessage();
+    if (summaryMessage) {
+      messages.push(summaryMessage);
     }
 
-    // Add all recent messages from DB
+    // Add all recent messages from DB, including tool calls and results
     const dbMessages = getAllMessages(this.sessionId);
     for (const msg of dbMessages) {
-      messages.push({
-        role: msg.role as "user" | "assistant" | "system",
-        content: msg.content,
-      });
+      messages.push(toModelMessage(msg));
     }
 
     logger.debug({
@@ -122,44 +284,189 @@ export class Session {
     return messages;
   }
 
+  /**
+   * Add a user message and build the prompt for it within the context budget
+   * If the new message would overflow the budget, compacts first; as a last
+   * resort, truncates oversized message bodies in the prompt (not in the DB)
+   */
+  async preparePrompt(systemPrompt: string, userMessage: string): Promise<PreparedPrompt> {
+    const budget = config.contextBudgetTokens;
+    const newMessage: ModelMessage = { role: "user", content: userMessage };
+    const tokensBefore = countMessagesTokens(
+      [...this.buildPromptContext(systemPrompt), newMessage],
+      tokenizer
+    );
+
+    let compacted = false;
+    if (tokensBefore > budget) {
+      logger.warn({ sessionId: this.sessionId, tokensBefore, budget }, "Prompt would exceed context budget, compacting first");
+      compacted = await this.checkAndCompact(true);
+    }
+
+    const stored = this.appendModelMessage(newMessage);
+    return { ...this.fitPromptToBudget(systemPrompt, tokensBefore, compacted), userMessageId: stored.id };
+  }
+
+  /**
+   * Resume the interrupted turn: its finished tool calls are replayed into
+   * the conversation from the journal instead of being run again, and the
+   * prompt continues from there
+   */
+  resumePendingTurn(systemPrompt: string): PreparedPrompt {
+    const pending = this.pendingTurn;
+    if (!pending) {
+      throw new Error("There is no interrupted turn to resume");
+    }
+
+    this.addResponseMessages(replayToolCalls(pending.toolCalls));
+    setRunRecovery(pending.runId, "resumed");
+    this.pendingTurn = null;
+
+    logger.info({
+      sessionId: this.sessionId,
+      runId: pending.runId,
+      replayedToolCalls: pending.toolCalls.length,
+    }, "Resuming interrupted turn");
+
+    const tokensBefore = countMessagesTokens(this.buildPromptContext(systemPrompt), tokenizer);
+    return { ...this.fitPromptToBudget(systemPrompt, tokensBefore, false), userMessageId: pending.messageId };
+  }
+
+  /**
+   * Build the prompt from the stored conversation, truncating oversized
+   * message bodies (in the prompt only) if it still exceeds the budget
+   */
+  private fitPromptToBudget(
+    systemPrompt: string,
+    tokensBefore: number,
+    compacted: boolean
+  ): { messages: ModelMessage[]; report: ContextBudgetReport } {
+    const budget = config.contextBudgetTokens;
+    let messages = this.buildPromptContext(systemPrompt);
+    let tokensAfter = countMessagesTokens(messages, tokenizer);
+    let truncatedMessages = 0;
+
+    if (tokensAfter > budget) {
+      const truncation = truncateToBudget(messages, budget, tokenizer);
+      messages = truncation.messages;
+      tokensAfter = truncation.tokens;
+      truncatedMessages = truncation.truncatedCount;
+
+      logger.warn({
+        sessionId: this.sessionId,
+        truncatedMessages,
+        tokensAfter,
+        budget,
+      }, "Truncated oversized messages to fit context budget");
+    }
+
+    return {
+      messages,
+      report: { budget, tokensBefore, tokensAfter, compacted, truncatedMessages },
+    };
+  }
+
+  /**
+   * Re-check the prompt of a step within a turn, which also carries the tool
+   * calls and results of the steps before it
+   * Oversized bodies are truncated (in the prompt only) if it exceeds the
+   * budget; returns null when it fits as it is
+   */
+  fitStepPrompt(messages: ModelMessage[]): { messages: ModelMessage[]; report: ContextBudgetReport } | null {
+    const budget = config.contextBudgetTokens;
+    const tokensBefore = countMessagesTokens(messages, tokenizer);
+    if (tokensBefore <= budget) {
+      return null;
+    }
+
+    const truncation = truncateToBudget(messages, budget, tokenizer);
+    logger.warn({
+      sessionId: this.sessionId,
+      tokensBefore,
+      tokensAfter: truncation.tokens,
+      truncatedMessages: truncation.truncatedCount,
+      budget,
+    }, "Step prompt exceeds context budget, truncated oversized messages");
+
+    return {
+      messages: truncation.messages,
+      report: {
+        budget,
+        tokensBefore,
+        tokensAfter: truncation.tokens,
+        compacted: false,
+        truncatedMessages: truncation.truncatedCount,
+      },
+    };
+  }
+
   /**
    * Add a user message to the session
    */
   addUserMessage(content: string, tokenCount?: number): void {
-    appendMessage(this.sessionId, "user", content, tokenCount);
-    if (tokenCount) {
-      this.totalTokens += tokenCount;
-    }
-    logger.debug({ sessionId: this.sessionId, tokenCount }, "Added user message");
+    this.appendModelMessage({ role: "user", content }, tokenCount);
   }
 
   /**
    * Add an assistant message to the session
    */
   addAssistantMessage(content: string, tokenCount?: number): void {
-    appendMessage(this.sessionId, "assistant", content, tokenCount);
-    if (tokenCount) {
-      this.totalTokens += tokenCount;
+    this.appendModelMessage({ role: "assistant", content }, tokenCount);
+  }
+
+  /**
+   * Add the messages generated by a model call (assistant text, tool calls
+   * and tool results) to the session, preserving their content parts
+   */
+  addResponseMessages(responseMessages: ModelMessage[]): void {
+    for (const message of responseMessages) {
+      this.appendModelMessage(message);
     }
-    logger.debug({ sessionId: this.sessionId, tokenCount }, "Added assistant message");
+  }
+
+  /**
+   * Add the journaled tool calls of a turn's steps past the finished ones to
+   * the session, for a turn stopped before those steps finished: their tools
+   * may already have changed the workspace, so the history must show them
+   * Returns how many calls were added
+   */
+  addUnfinishedToolCalls(runId: number, finishedSteps: number): number {
+    const calls = getJournaledToolCalls(runId).filter(call => call.step_no > finishedSteps);
+    this.addResponseMessages(replayToolCalls(calls, STOPPED_TOOL_CALL_ERROR));
+    return calls.length;
   }
 
   /**
    * Add a system message to the session
    */
   addSystemMessage(content: string, tokenCount?: number): void {
-    appendMessage(this.sessionId, "system", content, tokenCount);
-    if (tokenCount) {
-      this.totalTokens += tokenCount;
-    }
-    logger.debug({ sessionId: this.sessionId, tokenCount }, "Added system message");
+    this.appendModelMessage({ role: "system", content }, tokenCount);
+  }
+
+  /**
+   * Store a message with its token count (counted locally unless given)
+   */
+  private appendModelMessage(message: ModelMessage, tokenCount?: number): Message {
+    const count = tokenCount ?? countMessageTokens(message, tokenizer);
+    const contentJson = typeof message.content === "string"
+      ? null
+      : JSON.stringify(message.content);
+
+    const stored = appendMessage(this.sessionId, message.role, renderContentText(message.content), count, contentJson);
+    this.totalTokens += count;
+
+    logger.debug({ sessionId: this.sessionId, role: message.role, tokenCount: count }, "Added message");
+    return stored;
   }
 
   /**
-   * Update token count after a generation
+   * Record the prompt size reported for the latest model call
+   * The last step's input plus its output is exactly what the next call
+   * resends; falls back to the local count if the provider reports nothing
    */
   updateTokenCount(inputTokens: number, outputTokens: number): void {
-    this.totalTokens += inputTokens + outputTokens;
+    const reported = inputTokens + outputTokens;
+    this.totalTokens = reported > 0 ? reported : this.estimatePromptTokens();
     logger.debug({
       sessionId: this.sessionId,
       inputTokens,
@@ -168,12 +475,46 @@ export class Session {
     }, "Updated token count");
   }
 
+  /**
+   * Estimate the prompt size from stored token counts
+   */
+  private estimatePromptTokens(): number {
+    const summaryMessage = this.getSummaryMessage();
+    const summaryTokens = summaryMessage ? countMessageTokens(summaryMessage, tokenizer) : 0;
+    return this.systemPromptTokens + summaryTokens + getTotalTokenCount(this.sessionId);
+  }
+
+  /**
+   * Count tokens for messages stored without a token count
+   */
+  private backfillTokenCounts(): void {
+    for (const msg of getAllMessages(this.sessionId)) {
+      if (msg.token_count === null) {
+        setMessageTokenCount(msg.id, countMessageTokens(toModelMessage(msg), tokenizer));
+      }
+    }
+  }
+
+  /**
+   * The summary as it is sent to the model, if there is one
+   */
+  private getSummaryMessage(): ModelMessage | null {
+    if (!this.summary) {
+      return null;
+    }
+    return {
+      role: "system",
+      content: `# Previous Conversation Summary\n\n${renderSummaryMarkdown(parseSummary(this.summary))}`,
+    };
+  }
+
   /**
    * Check if compaction is needed and perform it
+   * force skips the threshold check (used by pre-flight budgeting)
    * Returns true if compaction was performed
    */
-  async checkAndCompact(): Promise<boolean> {
-    if (!shouldCompact(this.totalTokens, config.compactAtTokens)) {
+  async checkAndCompact(force: boolean = false): Promise<boolean> {
+    if (!force && !shouldCompact(this.totalTokens, config.compactAtTokens)) {
       return false;
     }
 
@@ -183,12 +524,12 @@ export class Session {
       threshold: config.compactAtTokens,
     }, "Starting compaction");
 
+    // Checkpoint the container along with the conversation
+    await snapshotContainer(this.sessionId, "compaction");
+
     // Get all messages for compaction
     const dbMessages = getAllMessages(this.sessionId);
-    const messages: ModelMessage[] = dbMessages.map(msg => ({
-      role: msg.role as "user" | "assistant" | "system",
-      content: msg.content,
-    }));
+    const messages: ModelMessage[] = dbMessages.map(toModelMessage);
 
     // Compact the conversation
     const result = await compactConversation({
@@ -196,33 +537,32 @@ export class Session {
       messages,
     });
 
-    // Update summary in DB
-    setSummary(this.sessionId, result.newSummary);
-    this.summary = result.newSummary;
-
-    // Delete old messages (keep recent ones)
-    if (result.keepMessagesFromIndex > 0 && result.keepMessagesFromIndex < dbMessages.length) {
-      const firstMessageToKeep = dbMessages[result.keepMessagesFromIndex];
-      deleteMessagesBeforeId(this.sessionId, firstMessageToKeep.id);
-    } else if (result.keepMessagesFromIndex >= dbMessages.length) {
-      // All messages were compacted, delete all messages
-      logger.info({ sessionId: this.sessionId }, "All messages compacted, clearing message history");
-      // Delete all messages by using the last message ID + 1 (or delete all)
-      if (dbMessages.length > 0) {
-        const lastMessage = dbMessages[dbMessages.length - 1];
-        deleteMessagesBeforeId(this.sessionId, lastMessage.id + 1);
-      }
+    if (result.compactedMessageCount === 0) {
+      return false;
     }
 
+    // Archive the compacted messages and store the new summary
+    // Messages before the first kept one are compacted (all of them if none are kept)
+    const beforeMessageId = result.keepMessagesFromIndex < dbMessages.length
+      ? dbMessages[result.keepMessagesFromIndex].id
+      : dbMessages[dbMessages.length - 1].id + 1;
+
+    const compaction = recordCompaction(this.sessionId, {
+      inputSummary: this.summary,
+      outputSummary: result.newSummary,
+      beforeMessageId,
+      usage: result.usage,
+    });
+    this.summary = result.newSummary;
+    recordUsage(this.sessionId, "compaction", config.compaction.model, result.usage, result.calls);
+
     // Recalculate token count
-    // After compaction, we have: summary tokens + recent message tokens
-    // For simplicity, estimate summary tokens
-    const summaryTokens = Math.ceil(result.newSummary.length / 4);
-    const recentMessagesTokens = getTotalTokenCount(this.sessionId);
-    this.totalTokens = summaryTokens + recentMessagesTokens;
+    // After compaction, we have: system prompt + summary + recent message tokens
+    this.totalTokens = this.estimatePromptTokens();
 
     logger.info({
       sessionId: this.sessionId,
+      compactionId: compaction.id,
       compactedMessages: result.compactedMessageCount,
       newTokenCount: this.totalTokens,
       summaryLength: result.newSummary.length,
@@ -231,14 +571,195 @@ export class Session {
     return true;
   }
 
+  /**
+   * Record the token usage of a conversation turn, summed over its steps
+   * Compaction usage is recorded separately by checkAndCompact
+   */
+  recordConversationUsage(usage: { inputTokens: number; outputTokens: number; totalTokens: number }, calls: number): void {
+    recordUsage(this.sessionId, "conversation", config.model, usage, calls);
+  }
+
+  /**
+   * Get this session's usage totals per kind (conversation, compaction) and model
+   */
+  getUsage(): UsageTotals[] {
+    return getUsageTotals(this.sessionId);
+  }
+
+  /**
+   * Get this session's compaction history, newest first
+   */
+  getCompactions(): Compaction[] {
+    return getCompactions(this.sessionId);
+  }
+
+  /**
+   * Start recording a turn (stepNo 0) or one of its model steps
+   */
+  startRun(kind: RunKind, stepNo: number, parentId?: number): Run {
+    return createRun(this.sessionId, stepNo, { kind, parentId, model: config.model });
+  }
+
+  /**
+   * Record how a turn or step ended
+   */
+  finishRun(runId: number, status: Exclude<RunStatus, "running">, details: RunDetails = {}): void {
+    updateRun(runId, status, details);
+  }
+
+  /**
+   * Link a turn to the user message it answers, so it can be resumed or
+   * discarded if the process dies mid-turn
+   */
+  setRunMessage(runId: number, messageId: number): void {
+    updateRun(runId, "running", { messageId });
+  }
+
+  /**
+   * Journal a tool call of a turn as it starts, and its result when it ends
+   */
+  journalToolCall(runId: number, stepNo: number, toolCallId: string, toolName: string, input: unknown): void {
+    journalToolCall({
+      run_id: runId,
+      session_id: this.sessionId,
+      step_no: stepNo,
+      tool_call_id: toolCallId,
+      tool_name: toolName,
+      input_json: JSON.stringify(input ?? {}),
+    });
+  }
+
+  journalToolResult(runId: number, toolCallId: string, output: unknown, isError: boolean): void {
+    journalToolResult(runId, toolCallId, JSON.stringify(output ?? null), isError);
+  }
+
+  /**
+   * The turn a crash cut off before the agent replied, if there is one
+   */
+  getPendingTurn(): PendingTurn | null {
+    return this.pendingTurn;
+  }
+
+  /**
+   * Drop the interrupted turn: its user message and everything after it
+   */
+  discardPendingTurn(): number {
+    const pending = this.pendingTurn;
+    if (!pending) {
+      return 0;
+    }
+
+    const deleted = deleteMessagesFromId(this.sessionId, pending.messageId);
+    setRunRecovery(pending.runId, "discarded");
+    this.pendingTurn = null;
+    this.totalTokens = this.estimatePromptTokens();
+
+    logger.info({ sessionId: this.sessionId, runId: pending.runId, deleted }, "Discarded interrupted turn");
+    return deleted;
+  }
+
+  /**
+   * The latest turn is pending if the process died during it (and it wasn't
+   * dealt with since) and the conversation still ends without a reply to it
+   */
+  private findPendingTurn(): PendingTurn | null {
+    const turn = getLastTurnRun(this.sessionId);
+    if (!turn || turn.status !== "interrupted" || turn.recovery || turn.message_id === null) {
+      return null;
+    }
+
+    const messages = getAllMessages(this.sessionId);
+    const userMessage = messages.find(msg => msg.id === turn.message_id);
+    if (!userMessage || messages.at(-1)?.role === "assistant") {
+      return null;
+    }
+
+    return {
+      runId: turn.id,
+      messageId: userMessage.id,
+      userMessage: userMessage.content,
+      toolCalls: getJournaledToolCalls(turn.id),
+    };
+  }
+
+  /**
+   * Places this session can be forked at, oldest first: after each exchange
+   * the assistant finished replying to
+   */
+  getForkPoints(): ForkPoint[] {
+    const points: ForkPoint[] = [];
+    let userMessage: Message | null = null;
+    let last: Message | null = null;
+
+    const close = () => {
+      if (userMessage && last && last.role === "assistant") {
+        points.push({ messageId: last.id, userMessage: userMessage.content, reply: last.content, createdAt: last.created_at });
+      }
+    };
+
+    for (const msg of getAllMessages(this.sessionId)) {
+      if (msg.role === "user") {
+        close();
+        userMessage = msg;
+      }
+      last = msg;
+    }
+    close();
+
+    return points;
+  }
+
+  /**
+   * Branch off a new session that shares this one's summary and messages up
+   * to atMessageId; this session is left as it is
+   */
+  async fork(atMessageId: number): Promise<Session> {
+    const forked = forkSession(this.sessionId, atMessageId);
+    const session = await Session.loadOrCreate(forked.id);
+    session.systemPromptTokens = this.systemPromptTokens;
+    session.totalTokens = session.estimatePromptTokens();
+    return session;
+  }
+
+  /**
+   * Get this session's most recent turns, each followed by its steps
+   */
+  getRuns(turnLimit?: number): Run[] {
+    return getRuns(this.sessionId, turnLimit);
+  }
+
+  /**
+   * Get this session's latest turn, e.g. to report one that failed
+   */
+  getLastTurn(): Run | null {
+    return getLastTurnRun(this.sessionId);
+  }
+
+  /**
+   * Get this session's recent approval decisions on tool calls, newest first
+   */
+  getApprovals(limit?: number): ApprovalRecord[] {
+    return getApprovals(this.sessionId, limit);
+  }
+
+  /**
+   * Restore the state before a compaction: its summary input and archived
+   * messages come back, and it and every later compaction are undone
+   */
+  rollbackCompaction(compactionId: number): number {
+    const undone = dbRollbackCompaction(this.sessionId, compactionId);
+
+    this.summary = dbGetSession(this.sessionId)?.summary_text ?? null;
+    this.totalTokens = this.estimatePromptTokens();
+
+    return undone;
+  }
+
   /**
    * Get all messages in the session
    */
   getAllMessages(): ModelMessage[] {
     const dbMessages = getAllMessages(this.sessionId);
-    return dbMessages.map(msg => ({
-      role: msg.role as "user" | "assistant" | "system",
-      content: msg.content,
-    }));
+    return dbMessages.map(toModelMessage);
   }
 }
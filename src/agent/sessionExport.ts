@@ -0,0 +1,319 @@
+import { readFileSync, writeFileSync } from "fs";
+import { z } from "zod";
+import type { ModelMessage } from "ai";
+import { exportSession, importSession } from "../db/client.js";
+import type { Session, Message, SessionDump } from "../db/schema.js";
+import { logger } from "../utils/logger.js";
+import { parseSummary, renderSummaryMarkdown } from "./summary.js";
+
+/**
+ * Session export and import
+ * JSON exports are a versioned, lossless dump of a session that import
+ * recreates under new ids; Markdown exports are a transcript for reading
+ */
+
+export type ExportFormat = "json" | "md";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["json", "md"];
+
+const EXPORT_KIND = "runable-session";
+
+// Bump when the dump changes shape; import rejects versions it doesn't know
+// (version 1 had no journaled tool calls or tool outputs)
+const EXPORT_VERSION = 2;
+
+// Longest tool input or output shown in a Markdown transcript
+const MARKDOWN_BLOCK_CHARS = 4000;
+
+const sessionSchema = z.object({
+  id: z.string(),
+  created_at: z.number().int(),
+  updated_at: z.number().int(),
+  summary_text: z.string().nullable(),
+  last_compacted_at: z.number().int().nullable(),
+  metadata_json: z.string().nullable(),
+  parent_session_id: z.string().nullable(),
+  forked_from_message_id: z.number().int().nullable(),
+});
+
+const messageSchema = z.object({
+  id: z.number().int(),
+  session_id: z.string(),
+  role: z.enum(["user", "assistant", "system", "tool"]),
+  content: z.string(),
+  content_json: z.string().nullable(),
+  created_at: z.number().int(),
+  token_count: z.number().int().nullable(),
+});
+
+const compactionSchema = z.object({
+  id: z.number().int(),
+  session_id: z.string(),
+  input_summary: z.string().nullable(),
+  output_summary: z.string(),
+  // Checked to hold messages below, so import can remap their ids
+  archived_messages_json: z.string(),
+  input_tokens: z.number().int(),
+  output_tokens: z.number().int(),
+  total_tokens: z.number().int(),
+  created_at: z.number().int(),
+  rolled_back_at: z.number().int().nullable(),
+});
+
+const runSchema = z.object({
+  id: z.number().int(),
+  session_id: z.string(),
+  kind: z.enum(["turn", "step"]),
+  parent_id: z.number().int().nullable(),
+  step_no: z.number().int(),
+  status: z.enum(["running", "completed", "failed", "aborted", "interrupted"]),
+  error: z.string().nullable(),
+  model: z.string().nullable(),
+  input_tokens: z.number().int(),
+  output_tokens: z.number().int(),
+  total_tokens: z.number().int(),
+  finish_reason: z.string().nullable(),
+  tool_calls_json: z.string().nullable(),
+  duration_ms: z.number().int().nullable(),
+  created_at: z.number().int(),
+  finished_at: z.number().int().nullable(),
+  message_id: z.number().int().nullable(),
+  recovery: z.enum(["resumed", "discarded"]).nullable(),
+});
+
+const journaledToolCallSchema = z.object({
+  id: z.number().int(),
+  run_id: z.number().int(),
+  session_id: z.string(),
+  step_no: z.number().int(),
+  tool_call_id: z.string(),
+  tool_name: z.string(),
+  input_json: z.string(),
+  output_json: z.string().nullable(),
+  is_error: z.union([z.literal(0), z.literal(1)]),
+  created_at: z.number().int(),
+  finished_at: z.number().int().nullable(),
+});
+
+const toolOutputSchema = z.object({
+  tool_call_id: z.string(),
+  field: z.string(),
+  session_id: z.string(),
+  tool_name: z.string(),
+  content: z.string(),
+  bytes: z.number().int(),
+  created_at: z.number().int(),
+});
+
+const exportSchema = z.object({
+  kind: z.literal(EXPORT_KIND),
+  version: z.union([z.literal(1), z.literal(EXPORT_VERSION)]),
+  exportedAt: z.string(),
+  session: sessionSchema,
+  messages: z.array(messageSchema),
+  compactions: z.array(compactionSchema),
+  runs: z.array(runSchema),
+  toolCallJournal: z.array(journaledToolCallSchema).default([]),
+  toolOutputs: z.array(toolOutputSchema).default([]),
+});
+
+export type SessionExport = z.infer<typeof exportSchema>;
+
+/**
+ * Write a session to a file in the given format
+ * Returns the path written (session-<id prefix>.<format> unless given)
+ */
+export function exportSessionFile(sessionId: string, format: ExportFormat, outputPath?: string): string {
+  const dump = exportSession(sessionId);
+  if (!dump) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+
+  const path = outputPath ?? `session-${sessionId.substring(0, 8)}.${format}`;
+  const content = format === "json"
+    ? JSON.stringify({ kind: EXPORT_KIND, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), ...dump } satisfies SessionExport, null, 2)
+    : renderTranscript(dump);
+
+  writeFileSync(path, content, "utf-8");
+  logger.info({ sessionId, format, path, messages: dump.messages.length }, "Exported session");
+
+  return path;
+}
+
+/**
+ * Read and validate a JSON session export
+ */
+export function loadSessionExport(path: string): SessionExport {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Failed to read session export ${path}: ${error.message}`);
+  }
+
+  const parsed = exportSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid session export ${path}: ${parsed.error.message}`);
+  }
+
+  for (const compaction of parsed.data.compactions) {
+    let archived: unknown;
+    try {
+      archived = JSON.parse(compaction.archived_messages_json);
+    } catch (error: any) {
+      throw new Error(`Invalid session export ${path}: compaction ${compaction.id} archived messages: ${error.message}`);
+    }
+    const messages = z.array(messageSchema).safeParse(archived);
+    if (!messages.success) {
+      throw new Error(`Invalid session export ${path}: compaction ${compaction.id} archived messages: ${messages.error.message}`);
+    }
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Import a JSON session export as a new session
+ */
+export function importSessionFile(path: string): Session {
+  const data = loadSessionExport(path);
+  return importSession(data);
+}
+
+/**
+ * Render a session as a Markdown transcript
+ * Tool calls are collapsible blocks holding their input and result
+ */
+export function renderTranscript(dump: SessionDump): string {
+  const { session, messages, compactions } = dump;
+  const date = (seconds: number) => new Date(seconds * 1000).toISOString();
+  const compacted = compactions
+    .filter(compaction => !compaction.rolled_back_at)
+    .reduce((count, compaction) => count + (JSON.parse(compaction.archived_messages_json) as Message[]).length, 0);
+
+  const lines = [
+    `# Session ${session.id}`,
+    "",
+    `- **Created:** ${date(session.created_at)}`,
+    `- **Updated:** ${date(session.updated_at)}`,
+    `- **Messages:** ${messages.length}${compacted > 0 ? ` (${compacted} earlier message(s) compacted into the summary)` : ""}`,
+  ];
+  if (session.parent_session_id) {
+    lines.push(`- **Forked from:** ${session.parent_session_id} at message #${session.forked_from_message_id}`);
+  }
+
+  if (session.summary_text) {
+    lines.push("", "## Summary", "", renderSummaryMarkdown(parseSummary(session.summary_text)).replace(/^# /gm, "### "));
+  }
+
+  lines.push("", "## Transcript");
+
+  // Results are shown inside the block of the call they answer
+  const results = new Map<string, unknown>();
+  for (const msg of messages) {
+    for (const part of contentParts(msg)) {
+      if (part.type === "tool-result") {
+        results.set(part.toolCallId, part.output);
+      }
+    }
+  }
+  const calls = new Set(messages.flatMap(msg => contentParts(msg).filter(part => part.type === "tool-call").map(part => part.toolCallId)));
+
+  for (const msg of messages) {
+    const blocks: string[] = [];
+
+    for (const part of contentParts(msg)) {
+      switch (part.type) {
+        case "text":
+          if (part.text.trim()) {
+            blocks.push(part.text.trim());
+          }
+          break;
+        case "reasoning":
+          blocks.push(details("💭 Reasoning", part.text.trim()));
+          break;
+        case "tool-call": {
+          const result = results.get(part.toolCallId);
+          blocks.push(details(
+            `🔧 ${part.toolName}${describeInput(part.input)}`,
+            `**Input**\n\n${fence(JSON.stringify(part.input, null, 2), "json")}\n\n` +
+            `**Result**\n\n${result === undefined ? "_No result_" : renderOutput(result)}`
+          ));
+          break;
+        }
+        case "tool-result":
+          // Only results whose call isn't in the transcript (e.g. compacted away)
+          if (!calls.has(part.toolCallId)) {
+            blocks.push(details(`🔧 ${part.toolName} result`, renderOutput(part.output)));
+          }
+          break;
+        default:
+          blocks.push(`_[${part.type}]_`);
+      }
+    }
+
+    if (blocks.length === 0) {
+      continue;
+    }
+
+    lines.push("", `### ${ROLE_HEADINGS[msg.role]}`, "", blocks.join("\n\n"));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+const ROLE_HEADINGS: Record<Message["role"], string> = {
+  user: "👤 User",
+  assistant: "🤖 Assistant",
+  system: "⚙️ System",
+  tool: "🔧 Tool",
+};
+
+type ContentPart = Exclude<ModelMessage["content"], string>[number];
+
+function contentParts(msg: Message): ContentPart[] {
+  const content = msg.content_json ? JSON.parse(msg.content_json) : msg.content;
+  return typeof content === "string" ? [{ type: "text", text: content }] : content;
+}
+
+/**
+ * The command or path of a tool call, for its block's title
+ */
+function describeInput(input: any): string {
+  const subject = input?.command ?? input?.path ?? input?.pattern;
+  if (typeof subject !== "string") {
+    return "";
+  }
+  const line = subject.replace(/\s+/g, " ").trim();
+  return `: \`${line.length > 80 ? `${line.substring(0, 80)}...` : line}\``;
+}
+
+function renderOutput(output: any): string {
+  if (output?.type === "json" || output?.type === "error-json" || output?.type === "content") {
+    return fence(JSON.stringify(output.value, null, 2), "json");
+  }
+  if (output?.type === "text" || output?.type === "error-text") {
+    return fence(String(output.value), "");
+  }
+  return fence(JSON.stringify(output, null, 2), "json");
+}
+
+function details(summary: string, body: string): string {
+  return `<details>\n<summary>${escapeHtml(summary)}</summary>\n\n${body}\n\n</details>`;
+}
+
+/**
+ * A code block that its content can't close early, cut to MARKDOWN_BLOCK_CHARS
+ */
+function fence(text: string, lang: string): string {
+  const shown = text.length > MARKDOWN_BLOCK_CHARS
+    ? `${text.substring(0, MARKDOWN_BLOCK_CHARS)}\n... (${(text.length - MARKDOWN_BLOCK_CHARS).toLocaleString()} more characters)`
+    : text;
+  const longestRun = Math.max(2, ...(shown.match(/`+/g) ?? []).map(run => run.length));
+  const marker = "`".repeat(longestRun + 1);
+  return `${marker}${lang}\n${shown}\n${marker}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
@@ -0,0 +1,208 @@
+import { z } from "zod";
+
+/**
+ * Structured conversation summary
+ * Stored as JSON in sessions.summary_text and rendered to markdown for prompts
+ */
+
+export const summarySchema = z.object({
+  goal: z.string().describe("What the user is trying to achieve - the main objective or task"),
+  currentPlan: z.array(z.string()).describe("Steps or approach being followed"),
+  keyDecisions: z.array(z.string()).describe("Important choices made, approaches selected, rejected alternatives"),
+  factsConstraints: z.array(z.string()).describe("Technical details, requirements, limitations, environment info"),
+  toolResults: z.array(z.string()).describe("Important outputs from tool calls, file operations, command results"),
+  openQuestions: z.array(z.string()).describe("Unresolved issues, pending decisions, things that need clarification"),
+});
+
+export type StructuredSummary = z.infer<typeof summarySchema>;
+
+type ListSection = Exclude<keyof StructuredSummary, "goal">;
+
+/**
+ * How each section merges and its share of the summary length budget
+ * "current" sections describe current state: the newer version wins unless empty;
+ * "replace" sections take the newer version even when empty (all resolved);
+ * "accumulate" sections keep old entries and drop the oldest once over budget
+ */
+const SECTIONS: {
+  key: keyof StructuredSummary;
+  heading: string;
+  share: number;
+  merge: "current" | "replace" | "accumulate";
+}[] = [
+  { key: "goal", heading: "Goal", share: 0.1, merge: "current" },
+  { key: "currentPlan", heading: "Current Plan", share: 0.15, merge: "current" },
+  { key: "keyDecisions", heading: "Key Decisions", share: 0.15, merge: "accumulate" },
+  { key: "factsConstraints", heading: "Facts / Constraints", share: 0.3, merge: "accumulate" },
+  { key: "toolResults", heading: "Tool Results", share: 0.15, merge: "accumulate" },
+  { key: "openQuestions", heading: "Open Questions", share: 0.15, merge: "replace" },
+];
+
+/**
+ * An empty summary
+ */
+export function emptySummary(): StructuredSummary {
+  return {
+    goal: "",
+    currentPlan: [],
+    keyDecisions: [],
+    factsConstraints: [],
+    toolResults: [],
+    openQuestions: [],
+  };
+}
+
+/**
+ * Whether a summary records nothing at all
+ */
+export function isEmptySummary(summary: StructuredSummary): boolean {
+  return !summary.goal.trim() && SECTIONS.every(({ key }) => key === "goal" || summary[key].length === 0);
+}
+
+/**
+ * Parse a stored summary
+ * Accepts the JSON format and the markdown format of older sessions
+ */
+export function parseSummary(text: string | null | undefined): StructuredSummary {
+  if (!text || !text.trim()) {
+    return emptySummary();
+  }
+
+  try {
+    const parsed = summarySchema.safeParse(JSON.parse(text));
+    if (parsed.success) {
+      return parsed.data;
+    }
+  } catch {
+    // Not JSON - fall through to the legacy markdown format
+  }
+
+  return parseMarkdownSummary(text);
+}
+
+/**
+ * Serialize a summary for storage
+ */
+export function serializeSummary(summary: StructuredSummary): string {
+  return JSON.stringify(summary);
+}
+
+/**
+ * Render a summary as markdown for the prompt
+ */
+export function renderSummaryMarkdown(summary: StructuredSummary): string {
+  return SECTIONS.map(({ key, heading }) => {
+    const value = summary[key];
+    const body = typeof value === "string"
+      ? value || "None"
+      : value.length > 0 ? value.map(item => `- ${item}`).join("\n") : "None";
+    return `# ${heading}\n${body}`;
+  }).join("\n\n");
+}
+
+/**
+ * Merge an update into an existing summary, section by section
+ * Each section is fitted to its share of maxLength on its own, so an
+ * oversized section can never push another one out of the summary
+ */
+export function mergeSummaries(
+  existing: StructuredSummary,
+  update: StructuredSummary,
+  maxLength: number
+): StructuredSummary {
+  const merged = emptySummary();
+
+  for (const { key, share, merge } of SECTIONS) {
+    const budget = Math.floor(maxLength * share);
+
+    if (key === "goal") {
+      merged.goal = fitText(update.goal.trim() || existing.goal, budget);
+      continue;
+    }
+
+    const listKey = key as ListSection;
+    const items = merge === "accumulate"
+      ? dedupe([...existing[listKey], ...update[listKey]])
+      : merge === "current" && update[listKey].length === 0
+        ? dedupe(existing[listKey])
+        : dedupe(update[listKey]);
+
+    merged[listKey] = fitItems(items, budget);
+  }
+
+  return merged;
+}
+
+/**
+ * Remove empty and repeated items, keeping the latest position of each
+ */
+function dedupe(items: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (let i = items.length - 1; i >= 0; i--) {
+    const item = items[i].trim();
+    const normalized = item.toLowerCase();
+    if (item && !seen.has(normalized)) {
+      seen.add(normalized);
+      result.unshift(item);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Keep the newest items that fit in the budget (one line each)
+ */
+function fitItems(items: string[], budget: number): string[] {
+  const result: string[] = [];
+  let length = 0;
+
+  for (let i = items.length - 1; i >= 0; i--) {
+    const item = fitText(items[i], budget);
+    // "- " prefix and newline per rendered item
+    if (length + item.length + 3 > budget && result.length > 0) {
+      break;
+    }
+    result.unshift(item);
+    length += item.length + 3;
+  }
+
+  return result;
+}
+
+/**
+ * Cap a single text at the budget
+ */
+function fitText(text: string, budget: number): string {
+  return text.length > budget ? text.substring(0, Math.max(budget - 1, 0)) + "…" : text;
+}
+
+/**
+ * Parse the markdown summary format used before summaries were structured
+ */
+function parseMarkdownSummary(text: string): StructuredSummary {
+  const summary = emptySummary();
+  const sections = text.split(/^#\s+/m).filter(section => section.trim());
+
+  for (const section of sections) {
+    const [headingLine, ...bodyLines] = section.split("\n");
+    const heading = headingLine.trim().toLowerCase();
+    const match = SECTIONS.find(s => s.heading.toLowerCase() === heading);
+    const body = bodyLines
+      .map(line => line.replace(/^\s*[-*]\s+/, "").trim())
+      .filter(line => line && !/^(none|n\/a)$/i.test(line) && line !== "---");
+
+    if (!match) {
+      // Unrecognized text is kept as facts rather than dropped
+      summary.factsConstraints.push(...(heading ? [headingLine.trim(), ...body] : body));
+    } else if (match.key === "goal") {
+      summary.goal = body.join(" ");
+    } else {
+      summary[match.key as ListSection].push(...body);
+    }
+  }
+
+  return summary;
+}
@@ -1,6 +1,167 @@
-import type { LanguageModelUsage } from "ai";
+import type { LanguageModelUsage, ModelMessage } from "ai";
 import { logger } from "../utils/logger.js";
 
+/**
+ * Tokenizer interface
+ * Implementations split text into the pieces a model family would see
+ */
+export interface Tokenizer {
+  name: string;
+  encode(text: string): string[];
+  count(text: string): number;
+}
+
+interface BpeTokenizerOptions {
+  name: string;
+  // Pre-tokens up to this length (leading space included) are one token,
+  // as common words are fully merged in real vocabularies
+  wholeWordLength: number;
+  // Longer pre-tokens are split into pieces of at most this length
+  maxPieceLength: number;
+}
+
+// Pre-tokenization pattern in the style of GPT/Claude BPE vocabularies:
+// contractions, letter runs, up to 3 digits, punctuation runs, whitespace
+const PRE_TOKEN_PATTERN =
+  /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+// Scripts without spaces between words merge far less; count them per character
+const UNMERGED_SCRIPT_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Emoji_Presentation}]/u;
+
+/**
+ * Local BPE-style tokenizer
+ * Splits text with a BPE pre-tokenization regex, keeps short pre-tokens whole
+ * and greedily merges longer ones into pieces of at most maxPieceLength
+ * characters. Needs no vocabulary files, so its counts are estimates, not a
+ * model's real token counts, but they track real tokenizers far better than
+ * length / 4 on code, numbers and punctuation
+ */
+export class BpeTokenizer implements Tokenizer {
+  readonly name: string;
+  private wholeWordLength: number;
+  private maxPieceLength: number;
+
+  constructor(options: BpeTokenizerOptions) {
+    this.name = options.name;
+    this.wholeWordLength = options.wholeWordLength;
+    this.maxPieceLength = options.maxPieceLength;
+  }
+
+  encode(text: string): string[] {
+    const pieces: string[] = [];
+
+    for (const match of text.matchAll(PRE_TOKEN_PATTERN)) {
+      const preToken = match[0];
+
+      if (UNMERGED_SCRIPT_PATTERN.test(preToken)) {
+        pieces.push(...Array.from(preToken));
+        continue;
+      }
+
+      if (preToken.length <= this.wholeWordLength) {
+        pieces.push(preToken);
+        continue;
+      }
+
+      for (let i = 0; i < preToken.length; i += this.maxPieceLength) {
+        pieces.push(preToken.slice(i, i + this.maxPieceLength));
+      }
+    }
+
+    return pieces;
+  }
+
+  count(text: string): number {
+    return this.encode(text).length;
+  }
+}
+
+/**
+ * Estimating tokenizers by vocabulary size: larger vocabularies (around 200k
+ * tokens) merge longer words and pieces than smaller ones (around 100k)
+ * Both are estimates; register a real encoding with registerTokenizer()
+ */
+const SMALL_VOCABULARY_TOKENIZER = new BpeTokenizer({ name: "bpe-estimate-small-vocab", wholeWordLength: 7, maxPieceLength: 4 });
+const LARGE_VOCABULARY_TOKENIZER = new BpeTokenizer({ name: "bpe-estimate-large-vocab", wholeWordLength: 8, maxPieceLength: 5 });
+
+/**
+ * Tokenizers by model family (the provider prefix of a gateway model id)
+ * Families not listed get the small vocabulary estimate
+ */
+const tokenizersByFamily = new Map<string, Tokenizer>([
+  ["openai", LARGE_VOCABULARY_TOKENIZER],
+  ["google", LARGE_VOCABULARY_TOKENIZER],
+  ["meta", LARGE_VOCABULARY_TOKENIZER],
+]);
+
+/**
+ * Register a tokenizer for a model family, replacing any existing one
+ */
+export function registerTokenizer(family: string, tokenizer: Tokenizer): void {
+  tokenizersByFamily.set(family, tokenizer);
+}
+
+/**
+ * Get the tokenizer for a model id such as "anthropic/claude-sonnet-4.5"
+ * Falls back to the default tokenizer for unknown families
+ */
+export function getTokenizer(modelId: string): Tokenizer {
+  const family = modelId.includes("/")
+    ? modelId.split("/")[0]
+    : modelId.startsWith("claude") ? "anthropic"
+    : modelId.startsWith("gpt") || /^o\d/.test(modelId) ? "openai"
+    : modelId.startsWith("gemini") ? "google"
+    : modelId;
+
+  return tokenizersByFamily.get(family) ?? SMALL_VOCABULARY_TOKENIZER;
+}
+
+// Role markers and separators each chat message adds to the prompt
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Count the tokens a message occupies in the prompt
+ * Tool calls count their name and JSON input, tool results their output
+ */
+export function countMessageTokens(message: ModelMessage, tokenizer: Tokenizer): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+
+  if (typeof message.content === "string") {
+    return tokens + tokenizer.count(message.content);
+  }
+
+  for (const part of message.content) {
+    switch (part.type) {
+      case "text":
+      case "reasoning":
+        tokens += tokenizer.count(part.text);
+        break;
+      case "tool-call":
+        tokens += tokenizer.count(part.toolName) + tokenizer.count(JSON.stringify(part.input));
+        break;
+      case "tool-result":
+        tokens += tokenizer.count(part.toolName) + tokenizer.count(JSON.stringify(part.output));
+        break;
+      case "image":
+      case "file":
+        // Media is billed by the provider; use a flat estimate
+        tokens += 1000;
+        break;
+      default:
+        tokens += tokenizer.count(JSON.stringify(part));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Count the tokens of a full prompt
+ */
+export function countMessagesTokens(messages: ModelMessage[], tokenizer: Tokenizer): number {
+  return messages.reduce((total, message) => total + countMessageTokens(message, tokenizer), 0);
+}
+
 /**
  * Extract usage information from a generation result
  * Use this after any generateText or streamText call
@@ -42,8 +203,8 @@ export function sumUsage(usages: LanguageModelUsage[]): {
 }
 
 /**
- * Check if we should compact based on total token count
- * Takes the cumulative token count from the database/session
+ * Check if we should compact based on the current prompt size
+ * Takes the prompt token count tracked by the session
  */
 export function shouldCompact(currentTokenCount: number, compactAtTokens: number): boolean {
   return currentTokenCount >= compactAtTokens;
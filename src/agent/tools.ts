@@ -1,21 +1,76 @@
-import { tool, jsonSchema } from "ai";
-import { exec } from "../docker/manager.js";
+import { randomBytes } from "crypto";
+import { posix } from "path";
+import { tool, jsonSchema, type Tool, type ToolExecutionOptions } from "ai";
+import {
+  startProcess,
+  listProcesses,
+  readProcessOutput,
+  stopProcess,
+  waitForProcess,
+  MAX_PROCESSES_PER_SESSION,
+  type ProcessInfo,
+} from "../docker/manager.js";
+import { getExecBackend } from "../exec/backend.js";
 import { logger } from "../utils/logger.js";
-import { readFileSync, writeFileSync, existsSync } from "fs";
-import { dirname, join } from "path";
-import { config } from "../config/env.js";
+import {
+  readWorkspaceFile,
+  writeWorkspaceFile,
+  deleteWorkspaceFile,
+  renameWorkspaceFile,
+  listWorkspace,
+  resolveWorkspacePath,
+  globToRegExp,
+  WorkspaceError,
+  type WorkspaceEntry,
+} from "./workspace.js";
+import { parsePatch, applyHunks, PatchError } from "./patch.js";
+import { capToolOutput, readToolOutput, getOutputLimit, type ToolContext } from "./artifacts.js";
+import { authorizeToolCall } from "./approval.js";
 
 /**
  * Tool definitions for the coding agent
- * Keep it simple: shell execution, file read/write
+ * Shell execution, background processes, and workspace-confined file tools:
+ * read (with line ranges), write, exact-string edit, unified-diff patch,
+ * list, glob, grep
  */
 
+// Output bounds for the file tools
+const MAX_READ_LINES = 2000;
+const MAX_LINE_LENGTH = 2000;
+const MAX_LIST_DEPTH = 5;
+const MAX_LIST_ENTRIES = 500;
+const MAX_GLOB_RESULTS = 500;
+const MAX_GREP_MATCHES = 200;
+const MAX_GREP_LINE_LENGTH = 300;
+const MAX_GREP_FILE_BYTES = 1024 * 1024;
+
+// How long start_process waits for early output (or an early exit) by default, and at most
+const DEFAULT_PROCESS_WAIT_MS = 2000;
+const MAX_PROCESS_WAIT_MS = 30_000;
+
+// Bounds on the directory walk behind glob and grep
+const MAX_WALK_DEPTH = 20;
+const MAX_WALK_ENTRIES = 20_000;
+
+/**
+ * A tool call that failed for a reason the model can fix
+ */
+class ToolError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "ToolError";
+    this.code = code;
+  }
+}
+
 /**
  * Run shell command in Docker sandbox
  */
 export const runShellTool = tool({
-  description: "Execute a shell command in a sandboxed Docker container. Use this to run code, install packages, or perform system operations.",
-  inputSchema: jsonSchema({
+  description: "Execute a shell command in a sandboxed Docker container. Use this to run code, install packages, or perform system operations. Commands still running at the timeout are killed along with any processes they started; the result then has timedOut: true and the output printed so far.",
+  inputSchema: jsonSchema<{ command: string; timeoutMs?: number }>({
     type: "object",
     properties: {
       command: {
@@ -29,24 +84,39 @@ export const runShellTool = tool({
     },
     required: ["command"],
   }),
-  execute: async ({ command, timeoutMs = 30000 }: { command: string; timeoutMs?: number }) => {
+  execute: async ({ command, timeoutMs = 30000 }, { toolCallId, experimental_context }) => {
     logger.info({ command, timeoutMs }, "Executing shell command");
+    const call = { toolName: "run_shell", toolCallId, context: experimental_context as ToolContext | undefined };
 
     try {
-      const result = await exec(command, timeoutMs);
+      if (!call.context?.sessionId) {
+        throw new Error("run_shell needs a session to run in");
+      }
+      const result = await getExecBackend().exec(call.context.sessionId, command, timeoutMs, (stream, text) => {
+        call.context?.onToolOutput?.(toolCallId, stream, text);
+      });
       
       logger.info({ 
         command, 
         exitCode: result.exitCode, 
+        timedOut: result.timedOut,
         stdoutLength: result.stdout.length,
         stderrLength: result.stderr.length 
       }, "Shell command completed");
 
+      // Long output is cut to head and tail; the full text stays readable via read_tool_output
+      const stdout = capToolOutput(call, "stdout", result.stdout);
+      const stderr = capToolOutput(call, "stderr", result.stderr);
+
       return {
-        success: result.exitCode === 0,
+        success: result.exitCode === 0 && !result.timedOut,
         exitCode: result.exitCode,
-        stdout: result.stdout,
-        stderr: result.stderr,
+        timedOut: result.timedOut,
+        stdout: stdout.text,
+        stderr: stderr.text,
+        stdoutBytes: stdout.bytes,
+        stderrBytes: stderr.bytes,
+        truncated: stdout.truncated || stderr.truncated,
       };
     } catch (error: any) {
       logger.error({ error, command }, "Shell command failed");
@@ -61,42 +131,255 @@ export const runShellTool = tool({
 });
 
 /**
- * Read file from workspace
+ * Start a long-running command in the background
+ */
+export const startProcessTool = tool({
+  description: `Start a long-running command (dev server, watcher, test runner against a server) in the background in the sandbox and return its id right away, with the output from the first waitMs. Use read_process_output to follow its output, process_status to check on it and stop_process when done. At most ${MAX_PROCESSES_PER_SESSION} run at once.`,
+  inputSchema: jsonSchema<{ command: string; waitMs?: number }>({
+    type: "object",
+    properties: {
+      command: {
+        type: "string",
+        description: "The shell command to run",
+      },
+      waitMs: {
+        type: "number",
+        description: `How long to wait for initial output before returning (default: ${DEFAULT_PROCESS_WAIT_MS}, max: ${MAX_PROCESS_WAIT_MS})`,
+      },
+    },
+    required: ["command"],
+  }),
+  execute: async ({ command, waitMs = DEFAULT_PROCESS_WAIT_MS }, { experimental_context }) => {
+    logger.info({ command, waitMs }, "Starting background process");
+
+    try {
+      const sessionId = requireSession(experimental_context);
+      const running = listProcesses(sessionId).filter(proc => proc.status === "running");
+      if (running.length >= MAX_PROCESSES_PER_SESSION) {
+        throw new ToolError("limit_reached", `${running.length} background processes are already running (max ${MAX_PROCESSES_PER_SESSION}); stop one first`);
+      }
+
+      const started = await startProcess(sessionId, command);
+      const info = await waitForProcess(sessionId, started.id, Math.min(Math.max(0, waitMs), MAX_PROCESS_WAIT_MS));
+      const output = readProcessOutput(sessionId, info.id, undefined, getOutputLimit("start_process"));
+
+      return {
+        success: true,
+        ...describeProcess(info),
+        output: output.text,
+        nextOffset: output.nextOffset,
+        error: null,
+      };
+    } catch (error: any) {
+      logger.error({ error, command }, "Failed to start background process");
+      return {
+        success: false,
+        id: null,
+        ...toolError(error, "Failed to start background process"),
+      };
+    }
+  },
+});
+
+/**
+ * Status of background processes
+ */
+export const processStatusTool = tool({
+  description: "Check on background processes started with start_process: status (running, exited or stopped), exit code, runtime and how much output they produced. Omit id to list every process of this session.",
+  inputSchema: jsonSchema<{ id?: string }>({
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "Process id from start_process (default: all processes)",
+      },
+    },
+  }),
+  execute: async ({ id }, { experimental_context }) => {
+    logger.info({ id }, "Checking background processes");
+
+    try {
+      const sessionId = requireSession(experimental_context);
+      const processes = listProcesses(sessionId).filter(proc => !id || proc.id === id);
+      if (id && processes.length === 0) {
+        throw new ToolError("not_found", `No background process ${id} in this session`);
+      }
+
+      return {
+        success: true,
+        processes: processes.map(describeProcess),
+        error: null,
+      };
+    } catch (error: any) {
+      logger.error({ error, id }, "Failed to check background processes");
+      return {
+        success: false,
+        processes: [],
+        ...toolError(error, "Failed to check background processes"),
+      };
+    }
+  },
+});
+
+/**
+ * Read the output of a background process
+ */
+export const readProcessOutputTool = tool({
+  description: "Read the combined stdout/stderr of a background process. Without offset, returns the output produced since the last read. Only the most recent output is kept; droppedChars says how much was lost before offset.",
+  inputSchema: jsonSchema<{ id: string; offset?: number; length?: number }>({
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "Process id from start_process",
+      },
+      offset: {
+        type: "number",
+        description: "Character offset to read from (default: where the last read stopped)",
+      },
+      length: {
+        type: "number",
+        description: "Number of characters to read (default and max: the read_process_output cap)",
+      },
+    },
+    required: ["id"],
+  }),
+  execute: async ({ id, offset, length }, { experimental_context }) => {
+    logger.info({ id, offset, length }, "Reading background process output");
+
+    try {
+      const sessionId = requireSession(experimental_context);
+      requireProcess(sessionId, id);
+
+      const limit = getOutputLimit("read_process_output");
+      const output = readProcessOutput(
+        sessionId,
+        id,
+        offset === undefined ? undefined : Math.max(0, Math.floor(offset)),
+        Math.min(Math.max(1, Math.floor(length ?? limit)), limit)
+      );
+
+      return {
+        success: true,
+        id,
+        ...output,
+        error: null,
+      };
+    } catch (error: any) {
+      logger.error({ error, id }, "Failed to read background process output");
+      return {
+        success: false,
+        id,
+        text: null,
+        ...toolError(error, "Failed to read background process output"),
+      };
+    }
+  },
+});
+
+/**
+ * Stop a background process
+ */
+export const stopProcessTool = tool({
+  description: "Stop a background process started with start_process, along with every process it started (SIGTERM, then SIGKILL). Returns its final status and the output not read yet.",
+  inputSchema: jsonSchema<{ id: string }>({
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "Process id from start_process",
+      },
+    },
+    required: ["id"],
+  }),
+  execute: async ({ id }, { experimental_context }) => {
+    logger.info({ id }, "Stopping background process");
+
+    try {
+      const sessionId = requireSession(experimental_context);
+      requireProcess(sessionId, id);
+
+      const info = await stopProcess(sessionId, id);
+      const output = readProcessOutput(sessionId, id, undefined, getOutputLimit("stop_process"));
+
+      return {
+        success: true,
+        ...describeProcess(info),
+        output: output.text,
+        error: null,
+      };
+    } catch (error: any) {
+      logger.error({ error, id }, "Failed to stop background process");
+      return {
+        success: false,
+        id,
+        ...toolError(error, "Failed to stop background process"),
+      };
+    }
+  },
+});
+
+/**
+ * Read file from workspace, optionally a range of lines
  */
 export const readFileTool = tool({
-  description: "Read the contents of a file from the workspace. Returns the file content as a string.",
-  inputSchema: jsonSchema({
+  description: `Read a file from the workspace. Returns the content and the line range returned. Reads at most ${MAX_READ_LINES} lines per call; use startLine/endLine to page through longer files. Paths are relative to the workspace; paths outside it are rejected.`,
+  inputSchema: jsonSchema<{ path: string; startLine?: number; endLine?: number }>({
     type: "object",
     properties: {
       path: {
         type: "string",
         description: "Relative path to the file in the workspace",
       },
+      startLine: {
+        type: "number",
+        description: "First line to read, 1-based (default: 1)",
+      },
+      endLine: {
+        type: "number",
+        description: `Last line to read, inclusive (default: startLine + ${MAX_READ_LINES - 1})`,
+      },
     },
     required: ["path"],
   }),
-  execute: async ({ path }: { path: string }) => {
-    logger.info({ path }, "Reading file");
+  execute: async ({ path, startLine, endLine }, { toolCallId, experimental_context }) => {
+    logger.info({ path, startLine, endLine }, "Reading file");
+    const call = { toolName: "read_file", toolCallId, context: experimental_context as ToolContext | undefined };
 
     try {
-      const fullPath = join(process.cwd(), config.docker.workdir, path);
-      
-      if (!existsSync(fullPath)) {
-        logger.warn({ path, fullPath }, "File not found");
-        return {
-          success: false,
-          content: null,
-          error: `File not found: ${path}`,
-        };
+      const content = await readWorkspaceFile(path, call.context?.sessionId);
+      const lines = splitLines(content);
+      const totalLines = lines.length;
+
+      const start = Math.max(1, Math.floor(startLine ?? 1));
+      if (start > Math.max(totalLines, 1)) {
+        throw new ToolError("invalid_range", `startLine ${start} is past the end of ${path} (${totalLines} lines)`);
       }
+      const requestedEnd = Math.min(totalLines, Math.floor(endLine ?? totalLines));
+      const end = Math.min(requestedEnd, start + MAX_READ_LINES - 1);
 
-      const content = readFileSync(fullPath, "utf-8");
+      let lineCut = false;
+      const selected = lines.slice(start - 1, end).map(line => {
+        if (line.length <= MAX_LINE_LENGTH) {
+          return line;
+        }
+        lineCut = true;
+        return line.substring(0, MAX_LINE_LENGTH) + `…[${line.length - MAX_LINE_LENGTH} more characters]`;
+      });
+
+      // The whole file, untouched, is returned verbatim
+      const wholeFile = start === 1 && end === totalLines && !lineCut;
+      const capped = capToolOutput(call, "content", wholeFile ? content : selected.join("\n"));
       
-      logger.info({ path, contentLength: content.length }, "File read successfully");
+      logger.info({ path, contentLength: content.length, startLine: start, endLine: end }, "File read successfully");
 
       return {
         success: true,
-        content,
+        content: capped.text,
+        startLine: start,
+        endLine: end,
+        totalLines,
+        truncated: end < requestedEnd || lineCut || capped.truncated,
         error: null,
       };
     } catch (error: any) {
@@ -104,7 +387,7 @@ export const readFileTool = tool({
       return {
         success: false,
         content: null,
-        error: error.message || "Failed to read file",
+        ...toolError(error, "Failed to read file"),
       };
     }
   },
@@ -114,8 +397,8 @@ export const readFileTool = tool({
  * Write file to workspace
  */
 export const writeFileTool = tool({
-  description: "Write content to a file in the workspace. Creates the file if it doesn't exist, overwrites if it does.",
-  inputSchema: jsonSchema({
+  description: "Write content to a file in the workspace. Creates the file and any missing parent directories if they don't exist, overwrites if it does. Paths outside the workspace are rejected.",
+  inputSchema: jsonSchema<{ path: string; content: string }>({
     type: "object",
     properties: {
       path: {
@@ -129,19 +412,18 @@ export const writeFileTool = tool({
     },
     required: ["path", "content"],
   }),
-  execute: async ({ path, content }: { path: string; content: string }) => {
+  execute: async ({ path, content }, { experimental_context }) => {
     logger.info({ path, contentLength: content.length }, "Writing file");
+    const sessionId = (experimental_context as ToolContext | undefined)?.sessionId;
 
     try {
-      const fullPath = join(process.cwd(), config.docker.workdir, path);
-
-      writeFileSync(fullPath, content, "utf-8");
+      const target = await writeWorkspaceFile(path, content, sessionId);
       
-      logger.info({ path }, "File written successfully");
+      logger.info({ path: target.relative }, "File written successfully");
 
       return {
         success: true,
-        path,
+        path: target.relative,
         error: null,
       };
     } catch (error: any) {
@@ -149,17 +431,658 @@ export const writeFileTool = tool({
       return {
         success: false,
         path,
-        error: error.message || "Failed to write file",
+        ...toolError(error, "Failed to write file"),
       };
     }
   },
 });
 
+/**
+ * Page through a tool output that was cut before reaching the model
+ */
+export const readToolOutputTool = tool({
+  description: "Read part of a tool output that was truncated. Truncated outputs name the tool-call id and field to pass here. Returns the characters from offset and the offset to continue from.",
+  inputSchema: jsonSchema<{ id: string; field?: string; offset?: number; length?: number }>({
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "Tool-call id of the truncated output",
+      },
+      field: {
+        type: "string",
+        description: 'Which output to read, e.g. "stdout", "stderr" or "content" (default: the first saved)',
+      },
+      offset: {
+        type: "number",
+        description: "Character offset to start at (default: 0)",
+      },
+      length: {
+        type: "number",
+        description: "Number of characters to read (default and max: the read_tool_output cap)",
+      },
+    },
+    required: ["id"],
+  }),
+  execute: async ({ id, field, offset = 0, length }, { experimental_context }) => {
+    logger.info({ id, field, offset, length }, "Reading tool output");
+
+    try {
+      const context = experimental_context as ToolContext | undefined;
+      if (!context?.sessionId) {
+        throw new ToolError("unavailable", "Tool outputs are not stored outside a session");
+      }
+
+      const limit = getOutputLimit("read_tool_output");
+      const result = readToolOutput(
+        context.sessionId,
+        id,
+        field,
+        Math.floor(offset),
+        Math.min(Math.max(1, Math.floor(length ?? limit)), limit)
+      );
+
+      if (!result) {
+        throw new ToolError("not_found", `No saved output for tool call ${id}${field ? ` (field "${field}")` : ""}`);
+      }
+
+      return {
+        success: true,
+        id,
+        ...result,
+        error: null,
+      };
+    } catch (error: any) {
+      logger.error({ error, id }, "Failed to read tool output");
+      return {
+        success: false,
+        id,
+        content: null,
+        ...toolError(error, "Failed to read tool output"),
+      };
+    }
+  },
+});
+
+/**
+ * Replace an exact string in a workspace file
+ */
+export const editFileTool = tool({
+  description: "Replace an exact string in a workspace file. oldString must match the file exactly (including whitespace) and occur once, unless replaceAll is set. Prefer this over write_file for small changes.",
+  inputSchema: jsonSchema<{ path: string; oldString: string; newString: string; replaceAll?: boolean }>({
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description: "Relative path to the file in the workspace",
+      },
+      oldString: {
+        type: "string",
+        description: "Exact text to replace; include enough surrounding lines to make it unique",
+      },
+      newString: {
+        type: "string",
+        description: "Text to replace it with",
+      },
+      replaceAll: {
+        type: "boolean",
+        description: "Replace every occurrence instead of requiring a unique match (default: false)",
+      },
+    },
+    required: ["path", "oldString", "newString"],
+  }),
+  execute: async ({ path, oldString, newString, replaceAll = false }, { experimental_context }) => {
+    logger.info({ path, oldLength: oldString.length, newLength: newString.length, replaceAll }, "Editing file");
+    const sessionId = (experimental_context as ToolContext | undefined)?.sessionId;
+
+    try {
+      if (!oldString) {
+        throw new ToolError("invalid_input", "oldString must not be empty; use write_file to create a file");
+      }
+      if (oldString === newString) {
+        throw new ToolError("invalid_input", "oldString and newString are identical");
+      }
+
+      const content = await readWorkspaceFile(path, sessionId);
+      const occurrences = content.split(oldString).length - 1;
+
+      if (occurrences === 0) {
+        throw new ToolError("no_match", `oldString not found in ${path}. Re-read the file and copy the exact text, including whitespace.`);
+      }
+      if (occurrences > 1 && !replaceAll) {
+        throw new ToolError("not_unique", `oldString occurs ${occurrences} times in ${path}. Include more surrounding context to make it unique, or set replaceAll.`);
+      }
+
+      const updated = replaceAll
+        ? content.split(oldString).join(newString)
+        : content.replace(oldString, () => newString);
+      const target = await writeWorkspaceFile(path, updated, sessionId);
+
+      logger.info({ path: target.relative, replacements: occurrences }, "File edited successfully");
+
+      return {
+        success: true,
+        path: target.relative,
+        replacements: occurrences,
+        error: null,
+      };
+    } catch (error: any) {
+      logger.error({ error, path }, "Failed to edit file");
+      return {
+        success: false,
+        path,
+        ...toolError(error, "Failed to edit file"),
+      };
+    }
+  },
+});
+
+/**
+ * Apply a unified diff to workspace files
+ */
+export const applyPatchTool = tool({
+  description: "Apply a unified diff (as produced by `diff -u` or `git diff`) to workspace files. Supports multiple files, new files (--- /dev/null) and deletions (+++ /dev/null). Hunks are located by their context lines. Either every file is patched or none is.",
+  inputSchema: jsonSchema<{ patch: string }>({
+    type: "object",
+    properties: {
+      patch: {
+        type: "string",
+        description: "The unified diff text",
+      },
+    },
+    required: ["patch"],
+  }),
+  execute: async ({ patch }, { experimental_context }) => {
+    logger.info({ patchLength: patch.length }, "Applying patch");
+    const sessionId = (experimental_context as ToolContext | undefined)?.sessionId;
+
+    try {
+      const filePatches = parsePatch(patch);
+
+      // Compute every result before writing anything
+      const changes: { path: string; action: "added" | "modified" | "deleted" | "renamed"; content?: string; from?: string }[] = [];
+
+      for (const filePatch of filePatches) {
+        if (!filePatch.newPath) {
+          await readWorkspaceFile(filePatch.oldPath!, sessionId);
+          changes.push({ path: filePatch.oldPath!, action: "deleted" });
+          continue;
+        }
+
+        if (!filePatch.oldPath) {
+          if (await fileExists(filePatch.newPath, sessionId)) {
+            throw new ToolError("already_exists", `${filePatch.newPath} already exists; patch it instead of adding it`);
+          }
+          changes.push({ path: filePatch.newPath, action: "added", content: applyHunks("", filePatch.hunks, filePatch.newPath) });
+          continue;
+        }
+
+        const original = await readWorkspaceFile(filePatch.oldPath, sessionId);
+        const content = applyHunks(original, filePatch.hunks, filePatch.oldPath);
+        const renamed = resolveWorkspacePath(filePatch.oldPath).relative !== resolveWorkspacePath(filePatch.newPath).relative;
+
+        changes.push(renamed
+          ? { path: filePatch.newPath, action: "renamed", content, from: filePatch.oldPath }
+          : { path: filePatch.newPath, action: "modified", content });
+      }
+
+      await commitPatch(changes, sessionId);
+
+      logger.info({ files: changes.length }, "Patch applied successfully");
+
+      return {
+        success: true,
+        files: changes.map(({ path, action, from }) => ({ path, action, ...(from ? { from } : {}) })),
+        error: null,
+      };
+    } catch (error: any) {
+      logger.error({ error }, "Failed to apply patch");
+      return {
+        success: false,
+        files: [],
+        ...toolError(error, "Failed to apply patch"),
+      };
+    }
+  },
+});
+
+/**
+ * List a workspace directory
+ */
+export const listDirTool = tool({
+  description: `List a workspace directory. Directories end with "/", files show their size. Recurses up to depth levels (max ${MAX_LIST_DEPTH}); .git and node_modules are not descended into. Returns at most ${MAX_LIST_ENTRIES} entries.`,
+  inputSchema: jsonSchema<{ path?: string; depth?: number }>({
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description: "Relative path to the directory (default: workspace root)",
+      },
+      depth: {
+        type: "number",
+        description: `How many levels to list (default: 1, max: ${MAX_LIST_DEPTH})`,
+      },
+    },
+  }),
+  execute: async ({ path = ".", depth = 1 }, { experimental_context }) => {
+    logger.info({ path, depth }, "Listing directory");
+    const sessionId = (experimental_context as ToolContext | undefined)?.sessionId;
+
+    try {
+      const listing = await listWorkspace(path, {
+        maxDepth: Math.min(Math.max(1, Math.floor(depth)), MAX_LIST_DEPTH),
+        maxEntries: MAX_LIST_ENTRIES,
+      }, sessionId);
+
+      return {
+        success: true,
+        path,
+        entries: listing.entries.map(formatEntry),
+        truncated: listing.truncated,
+        error: null,
+      };
+    } catch (error: any) {
+      logger.error({ error, path }, "Failed to list directory");
+      return {
+        success: false,
+        path,
+        entries: [],
+        ...toolError(error, "Failed to list directory"),
+      };
+    }
+  },
+});
+
+/**
+ * Find workspace files by glob pattern
+ */
+export const globTool = tool({
+  description: `Find files in the workspace by glob pattern (*, **, ?, [abc], {a,b}). A pattern without "/" matches file names in any directory, e.g. "*.ts"; use "src/**/*.test.ts" to match paths. Returns at most ${MAX_GLOB_RESULTS} paths relative to the workspace.`,
+  inputSchema: jsonSchema<{ pattern: string; path?: string }>({
+    type: "object",
+    properties: {
+      pattern: {
+        type: "string",
+        description: "Glob pattern, relative to path",
+      },
+      path: {
+        type: "string",
+        description: "Directory to search (default: workspace root)",
+      },
+    },
+    required: ["pattern"],
+  }),
+  execute: async ({ pattern, path = "." }, { experimental_context }) => {
+    logger.info({ pattern, path }, "Globbing files");
+    const sessionId = (experimental_context as ToolContext | undefined)?.sessionId;
+
+    try {
+      const { files, truncated: walkTruncated, base } = await walkFiles(path, sessionId);
+      const regex = globToRegExp(pattern);
+      const matches = files
+        .map(entry => entry.path)
+        .filter(file => regex.test(base ? file.slice(base.length + 1) : file));
+
+      return {
+        success: true,
+        matches: matches.slice(0, MAX_GLOB_RESULTS),
+        truncated: walkTruncated || matches.length > MAX_GLOB_RESULTS,
+        error: null,
+      };
+    } catch (error: any) {
+      logger.error({ error, pattern, path }, "Failed to glob files");
+      return {
+        success: false,
+        matches: [],
+        ...toolError(error, "Failed to glob files"),
+      };
+    }
+  },
+});
+
+/**
+ * Search workspace file contents by regex
+ */
+export const grepTool = tool({
+  description: `Search file contents in the workspace with a regular expression (JavaScript syntax). Returns matching lines as "path:line: text", at most ${MAX_GREP_MATCHES}. Binary files and files over ${MAX_GREP_FILE_BYTES / 1024 / 1024} MB are skipped.`,
+  inputSchema: jsonSchema<{ pattern: string; path?: string; include?: string; ignoreCase?: boolean }>({
+    type: "object",
+    properties: {
+      pattern: {
+        type: "string",
+        description: "Regular expression to search for",
+      },
+      path: {
+        type: "string",
+        description: "File or directory to search (default: workspace root)",
+      },
+      include: {
+        type: "string",
+        description: 'Only search files matching this glob, e.g. "*.ts"',
+      },
+      ignoreCase: {
+        type: "boolean",
+        description: "Case-insensitive search (default: false)",
+      },
+    },
+    required: ["pattern"],
+  }),
+  execute: async ({ pattern, path = ".", include, ignoreCase = false }, { experimental_context }) => {
+    logger.info({ pattern, path, include }, "Searching files");
+    const sessionId = (experimental_context as ToolContext | undefined)?.sessionId;
+
+    try {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern, ignoreCase ? "i" : "");
+      } catch (error: any) {
+        throw new ToolError("invalid_input", error.message);
+      }
+
+      const { files, truncated: walkTruncated, base } = await walkFiles(path, sessionId);
+      const includeRegex = include ? globToRegExp(include) : null;
+      const matches: string[] = [];
+      let filesSearched = 0;
+
+      for (const file of files) {
+        if (matches.length > MAX_GREP_MATCHES) {
+          break;
+        }
+        if (file.size > MAX_GREP_FILE_BYTES) {
+          continue;
+        }
+        if (includeRegex && !includeRegex.test(base ? file.path.slice(base.length + 1) : file.path)) {
+          continue;
+        }
+
+        const content = await readWorkspaceFile(file.path, sessionId);
+        if (content.includes("\0")) {
+          continue;
+        }
+        filesSearched++;
+
+        splitLines(content).forEach((line, index) => {
+          if (matches.length <= MAX_GREP_MATCHES && regex.test(line)) {
+            const text = line.length > MAX_GREP_LINE_LENGTH ? line.substring(0, MAX_GREP_LINE_LENGTH) + "…" : line;
+            matches.push(`${file.path}:${index + 1}: ${text}`);
+          }
+        });
+      }
+
+      return {
+        success: true,
+        matches: matches.slice(0, MAX_GREP_MATCHES),
+        filesSearched,
+        truncated: walkTruncated || matches.length > MAX_GREP_MATCHES,
+        error: null,
+      };
+    } catch (error: any) {
+      logger.error({ error, pattern, path }, "Failed to search files");
+      return {
+        success: false,
+        matches: [],
+        ...toolError(error, "Failed to search files"),
+      };
+    }
+  },
+});
+
+/**
+ * Split file content into lines, without a trailing empty line
+ */
+function splitLines(content: string): string[] {
+  if (content === "") {
+    return [];
+  }
+  return content.replace(/\r?\n$/, "").split(/\r?\n/);
+}
+
+/**
+ * Format a listing entry for the model
+ */
+function formatEntry(entry: WorkspaceEntry): string {
+  switch (entry.type) {
+    case "directory":
+      return `${entry.path}/`;
+    case "file":
+      return `${entry.path} (${entry.size} bytes)`;
+    case "symlink":
+      return `${entry.path} (symlink)`;
+    default:
+      return entry.path;
+  }
+}
+
+/**
+ * Collect the files under a workspace path for glob and grep
+ * A file path yields just that file; base is the searched directory
+ */
+async function walkFiles(path: string, sessionId?: string): Promise<{ files: WorkspaceEntry[]; truncated: boolean; base: string }> {
+  const target = resolveWorkspacePath(path);
+
+  try {
+    const listing = await listWorkspace(path, { maxDepth: MAX_WALK_DEPTH, maxEntries: MAX_WALK_ENTRIES }, sessionId);
+    return {
+      files: listing.entries.filter(entry => entry.type === "file"),
+      truncated: listing.truncated,
+      base: target.relative,
+    };
+  } catch (error) {
+    if (error instanceof WorkspaceError && error.code === "not_a_directory") {
+      const content = await readWorkspaceFile(path, sessionId);
+      return {
+        files: [{ path: target.relative, type: "file", size: Buffer.byteLength(content), depth: 0 }],
+        truncated: false,
+        base: target.relative.includes("/") ? target.relative.slice(0, target.relative.lastIndexOf("/")) : "",
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Session id of a tool call; background processes only exist within a
+ * session, and only in its container
+ */
+function requireSession(context: unknown): string {
+  const sessionId = (context as ToolContext | undefined)?.sessionId;
+  if (!sessionId) {
+    throw new ToolError("unavailable", "Background processes need a session");
+  }
+  const backend = getExecBackend().name;
+  if (backend !== "docker") {
+    throw new ToolError("unavailable", `Background processes need the docker exec backend (EXEC_BACKEND=${backend})`);
+  }
+  return sessionId;
+}
+
+function requireProcess(sessionId: string, id: string): void {
+  if (!listProcesses(sessionId).some(proc => proc.id === id)) {
+    throw new ToolError("not_found", `No background process ${id} in this session`);
+  }
+}
+
+/**
+ * Process fields returned to the model
+ */
+function describeProcess(info: ProcessInfo) {
+  return {
+    id: info.id,
+    command: info.command,
+    status: info.status,
+    exitCode: info.exitCode,
+    runtimeMs: (info.endedAt ?? Date.now()) - info.startedAt,
+    outputChars: info.outputChars,
+  };
+}
+
+/**
+ * Write the changes of a patch all-or-nothing
+ * New contents are staged in temp files next to their targets and renamed
+ * into place; if any step fails, every file touched so far gets back the
+ * content it had before
+ */
+async function commitPatch(
+  changes: { path: string; action: string; content?: string; from?: string }[],
+  sessionId?: string
+): Promise<void> {
+  // Content of every path the patch touches, null where there was no file
+  const originals = new Map<string, string | null>();
+  for (const path of changes.flatMap(change => change.from ? [change.path, change.from] : [change.path])) {
+    const key = resolveWorkspacePath(path).relative;
+    if (!originals.has(key)) {
+      originals.set(key, await fileExists(path, sessionId) ? await readWorkspaceFile(path, sessionId) : null);
+    }
+  }
+
+  const staged = new Map<string, string>();
+  const touched: string[] = [];
+
+  try {
+    for (const change of changes) {
+      if (change.content !== undefined) {
+        const target = resolveWorkspacePath(change.path).relative;
+        const temp = posix.join(posix.dirname(target), `.${posix.basename(target)}.patch-${randomBytes(4).toString("hex")}`);
+        await writeWorkspaceFile(temp, change.content, sessionId);
+        staged.set(change.path, temp);
+      }
+    }
+
+    for (const change of changes) {
+      const temp = staged.get(change.path);
+      if (temp) {
+        touched.push(change.path);
+        await renameWorkspaceFile(temp, change.path, sessionId);
+        staged.delete(change.path);
+      }
+      if (change.action === "deleted") {
+        touched.push(change.path);
+        await deleteWorkspaceFile(change.path, sessionId);
+      }
+      if (change.from) {
+        touched.push(change.from);
+        await deleteWorkspaceFile(change.from, sessionId);
+      }
+    }
+  } catch (error) {
+    for (const temp of staged.values()) {
+      await deleteWorkspaceFile(temp, sessionId).catch(() => undefined);
+    }
+    for (const path of touched.reverse()) {
+      const original = originals.get(resolveWorkspacePath(path).relative);
+      try {
+        if (original === null) {
+          await deleteWorkspaceFile(path, sessionId);
+        } else if (original !== undefined) {
+          await writeWorkspaceFile(path, original, sessionId);
+        }
+      } catch (restoreError) {
+        if (!(restoreError instanceof WorkspaceError && restoreError.code === "not_found")) {
+          logger.error({ error: restoreError, path }, "Failed to restore file after a failed patch");
+        }
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether a workspace file exists
+ */
+async function fileExists(path: string, sessionId?: string): Promise<boolean> {
+  try {
+    await readWorkspaceFile(path, sessionId);
+    return true;
+  } catch (error) {
+    if (error instanceof WorkspaceError && error.code === "not_found") {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Structured error fields for a failed tool call
+ * Workspace violations carry a code the model can act on
+ */
+function toolError(error: any, fallback: string): { error: string; errorCode: string } {
+  if (error instanceof WorkspaceError || error instanceof ToolError) {
+    return { error: error.message, errorCode: error.code };
+  }
+  if (error instanceof PatchError) {
+    return { error: error.message, errorCode: "patch_failed" };
+  }
+  return { error: error?.message || fallback, errorCode: "io_error" };
+}
+
+/**
+ * Put every tool call through the approval policy before it runs
+ * A denied call returns a "denied" error to the model instead
+ */
+function withApproval<T extends Record<string, Tool>>(definitions: T): T {
+  const guarded: Record<string, Tool> = {};
+
+  for (const [toolName, definition] of Object.entries(definitions)) {
+    const execute = definition.execute!;
+    guarded[toolName] = {
+      ...definition,
+      execute: async (input: unknown, options: ToolExecutionOptions) => {
+        const verdict = await authorizeToolCall(toolName, input, options.toolCallId, options.experimental_context as ToolContext | undefined);
+        if (!verdict.approved) {
+          return { success: false, ...toolError(new ToolError("denied", verdict.reason ?? "Denied by the approval policy"), "") };
+        }
+        return execute(input, options);
+      },
+    };
+  }
+
+  return guarded as T;
+}
+
+/**
+ * Journal every tool call through the context as it starts and finishes
+ * Wraps the approval check too, so denied calls are journaled with their result
+ */
+function withJournal<T extends Record<string, Tool>>(definitions: T): T {
+  const journaled: Record<string, Tool> = {};
+
+  for (const [toolName, definition] of Object.entries(definitions)) {
+    const execute = definition.execute!;
+    journaled[toolName] = {
+      ...definition,
+      execute: async (input: unknown, options: ToolExecutionOptions) => {
+        const context = options.experimental_context as ToolContext | undefined;
+        context?.journalToolCall?.(options.toolCallId, toolName, input);
+        try {
+          const output = await execute(input, options);
+          context?.journalToolResult?.(options.toolCallId, output, false);
+          return output;
+        } catch (error) {
+          context?.journalToolResult?.(options.toolCallId, String(error), true);
+          throw error;
+        }
+      },
+    };
+  }
+
+  return journaled as T;
+}
+
 /**
  * Export all tools as a tools object
  */
-export const tools = {
+export const tools = withJournal(withApproval({
   run_shell: runShellTool,
+  start_process: startProcessTool,
+  process_status: processStatusTool,
+  read_process_output: readProcessOutputTool,
+  stop_process: stopProcessTool,
   read_file: readFileTool,
   write_file: writeFileTool,
-};
+  edit_file: editFileTool,
+  apply_patch: applyPatchTool,
+  list_dir: listDirTool,
+  glob: globTool,
+  grep: grepTool,
+  read_tool_output: readToolOutputTool,
+}));
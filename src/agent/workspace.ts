@@ -0,0 +1,596 @@
+import {
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  readlinkSync,
+  realpathSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { dirname, isAbsolute, posix, relative, resolve, sep } from "path";
+import { getExecBackend } from "../exec/backend.js";
+import { config } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import { shellQuote } from "../utils/shell.js";
+
+/**
+ * Workspace confinement for the file tools
+ * Every path the model passes is resolved against the workspace root and
+ * rejected if it (or a symlink along it) leads outside. File I/O goes to the
+ * mounted host directory, or through the session's sandbox (the exec
+ * backend) when FILE_IO_MODE=container (the session id is only needed then)
+ */
+
+export type WorkspaceErrorCode =
+  | "invalid_path"
+  | "outside_workspace"
+  | "symlink_escape"
+  | "not_found"
+  | "not_a_file"
+  | "not_a_directory";
+
+/**
+ * A path the file tools refuse or can't serve
+ * Tools return code and message to the model as a structured error
+ */
+export class WorkspaceError extends Error {
+  readonly code: WorkspaceErrorCode;
+  readonly path: string;
+
+  constructor(code: WorkspaceErrorCode, path: string, message: string) {
+    super(message);
+    this.name = "WorkspaceError";
+    this.code = code;
+    this.path = path;
+  }
+}
+
+export interface WorkspacePath {
+  // Normalized path relative to the workspace root ("" for the root itself)
+  relative: string;
+  hostPath: string;
+  // The path as sandboxed commands see it
+  containerPath: string;
+}
+
+export interface WorkspaceEntry {
+  // Path relative to the workspace root
+  path: string;
+  type: "file" | "directory" | "symlink" | "other";
+  size: number;
+  // 1 for direct children of the listed directory
+  depth: number;
+}
+
+export interface WorkspaceListing {
+  entries: WorkspaceEntry[];
+  // More entries existed than maxEntries
+  truncated: boolean;
+}
+
+// Listed but never descended into
+const SKIPPED_DIRECTORIES = new Set([".git", "node_modules"]);
+
+// Symlinks followed when checking a dangling link's target
+const MAX_SYMLINK_HOPS = 40;
+
+// Exit codes of the container-side path checks
+const EXIT_NOT_FOUND = 3;
+const EXIT_SYMLINK = 4;
+const EXIT_NOT_A_FILE = 5;
+const EXIT_NOT_A_DIRECTORY = 6;
+
+/**
+ * Resolve a tool path inside the workspace
+ * Accepts paths relative to the workspace and absolute paths under the
+ * sandbox workdir; rejects anything that normalizes to outside the root
+ */
+export function resolveWorkspacePath(path: string): WorkspacePath {
+  if (typeof path !== "string" || path.trim() === "" || path.includes("\0")) {
+    throw new WorkspaceError("invalid_path", String(path), "Path must be a non-empty string");
+  }
+
+  const workdir = posix.normalize(getExecBackend().workdir);
+  let relativePath: string;
+
+  if (posix.isAbsolute(path) || isAbsolute(path)) {
+    const normalized = posix.normalize(path);
+    if (normalized !== workdir && !normalized.startsWith(workdir + "/")) {
+      throw new WorkspaceError(
+        "outside_workspace",
+        path,
+        `Absolute paths must be inside ${workdir}; use a path relative to the workspace`
+      );
+    }
+    relativePath = posix.relative(workdir, normalized);
+  } else {
+    relativePath = posix.normalize(path.replace(/\\/g, "/"));
+  }
+
+  relativePath = relativePath === "." ? "" : relativePath.replace(/\/+$/, "");
+
+  if (relativePath === ".." || relativePath.startsWith("../")) {
+    throw new WorkspaceError("outside_workspace", path, `Path escapes the workspace: ${path}`);
+  }
+
+  return {
+    relative: relativePath,
+    hostPath: resolve(config.workspace.hostDir, relativePath),
+    containerPath: relativePath ? posix.join(workdir, relativePath) : workdir,
+  };
+}
+
+/**
+ * Read a workspace file as UTF-8 text
+ */
+export async function readWorkspaceFile(path: string, sessionId?: string): Promise<string> {
+  const target = resolveWorkspacePath(path);
+
+  if (config.workspace.fileIo === "container") {
+    return readInContainer(requireSession(sessionId), path, target);
+  }
+
+  assertNoSymlinkEscape(path, target.hostPath);
+
+  if (!existsSync(target.hostPath)) {
+    throw new WorkspaceError("not_found", path, `File not found: ${path}`);
+  }
+  if (!statSync(target.hostPath).isFile()) {
+    throw new WorkspaceError("not_a_file", path, `Not a file: ${path}`);
+  }
+
+  return readFileSync(target.hostPath, "utf-8");
+}
+
+/**
+ * Write a workspace file, creating parent directories as needed
+ */
+export async function writeWorkspaceFile(path: string, content: string, sessionId?: string): Promise<WorkspacePath> {
+  const target = resolveWorkspacePath(path);
+
+  if (!target.relative) {
+    throw new WorkspaceError("not_a_file", path, "Cannot write to the workspace root");
+  }
+
+  if (config.workspace.fileIo === "container") {
+    await writeInContainer(requireSession(sessionId), path, target, content);
+    return target;
+  }
+
+  // Checked before mkdir, so directories are only ever created inside the root
+  assertNoSymlinkEscape(path, target.hostPath);
+
+  if (existsSync(target.hostPath) && !statSync(target.hostPath).isFile()) {
+    throw new WorkspaceError("not_a_file", path, `Not a file: ${path}`);
+  }
+
+  mkdirSync(dirname(target.hostPath), { recursive: true });
+  writeFileSync(target.hostPath, content, "utf-8");
+
+  return target;
+}
+
+/**
+ * Delete a workspace file (a symlink is removed, not its target)
+ */
+export async function deleteWorkspaceFile(path: string, sessionId?: string): Promise<WorkspacePath> {
+  const target = resolveWorkspacePath(path);
+
+  if (config.workspace.fileIo === "container") {
+    await deleteInContainer(requireSession(sessionId), path, target);
+    return target;
+  }
+
+  assertNoSymlinkEscape(path, dirname(target.hostPath));
+
+  if (!pathExists(target.hostPath)) {
+    throw new WorkspaceError("not_found", path, `File not found: ${path}`);
+  }
+  const stats = lstatSync(target.hostPath);
+  if (!stats.isFile() && !stats.isSymbolicLink()) {
+    throw new WorkspaceError("not_a_file", path, `Not a file: ${path}`);
+  }
+
+  unlinkSync(target.hostPath);
+  return target;
+}
+
+/**
+ * Move a workspace file over another path, replacing any file there
+ * On the host (and in the sandbox, with mv) this is a single rename, so
+ * readers see either the old file or the new one
+ */
+export async function renameWorkspaceFile(from: string, to: string, sessionId?: string): Promise<WorkspacePath> {
+  const source = resolveWorkspacePath(from);
+  const target = resolveWorkspacePath(to);
+
+  if (!target.relative) {
+    throw new WorkspaceError("not_a_file", to, "Cannot write to the workspace root");
+  }
+
+  if (config.workspace.fileIo === "container") {
+    await renameInContainer(requireSession(sessionId), from, source, to, target);
+    return target;
+  }
+
+  assertNoSymlinkEscape(from, dirname(source.hostPath));
+  assertNoSymlinkEscape(to, target.hostPath);
+
+  if (!pathExists(source.hostPath)) {
+    throw new WorkspaceError("not_found", from, `File not found: ${from}`);
+  }
+  if (existsSync(target.hostPath) && !statSync(target.hostPath).isFile()) {
+    throw new WorkspaceError("not_a_file", to, `Not a file: ${to}`);
+  }
+
+  mkdirSync(dirname(target.hostPath), { recursive: true });
+  renameSync(source.hostPath, target.hostPath);
+
+  return target;
+}
+
+/**
+ * List a workspace directory recursively, sorted by path
+ * Symlinks are listed but not followed; .git and node_modules are listed
+ * but not descended into
+ */
+export async function listWorkspace(
+  path: string,
+  options: { maxDepth: number; maxEntries: number },
+  sessionId?: string
+): Promise<WorkspaceListing> {
+  const target = resolveWorkspacePath(path);
+
+  const entries = config.workspace.fileIo === "container"
+    ? await listInContainer(requireSession(sessionId), path, target, options)
+    : listOnHost(path, target, options);
+
+  entries.sort((a, b) => a.path.localeCompare(b.path));
+
+  return {
+    entries: entries.slice(0, options.maxEntries),
+    truncated: entries.length > options.maxEntries,
+  };
+}
+
+/**
+ * Convert a glob to a regex over workspace-relative paths
+ * Supports *, **, ?, [...] and {a,b}; a pattern without "/" matches the
+ * file name in any directory
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern.includes("/") ? pattern.replace(/^\.\//, "") : `**/${pattern}`;
+  let regex = "";
+  let groupDepth = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === "*") {
+      if (source[i + 1] === "*") {
+        i++;
+        if (source[i + 1] === "/") {
+          // "**/" matches zero or more directories
+          i++;
+          regex += "(?:.*/)?";
+        } else {
+          regex += ".*";
+        }
+      } else {
+        regex += "[^/]*";
+      }
+    } else if (char === "?") {
+      regex += "[^/]";
+    } else if (char === "[" && source.indexOf("]", i + 1) !== -1) {
+      const end = source.indexOf("]", i + 1);
+      const body = source.slice(i + 1, end).replace(/\\/g, "\\\\");
+      regex += body.startsWith("!") ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = end;
+    } else if (char === "{") {
+      groupDepth++;
+      regex += "(?:";
+    } else if (char === "}" && groupDepth > 0) {
+      groupDepth--;
+      regex += ")";
+    } else if (char === "," && groupDepth > 0) {
+      regex += "|";
+    } else {
+      regex += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Reject host paths that a symlink redirects outside the workspace
+ * Checks the real path of the deepest existing ancestor; a dangling symlink
+ * is followed to its target, since writing through it would create that target
+ */
+function assertNoSymlinkEscape(path: string, hostPath: string, hops: number = 0): void {
+  const root = realpathSync(config.workspace.hostDir);
+
+  let existing = hostPath;
+  while (!pathExists(existing)) {
+    existing = dirname(existing);
+  }
+
+  let real: string;
+  try {
+    real = realpathSync(existing);
+  } catch {
+    // lstat succeeded but the link can't be resolved: a dangling symlink
+    if (hops >= MAX_SYMLINK_HOPS) {
+      throw new WorkspaceError("symlink_escape", path, `Too many levels of symbolic links: ${path}`);
+    }
+    const linkTarget = resolve(dirname(existing), readlinkSync(existing));
+    assertNoSymlinkEscape(path, linkTarget, hops + 1);
+    return;
+  }
+
+  if (!isWithin(root, real)) {
+    logger.warn({ path, real, root }, "Blocked symlink escape from workspace");
+    throw new WorkspaceError("symlink_escape", path, `Path resolves outside the workspace through a symlink: ${path}`);
+  }
+}
+
+function pathExists(path: string): boolean {
+  try {
+    lstatSync(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isWithin(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel === "" || (!rel.startsWith(".." + sep) && rel !== ".." && !isAbsolute(rel));
+}
+
+/**
+ * Walk a host directory depth-first without following symlinks
+ * Stops collecting one entry past maxEntries so callers can report truncation
+ */
+function listOnHost(
+  path: string,
+  target: WorkspacePath,
+  options: { maxDepth: number; maxEntries: number }
+): WorkspaceEntry[] {
+  assertNoSymlinkEscape(path, target.hostPath);
+
+  if (!existsSync(target.hostPath)) {
+    throw new WorkspaceError("not_found", path, `Directory not found: ${path}`);
+  }
+  if (!statSync(target.hostPath).isDirectory()) {
+    throw new WorkspaceError("not_a_directory", path, `Not a directory: ${path}`);
+  }
+
+  const entries: WorkspaceEntry[] = [];
+
+  const walk = (dir: string, relativeDir: string, depth: number) => {
+    const children = readdirSync(dir, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const child of children) {
+      if (entries.length > options.maxEntries) {
+        return;
+      }
+
+      const childPath = relativeDir ? `${relativeDir}/${child.name}` : child.name;
+      const hostPath = resolve(dir, child.name);
+      const type = child.isSymbolicLink() ? "symlink"
+        : child.isDirectory() ? "directory"
+        : child.isFile() ? "file"
+        : "other";
+
+      entries.push({ path: childPath, type, size: type === "file" ? lstatSync(hostPath).size : 0, depth });
+
+      if (type === "directory" && depth < options.maxDepth && !SKIPPED_DIRECTORIES.has(child.name)) {
+        walk(hostPath, childPath, depth + 1);
+      }
+    }
+  };
+
+  walk(target.hostPath, target.relative, 1);
+  return entries;
+}
+
+/**
+ * Container I/O runs in the calling session's container
+ */
+function requireSession(sessionId: string | undefined): string {
+  if (!sessionId) {
+    throw new Error("FILE_IO_MODE=container needs a session to run file operations in");
+  }
+  return sessionId;
+}
+
+/**
+ * Read a file through the sandbox: resolve it there and check the real
+ * path is still under the workdir, then have the backend read that path
+ * Paths passed to the sandbox are absolute, so no "--" is needed
+ * (busybox tools don't all accept it)
+ */
+async function readInContainer(sessionId: string, path: string, target: WorkspacePath): Promise<string> {
+  const script = [
+    `W=$(realpath ${shellQuote(getExecBackend().workdir)})`,
+    `[ -e ${shellQuote(target.containerPath)} ] || exit ${EXIT_NOT_FOUND}`,
+    `R=$(realpath ${shellQuote(target.containerPath)}) || exit ${EXIT_NOT_FOUND}`,
+    `case "$R" in "$W"|"$W"/*) ;; *) exit ${EXIT_SYMLINK} ;; esac`,
+    `[ -f "$R" ] || exit ${EXIT_NOT_A_FILE}`,
+    `printf '%s' "$R"`,
+  ].join("\n");
+
+  const backend = getExecBackend();
+  const result = await backend.exec(sessionId, script);
+  throwForContainerExit(path, result.exitCode, result.stderr);
+
+  return backend.readFile(sessionId, result.stdout);
+}
+
+/**
+ * Shell lines that confine a directory about to be created: the deepest
+ * part of it that exists must resolve under the workdir ($W) before mkdir
+ * runs, so a symlinked directory can't get directories created outside
+ */
+function confineNewDirectory(dir: string): string[] {
+  return [
+    `A=${shellQuote(dir)}`,
+    `while [ ! -e "$A" ] && [ ! -L "$A" ]; do A=$(dirname "$A"); done`,
+    `[ -L "$A" ] && [ ! -e "$A" ] && exit ${EXIT_SYMLINK}`,
+    `A=$(realpath "$A") || exit 1`,
+    `case "$A" in "$W"|"$W"/*) ;; *) exit ${EXIT_SYMLINK} ;; esac`,
+  ];
+}
+
+/**
+ * Write a file through the sandbox. The parent directory is confined before
+ * it is created and its real path checked again after; an existing symlink
+ * at the target is refused
+ */
+async function writeInContainer(sessionId: string, path: string, target: WorkspacePath, content: string): Promise<void> {
+  const dir = posix.dirname(target.containerPath);
+  const name = posix.basename(target.containerPath);
+
+  const prepare = [
+    `W=$(realpath ${shellQuote(getExecBackend().workdir)})`,
+    ...confineNewDirectory(dir),
+    `mkdir -p ${shellQuote(dir)} || exit 1`,
+    `D=$(realpath ${shellQuote(dir)}) || exit 1`,
+    `case "$D" in "$W"|"$W"/*) ;; *) exit ${EXIT_SYMLINK} ;; esac`,
+    `[ -L "$D"/${shellQuote(name)} ] && exit ${EXIT_SYMLINK}`,
+    `[ -e "$D"/${shellQuote(name)} ] && [ ! -f "$D"/${shellQuote(name)} ] && exit ${EXIT_NOT_A_FILE}`,
+    `printf '%s' "$D"/${shellQuote(name)}`,
+  ].join("\n");
+
+  const backend = getExecBackend();
+  const prepared = await backend.exec(sessionId, prepare);
+  throwForContainerExit(path, prepared.exitCode, prepared.stderr);
+
+  // The directory is verified now; write to its real path
+  await backend.writeFile(sessionId, prepared.stdout, content);
+}
+
+/**
+ * List a directory through the container with find and stat
+ * Output lines are "<type>|<size>|<path relative to the directory>"
+ */
+async function listInContainer(
+  sessionId: string,
+  path: string,
+  target: WorkspacePath,
+  options: { maxDepth: number; maxEntries: number }
+): Promise<WorkspaceEntry[]> {
+  const skipped = [...SKIPPED_DIRECTORIES].map(name => `-name ${shellQuote(name)}`).join(" -o ");
+  const script = [
+    `W=$(realpath ${shellQuote(getExecBackend().workdir)})`,
+    `[ -e ${shellQuote(target.containerPath)} ] || exit ${EXIT_NOT_FOUND}`,
+    `R=$(realpath ${shellQuote(target.containerPath)}) || exit ${EXIT_NOT_FOUND}`,
+    `case "$R" in "$W"|"$W"/*) ;; *) exit ${EXIT_SYMLINK} ;; esac`,
+    `[ -d "$R" ] || exit ${EXIT_NOT_A_DIRECTORY}`,
+    `cd "$R" || exit 1`,
+    `find . -mindepth 1 -maxdepth ${options.maxDepth} \\( -type d \\( ${skipped} \\) -prune -exec stat -c '%F|%s|%n' {} + \\) -o -exec stat -c '%F|%s|%n' {} + | head -n ${options.maxEntries + 1}`,
+  ].join("\n");
+
+  const result = await getExecBackend().exec(sessionId, script);
+  throwForContainerExit(path, result.exitCode, result.stderr);
+
+  return result.stdout
+    .split("\n")
+    .filter(line => line.trim())
+    .map(line => {
+      const [kind, size, ...rest] = line.split("|");
+      const relativePath = rest.join("|").replace(/^\.\//, "");
+      const type = kind === "directory" ? "directory"
+        : kind === "symbolic link" ? "symlink"
+        : kind.startsWith("regular") ? "file"
+        : "other";
+
+      return {
+        path: target.relative ? `${target.relative}/${relativePath}` : relativePath,
+        type,
+        size: type === "file" ? Number(size) || 0 : 0,
+        depth: relativePath.split("/").length,
+      };
+    });
+}
+
+/**
+ * Delete a file through the container, checking its directory's real path
+ */
+async function deleteInContainer(sessionId: string, path: string, target: WorkspacePath): Promise<void> {
+  const dir = posix.dirname(target.containerPath);
+  const name = posix.basename(target.containerPath);
+
+  const script = [
+    `W=$(realpath ${shellQuote(getExecBackend().workdir)})`,
+    `D=$(realpath ${shellQuote(dir)}) || exit ${EXIT_NOT_FOUND}`,
+    `case "$D" in "$W"|"$W"/*) ;; *) exit ${EXIT_SYMLINK} ;; esac`,
+    `[ -e "$D"/${shellQuote(name)} ] || [ -L "$D"/${shellQuote(name)} ] || exit ${EXIT_NOT_FOUND}`,
+    `[ -d "$D"/${shellQuote(name)} ] && [ ! -L "$D"/${shellQuote(name)} ] && exit ${EXIT_NOT_A_FILE}`,
+    `rm -f "$D"/${shellQuote(name)}`,
+  ].join("\n");
+
+  const result = await getExecBackend().exec(sessionId, script);
+  throwForContainerExit(path, result.exitCode, result.stderr);
+}
+
+/**
+ * Rename a file through the container, checking both directories' real paths
+ */
+async function renameInContainer(
+  sessionId: string,
+  from: string,
+  source: WorkspacePath,
+  to: string,
+  target: WorkspacePath
+): Promise<void> {
+  const sourceName = posix.basename(source.containerPath);
+  const targetDir = posix.dirname(target.containerPath);
+  const targetName = posix.basename(target.containerPath);
+
+  const checkSource = [
+    `W=$(realpath ${shellQuote(getExecBackend().workdir)})`,
+    `S=$(realpath ${shellQuote(posix.dirname(source.containerPath))}) || exit ${EXIT_NOT_FOUND}`,
+    `case "$S" in "$W"|"$W"/*) ;; *) exit ${EXIT_SYMLINK} ;; esac`,
+    `[ -f "$S"/${shellQuote(sourceName)} ] || exit ${EXIT_NOT_FOUND}`,
+  ].join("\n");
+  const result = await getExecBackend().exec(sessionId, checkSource);
+  throwForContainerExit(from, result.exitCode, result.stderr);
+
+  const move = [
+    `W=$(realpath ${shellQuote(getExecBackend().workdir)})`,
+    `S=$(realpath ${shellQuote(posix.dirname(source.containerPath))}) || exit ${EXIT_NOT_FOUND}`,
+    ...confineNewDirectory(targetDir),
+    `mkdir -p ${shellQuote(targetDir)} || exit 1`,
+    `D=$(realpath ${shellQuote(targetDir)}) || exit 1`,
+    `case "$D" in "$W"|"$W"/*) ;; *) exit ${EXIT_SYMLINK} ;; esac`,
+    `[ -L "$D"/${shellQuote(targetName)} ] && exit ${EXIT_SYMLINK}`,
+    `[ -e "$D"/${shellQuote(targetName)} ] && [ ! -f "$D"/${shellQuote(targetName)} ] && exit ${EXIT_NOT_A_FILE}`,
+    `mv -f "$S"/${shellQuote(sourceName)} "$D"/${shellQuote(targetName)}`,
+  ].join("\n");
+  const moved = await getExecBackend().exec(sessionId, move);
+  throwForContainerExit(to, moved.exitCode, moved.stderr);
+}
+
+function throwForContainerExit(path: string, exitCode: number, stderr: string): void {
+  switch (exitCode) {
+    case 0:
+      return;
+    case EXIT_NOT_FOUND:
+      throw new WorkspaceError("not_found", path, `File not found: ${path}`);
+    case EXIT_SYMLINK:
+      throw new WorkspaceError("symlink_escape", path, `Path resolves outside the workspace through a symlink: ${path}`);
+    case EXIT_NOT_A_FILE:
+      throw new WorkspaceError("not_a_file", path, `Not a file: ${path}`);
+    case EXIT_NOT_A_DIRECTORY:
+      throw new WorkspaceError("not_a_directory", path, `Not a directory: ${path}`);
+    default:
+      throw new Error(stderr.trim() || `Container file operation failed with exit code ${exitCode}`);
+  }
+}
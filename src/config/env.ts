@@ -1,18 +1,80 @@
 import { z } from "zod";
 import { logger } from "../utils/logger.js";
 import { mkdirSync } from "fs";
+import { join, resolve } from "path";
+import { tmpdir } from "os";
+import { fileURLToPath } from "url";
 
 const envSchema = z.object({
-  VERCEL_GATEWAY_KEY: z.string().min(1, "VERCEL_GATEWAY_KEY is required"),
+  MODEL_PROVIDER: z.enum(["gateway", "openai-compatible", "mock"]).default("gateway"),
+  VERCEL_GATEWAY_KEY: z.string().optional(),
+  OPENAI_BASE_URL: z.string().url().optional(),
+  OPENAI_API_KEY: z.string().optional(),
+  MOCK_FIXTURE_PATH: z.string().default("./tests/fixtures/mock-model.json"),
   DB_PATH: z.string().default("./runable.sqlite"),
   MODEL: z.string().default("anthropic/claude-sonnet-4.5"),
   MAX_TOKENS: z.coerce.number().default(200_000),
   MAX_SUMMARY_LENGTH: z.coerce.number().default(8000),
-  KEEP_RECENT_MESSAGES: z.coerce.number().default(20),
+  COMPACTION_MODEL: z.string().optional(),
+  COMPACTION_MAX_OUTPUT_TOKENS: z.coerce.number().min(256).default(4000),
+  COMPACTION_TEMPERATURE: z.coerce.number().min(0).max(2).default(0),
+  COMPACTION_CHUNK_TOKENS: z.coerce.number().min(1000).default(32_000),
+  KEEP_RECENT_PERCENT: z.coerce.number().min(0).max(100).default(25),
   COMPACT_AT_PERCENT: z.coerce.number().min(0).max(100).default(75),
-  DOCKER_IMAGE: z.string().default("node:20-alpine"),
+  OUTPUT_RESERVE_TOKENS: z.coerce.number().min(0).default(4096),
+  // Prebuilt sandbox image; unset builds DOCKER_DOCKERFILE instead
+  DOCKER_IMAGE: z.string().optional(),
+  DOCKER_DOCKERFILE: z.string().optional(),
   DOCKER_WORKDIR: z.string().default("/workspace"),
+  // Per-session container limits; unset means Docker's default (unlimited)
+  DOCKER_CPUS: z.coerce.number().positive().optional(),
+  DOCKER_MEMORY_MB: z.coerce.number().int().min(64).optional(),
+  DOCKER_PIDS_LIMIT: z.coerce.number().int().min(16).optional(),
+  DOCKER_NETWORK: z.enum(["none", "bridge", "allowlist"]).default("bridge"),
+  // Hosts, IPs or CIDRs reachable in allowlist mode, e.g. "registry.npmjs.org,pypi.org"
+  DOCKER_NETWORK_ALLOWLIST: z.string().default("").transform(value =>
+    value.split(",").map(item => item.trim()).filter(Boolean)
+  ),
+  DOCKER_READ_ONLY: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+  // Containers of sessions idle this long are stopped; 0 disables the reaper
+  DOCKER_IDLE_TIMEOUT_MINUTES: z.coerce.number().min(0).default(30),
+  // Checkpoints at which a session's container is committed to a snapshot image, e.g. "turn,compaction"; empty disables
+  DOCKER_SNAPSHOT_ON: z.string().default("turn,compaction").transform((value, ctx) => {
+    const triggers = value.split(",").map(item => item.trim()).filter(Boolean);
+    for (const trigger of triggers) {
+      if (trigger !== "turn" && trigger !== "compaction") {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid snapshot trigger "${trigger}" (expected turn or compaction)` });
+        return z.NEVER;
+      }
+    }
+    return triggers as ("turn" | "compaction")[];
+  }),
+  WORKSPACE_DIR: z.string().optional(),
+  EXEC_BACKEND: z.enum(["docker", "local", "fake"]).default("docker"),
+  LOCAL_ISOLATION: z.enum(["auto", "bwrap", "unshare", "none"]).default("auto"),
+  FILE_IO_MODE: z.enum(["host", "container"]).default("host"),
+  APPROVAL_POLICY_PATH: z.string().optional(),
+  TOOL_OUTPUT_MAX_CHARS: z.coerce.number().min(1000).default(20_000),
+  // Per-tool overrides, e.g. "run_shell=8000,read_file=40000"
+  TOOL_OUTPUT_MAX_CHARS_BY_TOOL: z.string().default("").transform((value, ctx) => {
+    const limits: Record<string, number> = {};
+    for (const pair of value.split(",").map(item => item.trim()).filter(Boolean)) {
+      const [name, limit] = pair.split("=").map(item => item.trim());
+      if (!name || !Number.isInteger(Number(limit)) || Number(limit) < 1000) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid tool output limit "${pair}" (expected tool=chars, at least 1000)` });
+        return z.NEVER;
+      }
+      limits[name] = Number(limit);
+    }
+    return limits;
+  }),
   LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).default("info"),
+}).superRefine((env, ctx) => {
+  // Provider credentials are checked when a model is first created (see
+  // provider.ts), so modes that never call a model run without them
+  if (env.DOCKER_NETWORK === "allowlist" && env.DOCKER_NETWORK_ALLOWLIST.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["DOCKER_NETWORK_ALLOWLIST"], message: "DOCKER_NETWORK_ALLOWLIST is required when DOCKER_NETWORK=allowlist" });
+  }
 });
 
 /**
@@ -21,15 +83,40 @@ const envSchema = z.object({
  */
 function loadEnv() {
   const rawEnv = {
+    MODEL_PROVIDER: process.env.MODEL_PROVIDER,
     VERCEL_GATEWAY_KEY: process.env.VERCEL_GATEWAY_KEY,
+    OPENAI_BASE_URL: process.env.OPENAI_BASE_URL,
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    MOCK_FIXTURE_PATH: process.env.MOCK_FIXTURE_PATH,
     DB_PATH: process.env.DB_PATH,
     MODEL: process.env.MODEL,
     MAX_TOKENS: process.env.MAX_TOKENS,
     MAX_SUMMARY_LENGTH: process.env.MAX_SUMMARY_LENGTH,
-    KEEP_RECENT_MESSAGES: process.env.KEEP_RECENT_MESSAGES,
+    COMPACTION_MODEL: process.env.COMPACTION_MODEL,
+    COMPACTION_MAX_OUTPUT_TOKENS: process.env.COMPACTION_MAX_OUTPUT_TOKENS,
+    COMPACTION_TEMPERATURE: process.env.COMPACTION_TEMPERATURE,
+    COMPACTION_CHUNK_TOKENS: process.env.COMPACTION_CHUNK_TOKENS,
+    KEEP_RECENT_PERCENT: process.env.KEEP_RECENT_PERCENT,
     COMPACT_AT_PERCENT: process.env.COMPACT_AT_PERCENT,
+    OUTPUT_RESERVE_TOKENS: process.env.OUTPUT_RESERVE_TOKENS,
     DOCKER_IMAGE: process.env.DOCKER_IMAGE,
+    DOCKER_DOCKERFILE: process.env.DOCKER_DOCKERFILE,
     DOCKER_WORKDIR: process.env.DOCKER_WORKDIR,
+    DOCKER_CPUS: process.env.DOCKER_CPUS,
+    DOCKER_MEMORY_MB: process.env.DOCKER_MEMORY_MB,
+    DOCKER_PIDS_LIMIT: process.env.DOCKER_PIDS_LIMIT,
+    DOCKER_NETWORK: process.env.DOCKER_NETWORK,
+    DOCKER_NETWORK_ALLOWLIST: process.env.DOCKER_NETWORK_ALLOWLIST,
+    DOCKER_READ_ONLY: process.env.DOCKER_READ_ONLY,
+    DOCKER_IDLE_TIMEOUT_MINUTES: process.env.DOCKER_IDLE_TIMEOUT_MINUTES,
+    DOCKER_SNAPSHOT_ON: process.env.DOCKER_SNAPSHOT_ON,
+    WORKSPACE_DIR: process.env.WORKSPACE_DIR,
+    EXEC_BACKEND: process.env.EXEC_BACKEND,
+    LOCAL_ISOLATION: process.env.LOCAL_ISOLATION,
+    FILE_IO_MODE: process.env.FILE_IO_MODE,
+    APPROVAL_POLICY_PATH: process.env.APPROVAL_POLICY_PATH,
+    TOOL_OUTPUT_MAX_CHARS: process.env.TOOL_OUTPUT_MAX_CHARS,
+    TOOL_OUTPUT_MAX_CHARS_BY_TOOL: process.env.TOOL_OUTPUT_MAX_CHARS_BY_TOOL,
     LOG_LEVEL: process.env.LOG_LEVEL,
   };
 
@@ -47,33 +134,105 @@ const env = loadEnv();
 
 export const config = {
   logLevel: env.LOG_LEVEL,
-  apiKey: env.VERCEL_GATEWAY_KEY,
   model: env.MODEL,
+
+  // Model provider
+  provider: {
+    name: env.MODEL_PROVIDER,
+    gatewayApiKey: env.VERCEL_GATEWAY_KEY,
+    openaiBaseUrl: env.OPENAI_BASE_URL,
+    openaiApiKey: env.OPENAI_API_KEY,
+    // Scripted responses replayed by the mock provider
+    mockFixturePath: env.MOCK_FIXTURE_PATH,
+  },
   dbPath: env.DB_PATH,
   maxTokens: env.MAX_TOKENS,
   maxSummaryLength: env.MAX_SUMMARY_LENGTH,
-  keepRecentMessages: env.KEEP_RECENT_MESSAGES,
+
+  // Summarization model; defaults to the conversation model
+  compaction: {
+    model: env.COMPACTION_MODEL ?? env.MODEL,
+    maxOutputTokens: env.COMPACTION_MAX_OUTPUT_TOKENS,
+    temperature: env.COMPACTION_TEMPERATURE,
+  },
+
+  // Max message tokens per compaction call; larger inputs are summarized in chunks
+  compactionChunkTokens: env.COMPACTION_CHUNK_TOKENS,
+  // Token budget for recent messages kept verbatim through a compaction
+  keepRecentTokens: Math.floor(env.MAX_TOKENS * (env.KEEP_RECENT_PERCENT / 100)),
+  keepRecentPercent: env.KEEP_RECENT_PERCENT,
   compactAtTokens: Math.floor(env.MAX_TOKENS * (env.COMPACT_AT_PERCENT / 100)),
   compactAtPercent: env.COMPACT_AT_PERCENT,
+  // Largest prompt we send, leaving room for the response
+  contextBudgetTokens: Math.max(env.MAX_TOKENS - env.OUTPUT_RESERVE_TOKENS, 0),
 
   // Docker
   docker: {
-    image: env.DOCKER_IMAGE,
+    image: env.DOCKER_IMAGE || undefined,
+    // Built into runable-sandbox:<content hash> when no image is set; defaults to the bundled one
+    dockerfile: env.DOCKER_DOCKERFILE
+      ? resolve(env.DOCKER_DOCKERFILE)
+      : fileURLToPath(new URL("../docker/sandbox.Dockerfile", import.meta.url)),
     workdir: env.DOCKER_WORKDIR,
+    cpus: env.DOCKER_CPUS,
+    memoryMb: env.DOCKER_MEMORY_MB,
+    pidsLimit: env.DOCKER_PIDS_LIMIT,
+    // "none" has no network, "bridge" is unrestricted, "allowlist" only reaches networkAllowlist
+    network: env.DOCKER_NETWORK,
+    networkAllowlist: env.DOCKER_NETWORK_ALLOWLIST,
+    // Read-only root filesystem; the workspace mount and /tmp stay writable
+    readOnly: env.DOCKER_READ_ONLY,
+    idleTimeoutMs: env.DOCKER_IDLE_TIMEOUT_MINUTES * 60_000,
+    // When to commit the container so a recreated one keeps installed packages
+    snapshotOn: env.DOCKER_SNAPSHOT_ON,
+  },
+
+  // Where commands run: "docker" (container per session), "local" (subprocess) or "fake" (tests)
+  exec: {
+    backend: env.EXEC_BACKEND,
+    // Local backend sandboxing; "auto" uses bubblewrap, then unshare, then none
+    localIsolation: env.LOCAL_ISOLATION,
+  },
+
+  // Workspace the file tools are confined to
+  workspace: {
+    // Host directory mounted at the Docker workdir: a dedicated ./workspace by
+    // default (a temp directory for local commands), never the agent's own
+    // directory with its .env, database and source; WORKSPACE_DIR opts in to a real project
+    hostDir: resolve(env.WORKSPACE_DIR ?? (env.EXEC_BACKEND === "local" ? join(tmpdir(), "runable-workspace") : "workspace")),
+    // "host" reads/writes the mounted directory directly, "container" goes through the sandbox
+    fileIo: env.FILE_IO_MODE,
+  },
+
+  // Tool call approval rules (JSON); the built-in policy asks before risky commands
+  approval: {
+    policyPath: env.APPROVAL_POLICY_PATH ? resolve(env.APPROVAL_POLICY_PATH) : undefined,
+  },
+
+  // Tool output returned to the model; longer output is cut and saved in full
+  toolOutput: {
+    maxChars: env.TOOL_OUTPUT_MAX_CHARS,
+    maxCharsByTool: env.TOOL_OUTPUT_MAX_CHARS_BY_TOOL,
   },
 } as const;
 
-// Ensure workspace directory exists (process.cwd() is mounted to Docker workdir)
-mkdirSync(process.cwd(), { recursive: true });
+// Ensure workspace directory exists (it is mounted to Docker workdir)
+mkdirSync(config.workspace.hostDir, { recursive: true });
 
 // Type export for the config object
 export type Config = typeof config;
 
 // Log configuration on load (without sensitive data)
 logger.info({
+  provider: config.provider.name,
   model: config.model,
+  compactionModel: config.compaction.model,
   database: config.dbPath,
   maxTokens: config.maxTokens,
   compactAt: `${config.compactAtTokens} (${config.compactAtPercent}%)`,
-  dockerImage: config.docker.image,
+  dockerImage: config.docker.image ?? `built from ${config.docker.dockerfile}`,
+  dockerNetwork: config.docker.network,
+  execBackend: config.exec.backend,
+  workspace: config.workspace.hostDir,
+  fileIo: config.workspace.fileIo,
 }, "Configuration loaded");
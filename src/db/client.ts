@@ -1,7 +1,8 @@
 import Database from "better-sqlite3";
 import { config } from "../config/env.js";
 import { logger } from "../utils/logger.js";
-import { SCHEMA_SQL, type Session, type Message, type Run } from "./schema.js";
+import { SCHEMA_SQL, type Session, type Message, type MessageRole, type Run, type Compaction, type UsageKind, type UsageRecord, type UsageTotals, type ToolOutput, type ApprovalRecord, type RunKind, type RunStatus, type RunToolCall, type RunRecovery, type JournaledToolCall, type SessionDump } from "./schema.js";
+import { markMigrationsApplied } from "./migrations.js";
 import { randomUUID } from "crypto";
 
 let db: Database.Database;
@@ -15,8 +16,15 @@ export function initDB() {
   db = new Database(config.dbPath);
   db.exec("PRAGMA journal_mode = WAL");
   
-  // Run schema creation
-  db.exec(SCHEMA_SQL);
+  // A new database is created at the current schema; the migrations only
+  // bring databases from earlier versions up to it
+  const isNew = !db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'sessions'").get();
+  if (isNew) {
+    db.transaction(() => {
+      db.exec(SCHEMA_SQL);
+      markMigrationsApplied();
+    })();
+  }
   
   logger.info("Database initialized");
   return db;
@@ -55,9 +63,272 @@ export function createSession(metadata?: Record<string, any>): Session {
     summary_text: null,
     last_compacted_at: null,
     metadata_json: metadata ? JSON.stringify(metadata) : null,
+    parent_session_id: null,
+    forked_from_message_id: null,
+  };
+}
+
+/**
+ * Fork a session at a message: the new session gets the summary and a copy
+ * of every message up to and including atMessageId, and records where it
+ * branched off. Both sessions continue independently afterwards
+ */
+export function forkSession(sessionId: string, atMessageId: number): Session {
+  const source = getSession(sessionId);
+  if (!source) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+
+  const atMessage = db.prepare("SELECT id FROM messages WHERE session_id = ? AND id = ?").get(sessionId, atMessageId);
+  if (!atMessage) {
+    throw new Error(`Message ${atMessageId} is not in session ${sessionId}`);
+  }
+
+  const id = randomUUID();
+  const now = Math.floor(Date.now() / 1000);
+  const metadataJson = JSON.stringify({ createdAt: new Date().toISOString(), forkedFrom: sessionId });
+
+  const fork = db.transaction(() => {
+    db.prepare(`
+      INSERT INTO sessions (id, created_at, updated_at, summary_text, last_compacted_at, metadata_json, parent_session_id, forked_from_message_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(id, now, now, source.summary_text, source.last_compacted_at, metadataJson, sessionId, atMessageId);
+
+    // Copies keep their order (and original timestamps) under new ids
+    return db.prepare(`
+      INSERT INTO messages (session_id, role, content, content_json, created_at, token_count)
+      SELECT ?, role, content, content_json, created_at, token_count
+      FROM messages
+      WHERE session_id = ? AND id <= ?
+      ORDER BY id ASC
+    `).run(id, sessionId, atMessageId).changes;
+  });
+  const copied = fork();
+
+  logger.info({ sessionId: id, parentSessionId: sessionId, atMessageId, copiedMessages: copied }, "Forked session");
+
+  return {
+    id,
+    created_at: now,
+    updated_at: now,
+    summary_text: source.summary_text,
+    last_compacted_at: source.last_compacted_at,
+    metadata_json: metadataJson,
+    parent_session_id: sessionId,
+    forked_from_message_id: atMessageId,
   };
 }
 
+/**
+ * Dump a session with its messages, compactions, runs, journaled tool calls
+ * and saved tool outputs, oldest first
+ */
+export function exportSession(sessionId: string): SessionDump | null {
+  const session = getSession(sessionId);
+  if (!session) {
+    return null;
+  }
+
+  return {
+    session,
+    messages: db.prepare("SELECT * FROM messages WHERE session_id = ? ORDER BY id ASC").all(sessionId) as Message[],
+    compactions: db.prepare("SELECT * FROM compactions WHERE session_id = ? ORDER BY id ASC").all(sessionId) as Compaction[],
+    runs: db.prepare("SELECT * FROM runs WHERE session_id = ? ORDER BY id ASC").all(sessionId) as Run[],
+    toolCallJournal: db.prepare("SELECT * FROM tool_call_journal WHERE session_id = ? ORDER BY id ASC").all(sessionId) as JournaledToolCall[],
+    // Including those of tool calls a fork copied from its ancestors
+    toolOutputs: db.prepare(`
+      WITH RECURSIVE lineage(id) AS (
+        SELECT ?
+        UNION ALL
+        SELECT sessions.parent_session_id FROM sessions
+        JOIN lineage ON sessions.id = lineage.id
+        WHERE sessions.parent_session_id IS NOT NULL
+      )
+      SELECT * FROM tool_outputs
+      WHERE session_id IN (SELECT id FROM lineage)
+      ORDER BY rowid ASC
+    `).all(sessionId) as ToolOutput[],
+  };
+}
+
+/**
+ * Recreate a dumped session under a new id, in one transaction
+ * Every row gets a new id and references between them are remapped. Archived
+ * messages get ids too (reserved, then removed again), in their original
+ * order, so rolling back an imported compaction works as it did before.
+ * The fork link is kept only if the parent session exists here
+ */
+export function importSession(dump: SessionDump): Session {
+  const id = randomUUID();
+  const now = Math.floor(Date.now() / 1000);
+  const parent = dump.session.parent_session_id ? getSession(dump.session.parent_session_id) : null;
+
+  let metadata: Record<string, any> = {};
+  try {
+    metadata = JSON.parse(dump.session.metadata_json ?? "{}") ?? {};
+  } catch {
+    // Unreadable metadata is replaced
+  }
+  const metadataJson = JSON.stringify({ ...metadata, importedFrom: dump.session.id, importedAt: new Date().toISOString() });
+
+  const session: Session = {
+    ...dump.session,
+    id,
+    metadata_json: metadataJson,
+    parent_session_id: parent ? parent.id : null,
+    forked_from_message_id: parent ? dump.session.forked_from_message_id : null,
+  };
+
+  const importAll = db.transaction(() => {
+    db.prepare(`
+      INSERT INTO sessions (id, created_at, updated_at, summary_text, last_compacted_at, metadata_json, parent_session_id, forked_from_message_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id,
+      session.created_at,
+      session.updated_at,
+      session.summary_text,
+      session.last_compacted_at,
+      metadataJson,
+      session.parent_session_id,
+      session.forked_from_message_id
+    );
+
+    // Live and archived messages by old id (a message archived, rolled back
+    // and archived again appears more than once)
+    const byOldId = new Map<number, Message>();
+    for (const compaction of dump.compactions) {
+      for (const msg of JSON.parse(compaction.archived_messages_json) as Message[]) {
+        byOldId.set(msg.id, msg);
+      }
+    }
+    for (const msg of dump.messages) {
+      byOldId.set(msg.id, msg);
+    }
+
+    const insertMessage = db.prepare(`
+      INSERT INTO messages (session_id, role, content, content_json, created_at, token_count)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const messageIds = new Map<number, number>();
+    for (const msg of [...byOldId.values()].sort((a, b) => a.id - b.id)) {
+      const info = insertMessage.run(id, msg.role, msg.content, msg.content_json ?? null, msg.created_at, msg.token_count);
+      messageIds.set(msg.id, Number(info.lastInsertRowid));
+    }
+
+    const live = new Set(dump.messages.map(msg => msg.id));
+    const deleteMessage = db.prepare("DELETE FROM messages WHERE id = ?");
+    for (const [oldId, newId] of messageIds) {
+      if (!live.has(oldId)) {
+        deleteMessage.run(newId);
+      }
+    }
+
+    const insertCompaction = db.prepare(`
+      INSERT INTO compactions (
+        session_id, input_summary, output_summary, archived_messages_json,
+        input_tokens, output_tokens, total_tokens, created_at, rolled_back_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const compaction of dump.compactions) {
+      const archived = (JSON.parse(compaction.archived_messages_json) as Message[])
+        .map(msg => ({ ...msg, id: messageIds.get(msg.id)!, session_id: id }));
+      insertCompaction.run(
+        id,
+        compaction.input_summary,
+        compaction.output_summary,
+        JSON.stringify(archived),
+        compaction.input_tokens,
+        compaction.output_tokens,
+        compaction.total_tokens,
+        compaction.created_at,
+        compaction.rolled_back_at
+      );
+    }
+
+    // Turns come before their steps, so parents are mapped first
+    const insertRun = db.prepare(`
+      INSERT INTO runs (
+        session_id, kind, parent_id, step_no, status, error, model,
+        input_tokens, output_tokens, total_tokens, finish_reason, tool_calls_json,
+        duration_ms, created_at, finished_at, message_id, recovery
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const runIds = new Map<number, number>();
+    for (const run of dump.runs) {
+      const info = insertRun.run(
+        id,
+        run.kind,
+        run.parent_id !== null ? runIds.get(run.parent_id) ?? null : null,
+        run.step_no,
+        run.status,
+        run.error,
+        run.model,
+        run.input_tokens,
+        run.output_tokens,
+        run.total_tokens,
+        run.finish_reason,
+        run.tool_calls_json,
+        run.duration_ms,
+        run.created_at,
+        run.finished_at,
+        run.message_id !== null ? messageIds.get(run.message_id) ?? null : null,
+        run.recovery
+      );
+      runIds.set(run.id, Number(info.lastInsertRowid));
+    }
+
+    // Tool call ids are kept, so journaled calls still match their messages
+    const insertJournaledCall = db.prepare(`
+      INSERT INTO tool_call_journal (
+        run_id, session_id, step_no, tool_call_id, tool_name, input_json,
+        output_json, is_error, created_at, finished_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const call of dump.toolCallJournal) {
+      const runId = runIds.get(call.run_id);
+      if (runId === undefined) {
+        continue;
+      }
+      insertJournaledCall.run(
+        runId,
+        id,
+        call.step_no,
+        call.tool_call_id,
+        call.tool_name,
+        call.input_json,
+        call.output_json,
+        call.is_error,
+        call.created_at,
+        call.finished_at
+      );
+    }
+
+    const insertToolOutput = db.prepare(`
+      INSERT OR REPLACE INTO tool_outputs (tool_call_id, field, session_id, tool_name, content, bytes, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const output of dump.toolOutputs) {
+      insertToolOutput.run(output.tool_call_id, output.field, id, output.tool_name, output.content, output.bytes, output.created_at);
+    }
+  });
+  importAll();
+
+  logger.info({
+    sessionId: id,
+    importedFrom: dump.session.id,
+    messages: dump.messages.length,
+    compactions: dump.compactions.length,
+    runs: dump.runs.length,
+    toolOutputs: dump.toolOutputs.length,
+  }, "Imported session");
+
+  return session;
+}
+
 /**
  * Get session by ID
  */
@@ -80,21 +351,24 @@ export function getAllSessions(limit: number = 10): Session[] {
 
 /**
  * Append a message to a session
+ * contentJson holds the serialized content parts for multi-part messages
+ * (tool calls, tool results); content is always a plain-text rendering
  */
 export function appendMessage(
   sessionId: string,
-  role: "user" | "assistant" | "system",
+  role: MessageRole,
   content: string,
-  tokenCount?: number
+  tokenCount?: number,
+  contentJson?: string | null
 ): Message {
   const now = Math.floor(Date.now() / 1000);
   
   const stmt = db.prepare(`
-    INSERT INTO messages (session_id, role, content, created_at, token_count)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO messages (session_id, role, content, content_json, created_at, token_count)
+    VALUES (?, ?, ?, ?, ?, ?)
   `);
   
-  const info = stmt.run(sessionId, role, content, now, tokenCount ?? null);
+  const info = stmt.run(sessionId, role, content, contentJson ?? null, now, tokenCount ?? null);
   
   // Update session's updated_at
   const updateStmt = db.prepare("UPDATE sessions SET updated_at = ? WHERE id = ?");
@@ -107,6 +381,7 @@ export function appendMessage(
     session_id: sessionId,
     role,
     content,
+    content_json: contentJson ?? null,
     created_at: now,
     token_count: tokenCount ?? null,
   };
@@ -119,7 +394,7 @@ export function getRecentMessages(sessionId: string, limit: number = 50): Messag
   const stmt = db.prepare(`
     SELECT * FROM messages 
     WHERE session_id = ? 
-    ORDER BY created_at DESC 
+    ORDER BY created_at DESC, id DESC 
     LIMIT ?
   `);
   
@@ -134,7 +409,7 @@ export function getAllMessages(sessionId: string): Message[] {
   const stmt = db.prepare(`
     SELECT * FROM messages 
     WHERE session_id = ? 
-    ORDER BY created_at ASC
+    ORDER BY created_at ASC, id ASC
   `);
   
   return stmt.all(sessionId) as Message[];
@@ -157,6 +432,23 @@ export function setSummary(sessionId: string, summaryText: string): void {
   logger.info({ sessionId }, "Updated session summary");
 }
 
+/**
+ * Delete a message and every later one from a session
+ * (e.g. an interrupted turn that is discarded)
+ */
+export function deleteMessagesFromId(sessionId: string, fromMessageId: number): number {
+  const stmt = db.prepare(`
+    DELETE FROM messages 
+    WHERE session_id = ? AND id >= ?
+  `);
+
+  const info = stmt.run(sessionId, fromMessageId);
+
+  logger.info({ sessionId, fromMessageId, deletedCount: info.changes }, "Deleted messages");
+
+  return info.changes;
+}
+
 /**
  * Delete old messages from a session (after compaction)
  */
@@ -173,44 +465,454 @@ export function deleteMessagesBeforeId(sessionId: string, beforeMessageId: numbe
   return info.changes;
 }
 
+/**
+ * Record a compaction: archive the compacted messages, remove them from the
+ * session and store the new summary, all in one transaction
+ * Messages with id < beforeMessageId are archived
+ */
+export function recordCompaction(
+  sessionId: string,
+  compaction: {
+    inputSummary: string | null;
+    outputSummary: string;
+    beforeMessageId: number;
+    usage: { inputTokens: number; outputTokens: number; totalTokens: number };
+  }
+): Compaction {
+  const now = Math.floor(Date.now() / 1000);
+
+  const record = db.transaction(() => {
+    const archived = db.prepare(`
+      SELECT * FROM messages 
+      WHERE session_id = ? AND id < ?
+      ORDER BY created_at ASC, id ASC
+    `).all(sessionId, compaction.beforeMessageId) as Message[];
+
+    const info = db.prepare(`
+      INSERT INTO compactions (
+        session_id, input_summary, output_summary, archived_messages_json,
+        input_tokens, output_tokens, total_tokens, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      sessionId,
+      compaction.inputSummary,
+      compaction.outputSummary,
+      JSON.stringify(archived),
+      compaction.usage.inputTokens,
+      compaction.usage.outputTokens,
+      compaction.usage.totalTokens,
+      now
+    );
+
+    deleteMessagesBeforeId(sessionId, compaction.beforeMessageId);
+    setSummary(sessionId, compaction.outputSummary);
+
+    return {
+      id: Number(info.lastInsertRowid),
+      session_id: sessionId,
+      input_summary: compaction.inputSummary,
+      output_summary: compaction.outputSummary,
+      archived_messages_json: JSON.stringify(archived),
+      input_tokens: compaction.usage.inputTokens,
+      output_tokens: compaction.usage.outputTokens,
+      total_tokens: compaction.usage.totalTokens,
+      created_at: now,
+      rolled_back_at: null,
+    };
+  });
+
+  const result = record();
+  logger.info({ sessionId, compactionId: result.id }, "Recorded compaction");
+  return result;
+}
+
+/**
+ * Get all compactions for a session, newest first
+ */
+export function getCompactions(sessionId: string): Compaction[] {
+  const stmt = db.prepare(`
+    SELECT * FROM compactions 
+    WHERE session_id = ? 
+    ORDER BY id DESC
+  `);
+  
+  return stmt.all(sessionId) as Compaction[];
+}
+
+/**
+ * Roll a session back to its state before the given compaction
+ * Undoes that compaction and every later one: archived messages are restored
+ * with their original ids and the summary reverts to the compaction's input
+ * Returns the number of compactions undone
+ */
+export function rollbackCompaction(sessionId: string, compactionId: number): number {
+  const now = Math.floor(Date.now() / 1000);
+
+  const rollback = db.transaction(() => {
+    const target = db.prepare(`
+      SELECT * FROM compactions 
+      WHERE id = ? AND session_id = ? AND rolled_back_at IS NULL
+    `).get(compactionId, sessionId) as Compaction | undefined;
+
+    if (!target) {
+      throw new Error(`No active compaction ${compactionId} in session ${sessionId}`);
+    }
+
+    const toUndo = db.prepare(`
+      SELECT * FROM compactions 
+      WHERE session_id = ? AND id >= ? AND rolled_back_at IS NULL
+      ORDER BY id DESC
+    `).all(sessionId, compactionId) as Compaction[];
+
+    const insertMessage = db.prepare(`
+      INSERT INTO messages (id, session_id, role, content, content_json, created_at, token_count)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const markRolledBack = db.prepare("UPDATE compactions SET rolled_back_at = ? WHERE id = ?");
+
+    for (const compaction of toUndo) {
+      const archived = JSON.parse(compaction.archived_messages_json) as Message[];
+      for (const msg of archived) {
+        insertMessage.run(
+          msg.id,
+          msg.session_id,
+          msg.role,
+          msg.content,
+          msg.content_json ?? null,
+          msg.created_at,
+          msg.token_count
+        );
+      }
+      markRolledBack.run(now, compaction.id);
+    }
+
+    db.prepare(`
+      UPDATE sessions 
+      SET summary_text = ?, updated_at = ?
+      WHERE id = ?
+    `).run(target.input_summary, now, sessionId);
+
+    return toUndo.length;
+  });
+
+  const undone = rollback();
+  logger.info({ sessionId, compactionId, undone }, "Rolled back compaction");
+  return undone;
+}
+
 /**
  * Create a new run entry
  */
-export function createRun(sessionId: string, stepNo: number): Run {
+export function createRun(
+  sessionId: string,
+  stepNo: number,
+  options: { kind: RunKind; parentId?: number; model?: string }
+): Run {
   const now = Math.floor(Date.now() / 1000);
   
   const stmt = db.prepare(`
-    INSERT INTO runs (session_id, step_no, status, created_at)
-    VALUES (?, ?, 'running', ?)
+    INSERT INTO runs (session_id, kind, parent_id, step_no, status, model, created_at)
+    VALUES (?, ?, ?, ?, 'running', ?, ?)
   `);
   
-  const info = stmt.run(sessionId, stepNo, now);
+  const info = stmt.run(sessionId, options.kind, options.parentId ?? null, stepNo, options.model ?? null, now);
   
   return {
     id: Number(info.lastInsertRowid),
     session_id: sessionId,
+    kind: options.kind,
+    parent_id: options.parentId ?? null,
     step_no: stepNo,
     status: "running",
     error: null,
+    model: options.model ?? null,
+    input_tokens: 0,
+    output_tokens: 0,
+    total_tokens: 0,
+    finish_reason: null,
+    tool_calls_json: null,
+    duration_ms: null,
     created_at: now,
+    finished_at: null,
+    message_id: null,
+    recovery: null,
   };
 }
 
+export interface RunDetails {
+  error?: string;
+  durationMs?: number;
+  usage?: { inputTokens: number; outputTokens: number; totalTokens: number };
+  finishReason?: string;
+  toolCalls?: RunToolCall[];
+  // The user message a turn answers
+  messageId?: number;
+}
+
 /**
- * Update run status
+ * Update run status, and record its outcome once it has finished
+ * Details not given keep their stored value
  */
 export function updateRun(
   runId: number, 
-  status: "running" | "completed" | "failed",
-  error?: string
+  status: RunStatus,
+  details: RunDetails = {}
 ): void {
   const stmt = db.prepare(`
     UPDATE runs 
-    SET status = ?, error = ?
+    SET status = ?,
+      error = COALESCE(?, error),
+      duration_ms = COALESCE(?, duration_ms),
+      input_tokens = COALESCE(?, input_tokens),
+      output_tokens = COALESCE(?, output_tokens),
+      total_tokens = COALESCE(?, total_tokens),
+      finish_reason = COALESCE(?, finish_reason),
+      tool_calls_json = COALESCE(?, tool_calls_json),
+      message_id = COALESCE(?, message_id),
+      finished_at = ?
     WHERE id = ?
   `);
   
-  stmt.run(status, error ?? null, runId);
+  stmt.run(
+    status,
+    details.error ?? null,
+    details.durationMs ?? null,
+    details.usage?.inputTokens ?? null,
+    details.usage?.outputTokens ?? null,
+    details.usage?.totalTokens ?? null,
+    details.finishReason ?? null,
+    details.toolCalls ? JSON.stringify(details.toolCalls) : null,
+    details.messageId ?? null,
+    status === "running" ? null : Math.floor(Date.now() / 1000),
+    runId
+  );
+}
+
+/**
+ * Get a session's most recent turns with their steps, oldest first
+ * (each turn is followed by its steps)
+ */
+export function getRuns(sessionId: string, turnLimit: number = 10): Run[] {
+  const stmt = db.prepare(`
+    SELECT * FROM runs 
+    WHERE session_id = ? AND id >= COALESCE((
+      SELECT MIN(id) FROM (
+        SELECT id FROM runs WHERE session_id = ? AND kind = 'turn' ORDER BY id DESC LIMIT ?
+      )
+    ), 0)
+    ORDER BY COALESCE(parent_id, id), step_no
+  `);
+
+  return stmt.all(sessionId, sessionId, turnLimit) as Run[];
+}
+
+/**
+ * Get a session's latest turn
+ */
+export function getLastTurnRun(sessionId: string): Run | null {
+  const stmt = db.prepare(`
+    SELECT * FROM runs 
+    WHERE session_id = ? AND kind = 'turn'
+    ORDER BY id DESC
+    LIMIT 1
+  `);
+
+  return (stmt.get(sessionId) as Run | undefined) ?? null;
+}
+
+/**
+ * Record how an interrupted turn was dealt with
+ */
+export function setRunRecovery(runId: number, recovery: RunRecovery): void {
+  const stmt = db.prepare("UPDATE runs SET recovery = ? WHERE id = ?");
+  stmt.run(recovery, runId);
+}
+
+/**
+ * Journal a tool call as it starts
+ */
+export function journalToolCall(call: Pick<JournaledToolCall, "run_id" | "session_id" | "step_no" | "tool_call_id" | "tool_name" | "input_json">): void {
+  const stmt = db.prepare(`
+    INSERT INTO tool_call_journal (run_id, session_id, step_no, tool_call_id, tool_name, input_json, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  stmt.run(call.run_id, call.session_id, call.step_no, call.tool_call_id, call.tool_name, call.input_json, Math.floor(Date.now() / 1000));
+}
+
+/**
+ * Journal the result (or error) of a tool call
+ */
+export function journalToolResult(runId: number, toolCallId: string, outputJson: string, isError: boolean): void {
+  const stmt = db.prepare(`
+    UPDATE tool_call_journal 
+    SET output_json = ?, is_error = ?, finished_at = ?
+    WHERE run_id = ? AND tool_call_id = ?
+  `);
+
+  stmt.run(outputJson, isError ? 1 : 0, Math.floor(Date.now() / 1000), runId, toolCallId);
+}
+
+/**
+ * Get the journaled tool calls of a turn, in the order they started
+ */
+export function getJournaledToolCalls(runId: number): JournaledToolCall[] {
+  const stmt = db.prepare(`
+    SELECT * FROM tool_call_journal 
+    WHERE run_id = ?
+    ORDER BY id ASC
+  `);
+
+  return stmt.all(runId) as JournaledToolCall[];
+}
+
+/**
+ * Mark runs left "running" by a process that exited mid-run as interrupted
+ */
+export function markInterruptedRuns(sessionId: string): number {
+  const stmt = db.prepare(`
+    UPDATE runs 
+    SET status = 'interrupted',
+      error = COALESCE(error, 'The agent exited before the run finished'),
+      finished_at = ?
+    WHERE session_id = ? AND status = 'running'
+  `);
+
+  const info = stmt.run(Math.floor(Date.now() / 1000), sessionId);
+  if (info.changes > 0) {
+    logger.info({ sessionId, runs: info.changes }, "Marked unfinished runs as interrupted");
+  }
+  return info.changes;
+}
+
+/**
+ * Record the token usage of model calls
+ * calls is how many model calls the usage sums (e.g. the steps of a turn)
+ */
+export function recordUsage(
+  sessionId: string,
+  kind: UsageKind,
+  model: string,
+  usage: { inputTokens: number; outputTokens: number; totalTokens: number },
+  calls: number = 1
+): UsageRecord {
+  const now = Math.floor(Date.now() / 1000);
+
+  const stmt = db.prepare(`
+    INSERT INTO usage (session_id, kind, model, calls, input_tokens, output_tokens, total_tokens, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const info = stmt.run(sessionId, kind, model, calls, usage.inputTokens, usage.outputTokens, usage.totalTokens, now);
+
+  return {
+    id: Number(info.lastInsertRowid),
+    session_id: sessionId,
+    kind,
+    model,
+    calls,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    total_tokens: usage.totalTokens,
+    created_at: now,
+  };
+}
+
+/**
+ * Get a session's usage totals per kind and model
+ */
+export function getUsageTotals(sessionId: string): UsageTotals[] {
+  const stmt = db.prepare(`
+    SELECT kind, model, SUM(calls) as calls,
+      SUM(input_tokens) as input_tokens,
+      SUM(output_tokens) as output_tokens,
+      SUM(total_tokens) as total_tokens
+    FROM usage
+    WHERE session_id = ?
+    GROUP BY kind, model
+    ORDER BY kind, model
+  `);
+
+  return stmt.all(sessionId) as UsageTotals[];
+}
+
+/**
+ * Save the full output of a tool call
+ */
+export function saveToolOutput(output: Omit<ToolOutput, "created_at">): void {
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO tool_outputs (tool_call_id, field, session_id, tool_name, content, bytes, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  stmt.run(
+    output.tool_call_id,
+    output.field,
+    output.session_id,
+    output.tool_name,
+    output.content,
+    output.bytes,
+    Math.floor(Date.now() / 1000)
+  );
+}
+
+/**
+ * Get the saved outputs of a tool call, in the order they were saved
+ * A fork also sees the outputs of tool calls it copied from its ancestors
+ */
+export function getToolOutputs(sessionId: string, toolCallId: string): ToolOutput[] {
+  const stmt = db.prepare(`
+    WITH RECURSIVE lineage(id) AS (
+      SELECT ?
+      UNION ALL
+      SELECT sessions.parent_session_id FROM sessions
+      JOIN lineage ON sessions.id = lineage.id
+      WHERE sessions.parent_session_id IS NOT NULL
+    )
+    SELECT * FROM tool_outputs 
+    WHERE session_id IN (SELECT id FROM lineage) AND tool_call_id = ?
+    ORDER BY rowid ASC
+  `);
+
+  return stmt.all(sessionId, toolCallId) as ToolOutput[];
+}
+
+/**
+ * Record an approval decision on a tool call
+ */
+export function recordApproval(approval: Omit<ApprovalRecord, "id" | "created_at">): void {
+  const stmt = db.prepare(`
+    INSERT INTO approvals (session_id, tool_call_id, tool_name, subject, action, rule, approved, decided_by, reason, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  stmt.run(
+    approval.session_id,
+    approval.tool_call_id,
+    approval.tool_name,
+    approval.subject,
+    approval.action,
+    approval.rule,
+    approval.approved,
+    approval.decided_by,
+    approval.reason,
+    Math.floor(Date.now() / 1000)
+  );
+}
+
+/**
+ * Get a session's approval decisions, newest first
+ */
+export function getApprovals(sessionId: string, limit: number = 20): ApprovalRecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM approvals 
+    WHERE session_id = ?
+    ORDER BY id DESC
+    LIMIT ?
+  `);
+
+  return stmt.all(sessionId, limit) as ApprovalRecord[];
 }
 
 /**
@@ -227,6 +929,14 @@ export function getTotalTokenCount(sessionId: string): number {
   return result.total;
 }
 
+/**
+ * Set the token count of a stored message
+ */
+export function setMessageTokenCount(messageId: number, tokenCount: number): void {
+  const stmt = db.prepare("UPDATE messages SET token_count = ? WHERE id = ?");
+  stmt.run(tokenCount, messageId);
+}
+
 /**
  * Close the database connection
  */
@@ -15,13 +15,235 @@ interface Migration {
  * List of migrations in order
  */
 const migrations: Migration[] = [
-  // Add future migrations here as needed
-  // Example:
-  // {
-  //   id: 1,
-  //   name: "add_user_preferences",
-  //   sql: `ALTER TABLE sessions ADD COLUMN preferences_json TEXT;`,
-  // },
+  {
+    // SQLite can't alter a CHECK constraint, so the table is rebuilt
+    id: 1,
+    name: "add_tool_role_and_content_parts",
+    sql: `
+      CREATE TABLE messages_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        role TEXT NOT NULL CHECK(role IN ('user', 'assistant', 'system', 'tool')),
+        content TEXT NOT NULL,
+        content_json TEXT,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        token_count INTEGER,
+        FOREIGN KEY (session_id) REFERENCES sessions(id)
+      );
+
+      INSERT INTO messages_new (id, session_id, role, content, created_at, token_count)
+        SELECT id, session_id, role, content, created_at, token_count FROM messages;
+
+      DROP TABLE messages;
+      ALTER TABLE messages_new RENAME TO messages;
+
+      CREATE INDEX IF NOT EXISTS idx_messages_session_created 
+        ON messages(session_id, created_at);
+    `,
+  },
+  {
+    id: 2,
+    name: "add_compactions",
+    sql: `
+      CREATE TABLE IF NOT EXISTS compactions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        input_summary TEXT,
+        output_summary TEXT NOT NULL,
+        archived_messages_json TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        total_tokens INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        rolled_back_at INTEGER,
+        FOREIGN KEY (session_id) REFERENCES sessions(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_compactions_session 
+        ON compactions(session_id, created_at);
+    `,
+  },
+  {
+    // Token usage ledger; compaction calls are recorded apart from the conversation
+    id: 3,
+    name: "add_usage",
+    sql: `
+      CREATE TABLE IF NOT EXISTS usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        kind TEXT NOT NULL CHECK(kind IN ('conversation', 'compaction')),
+        model TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        total_tokens INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        FOREIGN KEY (session_id) REFERENCES sessions(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_usage_session 
+        ON usage(session_id, kind);
+    `,
+  },
+  {
+    // Full text of tool outputs that were cut before reaching the model
+    id: 4,
+    name: "add_tool_outputs",
+    sql: `
+      CREATE TABLE IF NOT EXISTS tool_outputs (
+        tool_call_id TEXT NOT NULL,
+        field TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        content TEXT NOT NULL,
+        bytes INTEGER NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        PRIMARY KEY (tool_call_id, field),
+        FOREIGN KEY (session_id) REFERENCES sessions(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_tool_outputs_session 
+        ON tool_outputs(session_id);
+    `,
+  },
+  {
+    // Approval policy decisions on tool calls
+    id: 5,
+    name: "add_approvals",
+    sql: `
+      CREATE TABLE IF NOT EXISTS approvals (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        tool_call_id TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        action TEXT NOT NULL CHECK(action IN ('allow', 'ask', 'deny')),
+        rule TEXT,
+        approved INTEGER NOT NULL CHECK(approved IN (0, 1)),
+        decided_by TEXT NOT NULL CHECK(decided_by IN ('policy', 'user', 'session')),
+        reason TEXT,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        FOREIGN KEY (session_id) REFERENCES sessions(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_approvals_session 
+        ON approvals(session_id, created_at);
+    `,
+  },
+  {
+    // Runs record every turn and model step; rebuilt for the new columns
+    // and statuses (SQLite can't alter a CHECK constraint)
+    id: 6,
+    name: "extend_runs",
+    sql: `
+      CREATE TABLE runs_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        kind TEXT NOT NULL DEFAULT 'step' CHECK(kind IN ('turn', 'step')),
+        parent_id INTEGER,
+        step_no INTEGER NOT NULL,
+        status TEXT NOT NULL CHECK(status IN ('running', 'completed', 'failed', 'aborted', 'interrupted')),
+        error TEXT,
+        model TEXT,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        total_tokens INTEGER NOT NULL DEFAULT 0,
+        finish_reason TEXT,
+        tool_calls_json TEXT,
+        duration_ms INTEGER,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        finished_at INTEGER,
+        FOREIGN KEY (session_id) REFERENCES sessions(id),
+        FOREIGN KEY (parent_id) REFERENCES runs(id)
+      );
+
+      INSERT INTO runs_new (id, session_id, step_no, status, error, created_at)
+        SELECT id, session_id, step_no, status, error, created_at FROM runs;
+
+      DROP TABLE runs;
+      ALTER TABLE runs_new RENAME TO runs;
+
+      CREATE INDEX IF NOT EXISTS idx_runs_session 
+        ON runs(session_id, step_no);
+      CREATE INDEX IF NOT EXISTS idx_runs_parent 
+        ON runs(parent_id);
+    `,
+  },
+  {
+    // Turn journal: the tool calls of each turn as they run, so a turn cut
+    // off by a crash can be resumed without re-running them
+    id: 7,
+    name: "add_tool_call_journal",
+    sql: `
+      ALTER TABLE runs ADD COLUMN message_id INTEGER;
+      ALTER TABLE runs ADD COLUMN recovery TEXT CHECK(recovery IN ('resumed', 'discarded'));
+
+      CREATE TABLE IF NOT EXISTS tool_call_journal (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL,
+        session_id TEXT NOT NULL,
+        step_no INTEGER NOT NULL,
+        tool_call_id TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        input_json TEXT NOT NULL,
+        output_json TEXT,
+        is_error INTEGER NOT NULL DEFAULT 0 CHECK(is_error IN (0, 1)),
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        finished_at INTEGER,
+        FOREIGN KEY (run_id) REFERENCES runs(id),
+        FOREIGN KEY (session_id) REFERENCES sessions(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_tool_call_journal_run 
+        ON tool_call_journal(run_id, id);
+      CREATE INDEX IF NOT EXISTS idx_tool_call_journal_call 
+        ON tool_call_journal(tool_call_id);
+    `,
+  },
+  {
+    // Forked sessions remember where they branched off
+    id: 8,
+    name: "add_session_forks",
+    sql: `
+      ALTER TABLE sessions ADD COLUMN parent_session_id TEXT REFERENCES sessions(id);
+      ALTER TABLE sessions ADD COLUMN forked_from_message_id INTEGER;
+
+      CREATE INDEX IF NOT EXISTS idx_sessions_parent 
+        ON sessions(parent_session_id);
+    `,
+  },
+  {
+    // A usage row covers a whole turn or compaction; count the model calls in it
+    id: 9,
+    name: "add_usage_calls",
+    sql: `
+      ALTER TABLE usage ADD COLUMN calls INTEGER NOT NULL DEFAULT 1;
+    `,
+  },
+  {
+    // Tool call ids are only unique within a session (an imported copy keeps
+    // them), so the session joins the key; SQLite can't alter a primary key
+    id: 10,
+    name: "key_tool_outputs_by_session",
+    sql: `
+      CREATE TABLE tool_outputs_new (
+        tool_call_id TEXT NOT NULL,
+        field TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        content TEXT NOT NULL,
+        bytes INTEGER NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        PRIMARY KEY (session_id, tool_call_id, field),
+        FOREIGN KEY (session_id) REFERENCES sessions(id)
+      );
+
+      INSERT INTO tool_outputs_new (tool_call_id, field, session_id, tool_name, content, bytes, created_at)
+        SELECT tool_call_id, field, session_id, tool_name, content, bytes, created_at FROM tool_outputs ORDER BY rowid;
+
+      DROP TABLE tool_outputs;
+      ALTER TABLE tool_outputs_new RENAME TO tool_outputs;
+    `,
+  },
 ];
 
 /**
@@ -38,6 +260,19 @@ function initMigrationsTable() {
   `);
 }
 
+/**
+ * Record every migration as applied, for a database created at the current
+ * schema (see SCHEMA_SQL)
+ */
+export function markMigrationsApplied() {
+  initMigrationsTable();
+
+  const stmt = getDB().prepare("INSERT OR IGNORE INTO migrations (id, name) VALUES (?, ?)");
+  for (const migration of migrations) {
+    stmt.run(migration.id, migration.name);
+  }
+}
+
 /**
  * Get applied migrations
  */
@@ -56,10 +291,14 @@ function applyMigration(migration: Migration) {
   
   logger.info({ migrationId: migration.id, name: migration.name }, "Applying migration");
   
-  db.exec(migration.sql);
-  
-  const stmt = db.prepare("INSERT INTO migrations (id, name) VALUES (?, ?)");
-  stmt.run(migration.id, migration.name);
+  // Apply the SQL and record it atomically so a failed migration can be retried
+  const apply = db.transaction(() => {
+    db.exec(migration.sql);
+    
+    const stmt = db.prepare("INSERT INTO migrations (id, name) VALUES (?, ?)");
+    stmt.run(migration.id, migration.name);
+  });
+  apply();
   
   logger.info({ migrationId: migration.id }, "Migration applied");
 }
@@ -9,28 +9,170 @@ export interface Session {
   summary_text: string | null;
   last_compacted_at: number | null;
   metadata_json: string | null;
+  // Set on forks: the session they branched from, and the last message copied from it
+  parent_session_id: string | null;
+  forked_from_message_id: number | null;
 }
 
+export type MessageRole = "user" | "assistant" | "system" | "tool";
+
 export interface Message {
   id: number;
   session_id: string;
-  role: "user" | "assistant" | "system";
+  role: MessageRole;
   content: string;
+  content_json: string | null;
   created_at: number;
   token_count: number | null;
 }
 
+// A turn is one user message; its steps are the model calls within it
+export type RunKind = "turn" | "step";
+
+// "aborted" was stopped by the user, "interrupted" never finished because
+// the process exited mid-run
+export type RunStatus = "running" | "completed" | "failed" | "aborted" | "interrupted";
+
+// How an interrupted turn was dealt with when its session was reopened
+export type RunRecovery = "resumed" | "discarded";
+
 export interface Run {
   id: number;
   session_id: string;
+  kind: RunKind;
+  // The turn a step belongs to; null for turns
+  parent_id: number | null;
+  // Step number within the turn, from 1; 0 for turns
   step_no: number;
-  status: "running" | "completed" | "failed";
+  status: RunStatus;
   error: string | null;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  finish_reason: string | null;
+  // JSON array of { toolCallId, toolName }
+  tool_calls_json: string | null;
+  duration_ms: number | null;
+  created_at: number;
+  finished_at: number | null;
+  // The user message a turn answers
+  message_id: number | null;
+  recovery: RunRecovery | null;
+}
+
+export interface RunToolCall {
+  toolCallId: string;
+  toolName: string;
+}
+
+/**
+ * A tool call of a turn, journaled when it starts and again when it
+ * finishes, so a turn cut off by a crash can be resumed without re-running it
+ */
+export interface JournaledToolCall {
+  id: number;
+  run_id: number;
+  session_id: string;
+  step_no: number;
+  tool_call_id: string;
+  tool_name: string;
+  input_json: string;
+  // null while the call is running (or if the process died during it)
+  output_json: string | null;
+  is_error: 0 | 1;
+  created_at: number;
+  finished_at: number | null;
+}
+
+export interface Compaction {
+  id: number;
+  session_id: string;
+  input_summary: string | null;
+  output_summary: string;
+  // JSON array of the Message rows removed by this compaction
+  archived_messages_json: string;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
   created_at: number;
+  rolled_back_at: number | null;
 }
 
 /**
- * SQL schema creation statements
+ * Everything needed to recreate a session elsewhere: its row (with the
+ * summary), live messages, compactions (with their archived messages) and runs
+ */
+export interface SessionDump {
+  session: Session;
+  messages: Message[];
+  compactions: Compaction[];
+  runs: Run[];
+  toolCallJournal: JournaledToolCall[];
+  toolOutputs: ToolOutput[];
+}
+
+export type UsageKind = "conversation" | "compaction";
+
+export interface UsageRecord {
+  id: number;
+  session_id: string;
+  kind: UsageKind;
+  model: string;
+  // Model calls covered: the steps of a turn, or the chunks of a compaction
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  created_at: number;
+}
+
+// Usage summed per kind and model
+export interface UsageTotals {
+  kind: UsageKind;
+  model: string;
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+}
+
+export interface ToolOutput {
+  tool_call_id: string;
+  // Which part of the tool result, e.g. "stdout" or "content"
+  field: string;
+  session_id: string;
+  tool_name: string;
+  content: string;
+  bytes: number;
+  created_at: number;
+}
+
+// Who settled an approval: a policy rule, the user's answer, or an earlier
+// "approve always" answer in the same session
+export type ApprovalDecidedBy = "policy" | "user" | "session";
+
+export interface ApprovalRecord {
+  id: number;
+  session_id: string;
+  tool_call_id: string;
+  tool_name: string;
+  // The command, or the paths the call touches
+  subject: string;
+  // What the policy said: allow, ask or deny
+  action: "allow" | "ask" | "deny";
+  // The matched rule, null for the default action
+  rule: string | null;
+  approved: 0 | 1;
+  decided_by: ApprovalDecidedBy;
+  reason: string | null;
+  created_at: number;
+}
+
+/**
+ * SQL schema creation statements for a new database, at the current schema
+ * Databases created by earlier versions are brought up to it by the
+ * migrations (see migrations.ts), which a new database starts with applied
  */
 export const SCHEMA_SQL = `
 -- Sessions table
@@ -40,15 +182,21 @@ CREATE TABLE IF NOT EXISTS sessions (
   updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
   summary_text TEXT,
   last_compacted_at INTEGER,
-  metadata_json TEXT
+  metadata_json TEXT,
+  parent_session_id TEXT REFERENCES sessions(id),
+  forked_from_message_id INTEGER
 );
 
+CREATE INDEX IF NOT EXISTS idx_sessions_parent 
+  ON sessions(parent_session_id);
+
 -- Messages table
 CREATE TABLE IF NOT EXISTS messages (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   session_id TEXT NOT NULL,
-  role TEXT NOT NULL CHECK(role IN ('user', 'assistant', 'system')),
+  role TEXT NOT NULL CHECK(role IN ('user', 'assistant', 'system', 'tool')),
   content TEXT NOT NULL,
+  content_json TEXT,
   created_at INTEGER NOT NULL DEFAULT (unixepoch()),
   token_count INTEGER,
   FOREIGN KEY (session_id) REFERENCES sessions(id)
@@ -58,18 +206,122 @@ CREATE TABLE IF NOT EXISTS messages (
 CREATE INDEX IF NOT EXISTS idx_messages_session_created 
   ON messages(session_id, created_at);
 
--- Runs table (optional tracking)
+-- Runs table: every turn and model step
 CREATE TABLE IF NOT EXISTS runs (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   session_id TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'step' CHECK(kind IN ('turn', 'step')),
+  parent_id INTEGER,
   step_no INTEGER NOT NULL,
-  status TEXT NOT NULL CHECK(status IN ('running', 'completed', 'failed')),
+  status TEXT NOT NULL CHECK(status IN ('running', 'completed', 'failed', 'aborted', 'interrupted')),
   error TEXT,
+  model TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  finish_reason TEXT,
+  tool_calls_json TEXT,
+  duration_ms INTEGER,
   created_at INTEGER NOT NULL DEFAULT (unixepoch()),
-  FOREIGN KEY (session_id) REFERENCES sessions(id)
+  finished_at INTEGER,
+  message_id INTEGER,
+  recovery TEXT CHECK(recovery IN ('resumed', 'discarded')),
+  FOREIGN KEY (session_id) REFERENCES sessions(id),
+  FOREIGN KEY (parent_id) REFERENCES runs(id)
 );
 
 -- Index for run queries
 CREATE INDEX IF NOT EXISTS idx_runs_session 
   ON runs(session_id, step_no);
+CREATE INDEX IF NOT EXISTS idx_runs_parent 
+  ON runs(parent_id);
+
+-- Tool calls of each turn as they run, for resuming a turn cut off by a crash
+CREATE TABLE IF NOT EXISTS tool_call_journal (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id INTEGER NOT NULL,
+  session_id TEXT NOT NULL,
+  step_no INTEGER NOT NULL,
+  tool_call_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  input_json TEXT NOT NULL,
+  output_json TEXT,
+  is_error INTEGER NOT NULL DEFAULT 0 CHECK(is_error IN (0, 1)),
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  finished_at INTEGER,
+  FOREIGN KEY (run_id) REFERENCES runs(id),
+  FOREIGN KEY (session_id) REFERENCES sessions(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tool_call_journal_run 
+  ON tool_call_journal(run_id, id);
+CREATE INDEX IF NOT EXISTS idx_tool_call_journal_call 
+  ON tool_call_journal(tool_call_id);
+
+-- Compaction history, with the messages each compaction archived
+CREATE TABLE IF NOT EXISTS compactions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  input_summary TEXT,
+  output_summary TEXT NOT NULL,
+  archived_messages_json TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  rolled_back_at INTEGER,
+  FOREIGN KEY (session_id) REFERENCES sessions(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_compactions_session 
+  ON compactions(session_id, created_at);
+
+-- Token usage ledger
+CREATE TABLE IF NOT EXISTS usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK(kind IN ('conversation', 'compaction')),
+  model TEXT NOT NULL,
+  calls INTEGER NOT NULL DEFAULT 1,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (session_id) REFERENCES sessions(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_session 
+  ON usage(session_id, kind);
+
+-- Full text of tool outputs that were cut before reaching the model
+CREATE TABLE IF NOT EXISTS tool_outputs (
+  tool_call_id TEXT NOT NULL,
+  field TEXT NOT NULL,
+  session_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  content TEXT NOT NULL,
+  bytes INTEGER NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  PRIMARY KEY (session_id, tool_call_id, field),
+  FOREIGN KEY (session_id) REFERENCES sessions(id)
+);
+
+-- Approval policy decisions on tool calls
+CREATE TABLE IF NOT EXISTS approvals (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  tool_call_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  action TEXT NOT NULL CHECK(action IN ('allow', 'ask', 'deny')),
+  rule TEXT,
+  approved INTEGER NOT NULL CHECK(approved IN (0, 1)),
+  decided_by TEXT NOT NULL CHECK(decided_by IN ('policy', 'user', 'session')),
+  reason TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (session_id) REFERENCES sessions(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_approvals_session 
+  ON approvals(session_id, created_at);
 `;
@@ -0,0 +1,43 @@
+import Docker from "dockerode";
+
+/**
+ * The Docker client shared by the sandbox modules
+ */
+
+// Windows Docker Desktop uses named pipes
+let docker = new Docker();
+
+/**
+ * The client the container and image calls go through
+ */
+export function getDocker(): Docker {
+  return docker;
+}
+
+/**
+ * Replace the client, e.g. with a fake daemon in tests
+ */
+export function setDocker(client: Docker): void {
+  docker = client;
+}
+
+/**
+ * Wait for a build, pull or import to finish, failing on an error event
+ * (the Docker API reports failures inside the stream)
+ */
+export function followProgress(stream: NodeJS.ReadableStream, onProgress: (event: any) => void = () => {}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    docker.modem.followProgress(
+      stream,
+      (error: Error | null, output: any[]) => {
+        const failed = error ?? output?.find(event => event.error);
+        if (failed) {
+          reject(new Error(failed instanceof Error ? failed.message : String(failed.error)));
+        } else {
+          resolve();
+        }
+      },
+      onProgress
+    );
+  });
+}
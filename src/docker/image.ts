@@ -0,0 +1,122 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import { basename, dirname } from "path";
+import { config } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import { getDocker, followProgress } from "./client.js";
+
+/**
+ * Sandbox image resolution
+ * A prebuilt DOCKER_IMAGE is used as-is (pulled if missing). Otherwise the
+ * image is built from the sandbox Dockerfile and tagged with a hash of its
+ * content, so editing the Dockerfile triggers a rebuild on the next start
+ */
+
+// Repository of images built from the Dockerfile
+const BUILD_REPO = "runable-sandbox";
+
+// Resolved once per process; concurrent callers share the build
+let imagePromise: Promise<string> | null = null;
+
+/**
+ * Name of the sandbox image, building or pulling it first if it's missing
+ */
+export function ensureSandboxImage(): Promise<string> {
+  imagePromise ??= resolveImage().catch(error => {
+    // Let the next container retry instead of caching the failure
+    imagePromise = null;
+    throw error;
+  });
+  return imagePromise;
+}
+
+async function resolveImage(): Promise<string> {
+  if (config.docker.image) {
+    if (!(await imageExists(config.docker.image))) {
+      await pullImage(config.docker.image);
+    }
+    return config.docker.image;
+  }
+
+  const dockerfile = config.docker.dockerfile;
+  let content: string;
+  try {
+    content = readFileSync(dockerfile, "utf-8");
+  } catch (error: any) {
+    throw new Error(`Failed to read sandbox Dockerfile ${dockerfile}: ${error.message}`);
+  }
+
+  const tag = `${BUILD_REPO}:${createHash("sha256").update(content).digest("hex").slice(0, 12)}`;
+  if (await imageExists(tag)) {
+    logger.debug({ image: tag, dockerfile }, "Sandbox image is up to date");
+    return tag;
+  }
+
+  await buildImage(dockerfile, tag);
+  return tag;
+}
+
+async function imageExists(name: string): Promise<boolean> {
+  try {
+    await getDocker().getImage(name).inspect();
+    return true;
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Build the Dockerfile into the tagged image, logging each build step
+ * The build context is the Dockerfile alone, so it can't COPY local files
+ */
+async function buildImage(dockerfile: string, tag: string): Promise<void> {
+  logger.info({ image: tag, dockerfile }, "Building sandbox image (first run or Dockerfile changed)");
+  const startedAt = Date.now();
+
+  const stream = await getDocker().buildImage(
+    { context: dirname(dockerfile), src: [basename(dockerfile)] },
+    { t: tag, dockerfile: basename(dockerfile), labels: { "runable.dockerfile": dockerfile } }
+  );
+
+  await followProgress(stream, (event) => {
+    const line = typeof event.stream === "string" ? event.stream.trim() : "";
+    if (!line) {
+      return;
+    }
+    // Steps at info; the commands' own output only at debug
+    if (/^Step \d+\/\d+ :/.test(line)) {
+      logger.info({ image: tag }, line);
+    } else {
+      logger.debug({ image: tag }, line);
+    }
+  });
+
+  logger.info({ image: tag, durationMs: Date.now() - startedAt }, "Sandbox image built");
+}
+
+/**
+ * Pull a prebuilt image, logging each layer's status changes
+ */
+async function pullImage(image: string): Promise<void> {
+  logger.info({ image }, "Pulling sandbox image");
+  const startedAt = Date.now();
+  const statuses = new Map<string, string>();
+
+  const stream = await getDocker().pull(image);
+
+  await followProgress(stream, (event) => {
+    if (typeof event.status !== "string") {
+      return;
+    }
+    const key = event.id ?? "";
+    if (statuses.get(key) !== event.status) {
+      statuses.set(key, event.status);
+      logger.debug({ image, layer: event.id }, event.status);
+    }
+  });
+
+  logger.info({ image, durationMs: Date.now() - startedAt }, "Sandbox image pulled");
+}
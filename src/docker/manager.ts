@@ -1,161 +1,386 @@
 import Docker from "dockerode";
+import { Duplex, Writable } from "stream";
+import { StringDecoder } from "string_decoder";
+import { randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import { isIP } from "net";
 import { config } from "../config/env.js";
 import { logger } from "../utils/logger.js";
+import { getDocker, followProgress } from "./client.js";
+import { ensureSandboxImage } from "./image.js";
+import type { ExecStream, ExecOutputHandler, ExecResult } from "../exec/backend.js";
 
 /**
  * Docker manager for sandbox execution with crash recovery
  */
 
-// Windows Docker Desktop uses named pipes
-const docker = new Docker();
+// Prefix of the per-session container names
+const CONTAINER_PREFIX = "runable-sandbox";
 
-// Container name for persistence
-const CONTAINER_NAME = "runable-sandbox";
+// Repository of the session snapshot images, tagged with the session id
+const SNAPSHOT_REPO = "runable-snapshot";
 
-let containerInstance: Docker.Container | null = null;
+// Labels linking containers and snapshots to their session and base image
+const SESSION_LABEL = "runable.session";
+const BASE_IMAGE_LABEL = "runable.base-image";
+
+// Label counting the snapshot commits stacked on the base image
+const SNAPSHOT_DEPTH_LABEL = "runable.snapshot-depth";
+
+// A snapshot this many commits deep is flattened into one layer before a
+// container is created from it, so recreations don't stack layers forever
+const MAX_SNAPSHOT_DEPTH = 10;
+
+// Containers this process has used, by session id
+// running counts commands in flight, which keep the container from being reaped;
+// dirty marks commands run since the last snapshot
+const containers = new Map<string, { container: Docker.Container; lastUsed: number; running: number; dirty: boolean }>();
+
+// How often the idle reaper looks for inactive sessions
+const REAP_INTERVAL_MS = 60_000;
+
+let reaperTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Runs the command ($1) in its own session, so it and everything it spawns
+ * share a process group that can be killed together. The group's pid is
+ * written to $2 while it runs. Images without setsid fall back to a plain
+ * child, and only that child is killed
+ */
+const EXEC_WRAPPER = [
+  `if command -v setsid >/dev/null 2>&1; then setsid /bin/sh -c "$1" & else /bin/sh -c "$1" & fi`,
+  `pid=$!`,
+  `echo "$pid" > "$2"`,
+  `wait "$pid"`,
+  `code=$?`,
+  `rm -f "$2"`,
+  `exit "$code"`,
+].join("\n");
+
+// Time a timed-out group gets between SIGTERM and SIGKILL
+const KILL_GRACE_SECONDS = 2;
+
+// How long to wait for the exec stream to close after killing; processes that
+// left the group (e.g. daemons) can keep it open
+const STREAM_CLOSE_TIMEOUT_MS = 5000;
+
+/**
+ * Container name for a session
+ */
+export function getContainerName(sessionId: string): string {
+  return `${CONTAINER_PREFIX}-${sessionId}`;
+}
 
 /**
- * Ensure the container exists and is running
+ * Ensure the session's container exists and is running
  * Creates or starts the container as needed
  */
-export async function ensureContainer(): Promise<void> {
+export async function ensureContainer(sessionId: string): Promise<Docker.Container> {
+  const name = getContainerName(sessionId);
+
   try {
     // Try to get existing container
-    const container = docker.getContainer(CONTAINER_NAME);
+    const container = getDocker().getContainer(name);
     
     try {
       const info = await container.inspect();
       
       if (info.State.Running) {
-        containerInstance = container;
-        logger.debug({ containerName: CONTAINER_NAME }, "Container already running");
-        return;
+        trackContainer(sessionId, container);
+        logger.debug({ containerName: name }, "Container already running");
+        return container;
       }
       
-      // Container exists but not running - start it
+      // Container exists but not running (e.g. stopped by the idle reaper) - start it
       await container.start();
-      containerInstance = container;
-      logger.info({ containerName: CONTAINER_NAME }, "Started existing container");
-      return;
+      await applyNetworkPolicy(container);
+      trackContainer(sessionId, container);
+      logger.info({ containerName: name }, "Started existing container");
+      return container;
     } catch (err: any) {
       // Container doesn't exist, create it
       if (err.statusCode === 404) {
-        await createContainer();
-        return;
+        return await createContainer(sessionId);
       }
       throw err;
     }
   } catch (error) {
-    logger.error({ error }, "Failed to ensure container");
+    logger.error({ error, containerName: name }, "Failed to ensure container");
     throw error;
   }
 }
 
+function trackContainer(sessionId: string, container: Docker.Container): void {
+  const entry = containers.get(sessionId);
+  if (entry) {
+    entry.container = container;
+    entry.lastUsed = Date.now();
+  } else {
+    containers.set(sessionId, { container, lastUsed: Date.now(), running: 0, dirty: false });
+  }
+}
+
 /**
- * Create a new container
+ * Create a new container for a session, from its latest snapshot if it has one
  */
-async function createContainer(): Promise<void> {
+async function createContainer(sessionId: string): Promise<Docker.Container> {
+  const name = getContainerName(sessionId);
+  const { docker: settings } = config;
+  const baseImage = await ensureSandboxImage();
+  const snapshot = await findSnapshot(sessionId, baseImage);
+
   logger.info({
-    image: config.docker.image,
-    name: CONTAINER_NAME,
-    workdir: config.docker.workdir,
+    image: snapshot ?? baseImage,
+    restoredSnapshot: !!snapshot,
+    name,
+    workdir: settings.workdir,
+    cpus: settings.cpus,
+    memoryMb: settings.memoryMb,
+    pidsLimit: settings.pidsLimit,
+    network: settings.network,
+    readOnly: settings.readOnly,
   }, "Creating new container");
 
-  const container = await docker.createContainer({
-    Image: config.docker.image,
-    name: CONTAINER_NAME,
-    WorkingDir: config.docker.workdir,
+  const container = await getDocker().createContainer({
+    Image: snapshot ?? baseImage,
+    name,
+    WorkingDir: settings.workdir,
     Cmd: ["/bin/sh", "-c", "sleep infinity"], // Keep container alive
+    // Committed into snapshots along with the rest of the container config
+    Labels: { [SESSION_LABEL]: sessionId, [BASE_IMAGE_LABEL]: baseImage },
     HostConfig: {
       AutoRemove: false,
+      // Every session mounts the same workspace: it is the project being
+      // worked on, which the host-side file tools and the local backend also
+      // edit in place, so changes land where the user looks for them.
+      // Sessions are isolated in processes and the container filesystem only;
+      // two sessions (or a fork and its parent) editing at once see each
+      // other's changes
       Binds: [
-        `${process.cwd()}:${config.docker.workdir}:rw`, // Mount workspace
+        `${config.workspace.hostDir}:${settings.workdir}:rw`,
       ],
+      NanoCpus: settings.cpus ? Math.round(settings.cpus * 1e9) : undefined,
+      // Swap is capped at the same size, so the limit can't be exceeded by swapping
+      Memory: settings.memoryMb ? settings.memoryMb * 1024 * 1024 : undefined,
+      MemorySwap: settings.memoryMb ? settings.memoryMb * 1024 * 1024 : undefined,
+      PidsLimit: settings.pidsLimit,
+      NetworkMode: settings.network === "none" ? "none" : "bridge",
+      // Allowlisted hosts are pinned in /etc/hosts, since DNS is blocked
+      ExtraHosts: settings.network === "allowlist" ? await resolveAllowlist() : undefined,
+      ReadonlyRootfs: settings.readOnly,
+      // Exec pid files and scratch space need a writable /tmp
+      Tmpfs: settings.readOnly ? { "/tmp": "rw,exec,nosuid,size=512m" } : undefined,
     },
   });
 
   await container.start();
-  containerInstance = container;
+
+  try {
+    await applyNetworkPolicy(container);
+  } catch (error) {
+    // Fail closed: never leave a container with unrestricted network around
+    await container.remove({ force: true }).catch(() => {});
+    throw error;
+  }
+
+  trackContainer(sessionId, container);
   
-  logger.info({ containerName: CONTAINER_NAME }, "Container created and started");
+  logger.info({ containerName: name }, "Container created and started");
+  return container;
+}
+
+/**
+ * Resolve the allowlisted hosts to "host:ip" entries
+ * IPs and CIDRs are reached directly and need no entry
+ */
+async function resolveAllowlist(): Promise<string[]> {
+  const entries: string[] = [];
+
+  for (const host of config.docker.networkAllowlist) {
+    if (isIP(host.split("/")[0])) {
+      continue;
+    }
+    const addresses = await lookup(host, { all: true, family: 4 });
+    for (const { address } of addresses) {
+      entries.push(`${host}:${address}`);
+    }
+  }
+
+  return entries;
 }
 
 /**
- * Execute a command in the container
+ * Restrict outgoing traffic to the allowlist with iptables
+ * Runs as a privileged exec, so the sandboxed processes themselves never get
+ * NET_ADMIN to undo it. Rules live in the container's network namespace and
+ * are lost when it stops, so this runs on every start
+ */
+async function applyNetworkPolicy(container: Docker.Container): Promise<void> {
+  if (config.docker.network !== "allowlist") {
+    return;
+  }
+
+  const destinations = new Set<string>();
+  for (const host of config.docker.networkAllowlist) {
+    if (isIP(host.split("/")[0])) {
+      destinations.add(host);
+    }
+  }
+  const info = await container.inspect();
+  for (const entry of info.HostConfig.ExtraHosts ?? []) {
+    destinations.add(entry.slice(entry.lastIndexOf(":") + 1));
+  }
+
+  const script = [
+    "set -e",
+    "iptables -F OUTPUT",
+    "iptables -A OUTPUT -o lo -j ACCEPT",
+    "iptables -A OUTPUT -m conntrack --ctstate ESTABLISHED,RELATED -j ACCEPT",
+    ...[...destinations].map(destination => `iptables -A OUTPUT -d ${destination} -j ACCEPT`),
+    "iptables -P OUTPUT DROP",
+    // No IPv6 routes are allowlisted
+    "if command -v ip6tables >/dev/null 2>&1; then ip6tables -P OUTPUT DROP; fi",
+  ].join("\n");
+
+  const execInstance = await container.exec({
+    Cmd: ["/bin/sh", "-c", script],
+    Privileged: true,
+    AttachStdout: true,
+    AttachStderr: true,
+  });
+  const stream = await execInstance.start({ hijack: true });
+  const output = { stdout: "", stderr: "" };
+  const stdout = collectStream("stdout", (name, text) => { output[name] += text; });
+  const stderr = collectStream("stderr", (name, text) => { output[name] += text; });
+  getDocker().modem.demuxStream(stream, stdout.writable, stderr.writable);
+  await new Promise<void>((resolve, reject) => {
+    stream.on("end", resolve);
+    stream.on("error", reject);
+  });
+  stderr.flush();
+
+  const { ExitCode } = await execInstance.inspect();
+  if (ExitCode !== 0) {
+    throw new Error(`Failed to apply the network allowlist (the image needs iptables): ${output.stderr.trim()}`);
+  }
+
+  logger.info({ destinations: [...destinations] }, "Network allowlist applied");
+}
+
+/**
+ * Execute a command in the session's container
+ * onOutput receives stdout/stderr incrementally while the command runs;
+ * the full output is also returned when it exits. At the timeout the
+ * command's process group is killed and the partial output returned
  */
 export async function exec(
+  sessionId: string,
   cmd: string,
-  timeoutMs: number = 30000
-): Promise<{ stdout: string; stderr: string; exitCode: number }> {
-  await ensureContainer();
-  
-  if (!containerInstance) {
-    throw new Error("Container not initialized");
-  }
+  timeoutMs: number = 30000,
+  onOutput?: ExecOutputHandler
+): Promise<ExecResult> {
+  const container = await ensureContainer(sessionId);
 
-  logger.debug({ cmd, timeoutMs }, "Executing command in container");
+  logger.debug({ sessionId, cmd, timeoutMs }, "Executing command in container");
+
+  const pidFile = `/tmp/.runable-exec-${randomUUID()}.pid`;
+  const entry = containers.get(sessionId);
+  if (entry) {
+    entry.running++;
+    entry.dirty = true;
+  }
 
   try {
-    const execInstance = await containerInstance.exec({
-      Cmd: ["/bin/sh", "-c", cmd],
+    const execInstance = await container.exec({
+      Cmd: ["/bin/sh", "-c", EXEC_WRAPPER, "sh", cmd, pidFile],
       AttachStdout: true,
       AttachStderr: true,
     });
 
     return await new Promise((resolve, reject) => {
-      const timer = setTimeout(() => {
-        reject(new Error(`Command timed out after ${timeoutMs}ms`));
-      }, timeoutMs);
-
       execInstance.start({ hijack: true }, (err, stream) => {
         if (err) {
-          clearTimeout(timer);
           return reject(err);
         }
 
         if (!stream) {
-          clearTimeout(timer);
           return reject(new Error("No stream returned"));
         }
 
-        let stdout = "";
-        let stderr = "";
-
-        // Docker multiplexes stdout/stderr in a single stream
-        // Header: [stream_type, 0, 0, 0, size1, size2, size3, size4]
-        stream.on("data", (chunk: Buffer) => {
-          const header = chunk.subarray(0, 8);
-          const payload = chunk.subarray(8);
-          
-          const streamType = header[0];
-          
-          if (streamType === 1) {
-            // stdout
-            stdout += payload.toString();
-          } else if (streamType === 2) {
-            // stderr
-            stderr += payload.toString();
+        const output = { stdout: "", stderr: "" };
+        const append: ExecOutputHandler = (name, text) => {
+          output[name] += text;
+          onOutput?.(name, text);
+        };
+        const stdout = collectStream("stdout", append);
+        const stderr = collectStream("stderr", append);
+        let timedOut = false;
+        let settled = false;
+        let closeTimer: NodeJS.Timeout | undefined;
+
+        // Docker multiplexes stdout/stderr into one stream of framed chunks;
+        // frames can be split across or packed into data events, so let
+        // the modem reassemble them
+        getDocker().modem.demuxStream(stream, stdout.writable, stderr.writable);
+
+        const timer = setTimeout(async () => {
+          timedOut = true;
+          logger.warn({ cmd, timeoutMs }, "Command timed out, killing its process group");
+
+          try {
+            await killProcessGroup(sessionId, pidFile);
+          } catch (error) {
+            logger.error({ error, cmd }, "Failed to kill timed-out command");
           }
-        });
 
-        stream.on("end", async () => {
+          // The stream normally ends once the group is gone; don't hang on
+          // stragglers that still hold it open
+          if (settled) {
+            return;
+          }
+          closeTimer = setTimeout(() => {
+            logger.warn({ cmd }, "Exec stream still open after kill, detaching");
+            stream.destroy();
+            finish(-1);
+          }, STREAM_CLOSE_TIMEOUT_MS);
+        }, timeoutMs);
+
+        const finish = (exitCode: number) => {
+          if (settled) {
+            return;
+          }
+          settled = true;
           clearTimeout(timer);
-          
+          clearTimeout(closeTimer);
+          stdout.flush();
+          stderr.flush();
+
+          logger.debug({ exitCode, timedOut, stdoutLength: output.stdout.length, stderrLength: output.stderr.length }, "Command completed");
+
+          resolve({ stdout: output.stdout, stderr: output.stderr, exitCode, timedOut });
+        };
+
+        stream.on("end", async () => {
           try {
             const inspectData = await execInstance.inspect();
-            const exitCode = inspectData.ExitCode ?? 0;
-            
-            logger.debug({ exitCode, stdoutLength: stdout.length, stderrLength: stderr.length }, "Command completed");
-            
-            resolve({ stdout, stderr, exitCode });
+            finish(inspectData.ExitCode ?? (timedOut ? -1 : 0));
           } catch (error) {
-            reject(error);
+            if (!settled) {
+              settled = true;
+              clearTimeout(timer);
+              clearTimeout(closeTimer);
+              reject(error);
+            }
           }
         });
 
         stream.on("error", (error) => {
-          clearTimeout(timer);
-          reject(error);
+          if (!settled) {
+            settled = true;
+            clearTimeout(timer);
+            clearTimeout(closeTimer);
+            reject(error);
+          }
         });
       });
     });
@@ -165,38 +390,254 @@ export async function exec(
     // If container crashed, try to recreate and retry once
     if (error.message?.includes("container") || error.statusCode === 404) {
       logger.warn("Container may have crashed, attempting recovery");
-      await recreateContainer();
+      await recreateContainer(sessionId);
       
       // Retry once
-      return exec(cmd, timeoutMs);
+      return exec(sessionId, cmd, timeoutMs, onOutput);
     }
     
     throw error;
+  } finally {
+    if (entry) {
+      entry.running--;
+      entry.lastUsed = Date.now();
+    }
+  }
+}
+
+/**
+ * Kill a running command's process group: SIGTERM, then SIGKILL after a grace
+ * period. Runs as its own exec, since the command's exec can't be signalled
+ * through the Docker API
+ */
+async function killProcessGroup(sessionId: string, pidFile: string): Promise<void> {
+  const script = [
+    `pid=$(cat ${pidFile} 2>/dev/null) || exit 0`,
+    `kill -TERM -"$pid" 2>/dev/null || kill -TERM "$pid" 2>/dev/null`,
+    `i=0`,
+    `while [ -f ${pidFile} ] && [ $i -lt ${KILL_GRACE_SECONDS * 10} ]; do sleep 0.1; i=$((i + 1)); done`,
+    `kill -KILL -"$pid" 2>/dev/null || kill -KILL "$pid" 2>/dev/null`,
+    `rm -f ${pidFile}`,
+  ].join("\n");
+
+  const result = await exec(sessionId, script, (KILL_GRACE_SECONDS + 5) * 1000);
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.trim() || `kill exited with code ${result.exitCode}`);
   }
 }
 
 /**
- * Recreate the container from scratch
+ * A writable that decodes one demultiplexed stream and hands the text on
+ * UTF-8 sequences split across frames are held back until complete
+ */
+function collectStream(
+  name: ExecStream,
+  onText: ExecOutputHandler
+): { writable: Writable; flush: () => void } {
+  const decoder = new StringDecoder("utf-8");
+
+  const append = (text: string) => {
+    if (text) {
+      onText(name, text);
+    }
+  };
+
+  return {
+    writable: new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        append(decoder.write(chunk));
+        callback();
+      },
+    }),
+    flush: () => append(decoder.end()),
+  };
+}
+
+/**
+ * Snapshot image name for a session
  */
-export async function recreateContainer(): Promise<void> {
-  logger.info({ containerName: CONTAINER_NAME }, "Recreating container");
+export function getSnapshotImage(sessionId: string): string {
+  return `${SNAPSHOT_REPO}:${sessionId}`;
+}
+
+/**
+ * The session's snapshot image, if it has one built on the current sandbox
+ * image. A snapshot of an older base image is ignored, so a changed
+ * Dockerfile or DOCKER_IMAGE takes effect. One MAX_SNAPSHOT_DEPTH commits
+ * deep is flattened first
+ */
+async function findSnapshot(sessionId: string, currentImage: string): Promise<string | null> {
+  const image = getSnapshotImage(sessionId);
 
   try {
-    // Try to remove existing container
-    if (containerInstance) {
-      try {
-        await containerInstance.stop({ t: 5 });
-        await containerInstance.remove({ force: true });
-      } catch (err) {
-        // Ignore errors if container is already gone
-        logger.debug({ error: err }, "Error removing old container (may not exist)");
-      }
+    const info = await getDocker().getImage(image).inspect();
+    const baseImage = info.Config?.Labels?.[BASE_IMAGE_LABEL];
+    if (baseImage !== currentImage) {
+      logger.warn({ image, baseImage, currentImage }, "Ignoring snapshot of a different base image");
+      return null;
+    }
+    if (getSnapshotDepth(info.Config?.Labels) >= MAX_SNAPSHOT_DEPTH) {
+      await flattenSnapshot(sessionId, info).catch(error => {
+        // The deep snapshot still works, it's just slower to start
+        logger.warn({ error, image }, "Failed to flatten snapshot");
+      });
+    }
+    return image;
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function getSnapshotDepth(labels: Record<string, string> | undefined): number {
+  return Number(labels?.[SNAPSHOT_DEPTH_LABEL]) || 0;
+}
+
+/**
+ * Replace a snapshot with a single-layer image of the same filesystem and
+ * config: a throwaway container of it is exported and imported as the new
+ * snapshot, and the deep image removed
+ */
+async function flattenSnapshot(sessionId: string, info: Docker.ImageInspectInfo): Promise<void> {
+  const image = getSnapshotImage(sessionId);
+  const { Config: imageConfig } = info;
+  const labels = { ...imageConfig.Labels, [SNAPSHOT_DEPTH_LABEL]: "0" };
+
+  // Import only keeps the filesystem; the config is applied as Dockerfile instructions
+  const changes = [
+    ...(imageConfig.Env ?? []).map(entry => {
+      const [key, ...value] = entry.split("=");
+      return `ENV ${key}=${JSON.stringify(value.join("="))}`;
+    }),
+    ...Object.entries(labels).map(([key, value]) => `LABEL ${JSON.stringify(key)}=${JSON.stringify(value)}`),
+    ...(imageConfig.WorkingDir ? [`WORKDIR ${imageConfig.WorkingDir}`] : []),
+    ...(imageConfig.User ? [`USER ${imageConfig.User}`] : []),
+    ...(imageConfig.Entrypoint ? [`ENTRYPOINT ${JSON.stringify(imageConfig.Entrypoint)}`] : []),
+    ...(imageConfig.Cmd ? [`CMD ${JSON.stringify(imageConfig.Cmd)}`] : []),
+  ];
+
+  logger.info({ image, depth: getSnapshotDepth(imageConfig.Labels) }, "Flattening snapshot");
+
+  const container = await getDocker().createContainer({ Image: info.Id, Cmd: ["/bin/true"] });
+  try {
+    const archive = await container.export();
+    const stream = await getDocker().importImage(archive, { repo: SNAPSHOT_REPO, tag: sessionId, changes, message: "flattened snapshot" });
+    await followProgress(stream);
+  } finally {
+    await container.remove({ force: true }).catch(() => {});
+  }
+
+  await removeUntaggedImage(info.Id);
+  logger.info({ image }, "Snapshot flattened");
+}
+
+/**
+ * Remove an image left without tags (a replaced snapshot), unless a
+ * container still uses it; it's removed with that container then
+ */
+async function removeUntaggedImage(imageId: string): Promise<void> {
+  try {
+    const info = await getDocker().getImage(imageId).inspect();
+    if (info.RepoTags?.some(tag => tag !== "<none>:<none>")) {
+      return;
+    }
+    await getDocker().getImage(imageId).remove();
+    logger.debug({ imageId }, "Removed replaced snapshot image");
+  } catch (error: any) {
+    if (error.statusCode !== 404 && error.statusCode !== 409) {
+      logger.warn({ error, imageId }, "Failed to remove replaced snapshot image");
+    }
+  }
+}
+
+/**
+ * Id of an image, or null if it doesn't exist
+ */
+async function getImageId(image: string): Promise<string | null> {
+  try {
+    return (await getDocker().getImage(image).inspect()).Id;
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Commit a session's container to its snapshot image at a checkpoint
+ * Skipped unless the trigger is enabled, commands ran since the last
+ * snapshot and the container's filesystem differs from its image (the
+ * workspace mount isn't part of it). The commit holds every change since
+ * the container was created, on top of the image it was created from; the
+ * snapshot it replaces is removed.
+ * Failures are logged, not thrown: a missed checkpoint shouldn't fail the turn
+ */
+export async function snapshotContainer(sessionId: string, trigger: "turn" | "compaction"): Promise<boolean> {
+  const entry = containers.get(sessionId);
+  if (!config.docker.snapshotOn.includes(trigger) || !entry?.dirty) {
+    return false;
+  }
+
+  const image = getSnapshotImage(sessionId);
+
+  try {
+    entry.dirty = false;
+    const changes = await entry.container.changes();
+    if (!changes || changes.length === 0) {
+      logger.debug({ sessionId, trigger }, "No container changes since the last snapshot");
+      return false;
+    }
+
+    const previous = await getImageId(image);
+    // Commits from one container all sit one layer above its image
+    const { Config: containerConfig } = await entry.container.inspect();
+    const depth = getSnapshotDepth(containerConfig.Labels) + 1;
+
+    const committed = await entry.container.commit({
+      repo: SNAPSHOT_REPO,
+      tag: sessionId,
+      comment: `${trigger} checkpoint`,
+      pause: true,
+      changes: `LABEL ${SNAPSHOT_DEPTH_LABEL}=${depth}`,
+    });
+
+    if (previous && previous !== committed.Id) {
+      await removeUntaggedImage(previous);
+    }
+
+    logger.info({ sessionId, image, trigger, depth, changes: changes.length }, "Container snapshot committed");
+    return true;
+  } catch (error) {
+    entry.dirty = true;
+    logger.error({ error, sessionId, image, trigger }, "Failed to snapshot container");
+    return false;
+  }
+}
+
+/**
+ * Recreate a session's container from its latest snapshot, or from scratch
+ */
+export async function recreateContainer(sessionId: string): Promise<void> {
+  const name = getContainerName(sessionId);
+  logger.info({ containerName: name }, "Recreating container");
+
+  try {
+    // Try to remove existing container, and the replaced snapshot it was created from
+    try {
+      const container = getDocker().getContainer(name);
+      const { Image: imageId } = await container.inspect();
+      await container.remove({ force: true });
+      await removeUntaggedImage(imageId);
+    } catch (err) {
+      // Ignore errors if container is already gone
+      logger.debug({ error: err }, "Error removing old container (may not exist)");
     }
 
-    containerInstance = null;
-    
     // Create new container
-    await createContainer();
+    await createContainer(sessionId);
     
     logger.info("Container recreated successfully");
   } catch (error) {
@@ -206,19 +647,22 @@ export async function recreateContainer(): Promise<void> {
 }
 
 /**
- * Stop and remove the container
+ * Stop and remove a session's container and its snapshot
  */
-export async function stopContainer(): Promise<void> {
-  if (!containerInstance) {
+export async function stopContainer(sessionId: string): Promise<void> {
+  const entry = containers.get(sessionId);
+  if (!entry) {
     return;
   }
 
-  logger.info({ containerName: CONTAINER_NAME }, "Stopping container");
+  logger.info({ containerName: getContainerName(sessionId) }, "Stopping container");
 
   try {
-    await containerInstance.stop({ t: 5 });
-    await containerInstance.remove({ force: true });
-    containerInstance = null;
+    await stopSessionProcesses(sessionId);
+    await entry.container.stop({ t: 5 });
+    await entry.container.remove({ force: true });
+    containers.delete(sessionId);
+    await removeSnapshot(sessionId);
     
     logger.info("Container stopped and removed");
   } catch (error) {
@@ -226,3 +670,376 @@ export async function stopContainer(): Promise<void> {
     throw error;
   }
 }
+
+/**
+ * Remove a session's snapshot image; replaced snapshots it was committed on
+ * go with it, as Docker prunes untagged parents
+ */
+async function removeSnapshot(sessionId: string): Promise<void> {
+  const image = getSnapshotImage(sessionId);
+  try {
+    await getDocker().getImage(image).remove();
+    logger.info({ image }, "Snapshot removed");
+  } catch (error: any) {
+    if (error.statusCode !== 404) {
+      logger.warn({ error, image }, "Failed to remove snapshot");
+    }
+  }
+}
+
+/**
+ * Start stopping the containers of sessions idle longer than the configured
+ * timeout. Stopped containers keep their filesystem and are started again on
+ * the session's next command. A running background process counts as
+ * activity, so a dev server isn't killed between turns; the idle time
+ * starts once the last one ends
+ */
+export function startIdleReaper(): void {
+  if (reaperTimer || config.docker.idleTimeoutMs === 0) {
+    return;
+  }
+
+  reaperTimer = setInterval(() => {
+    reapIdleContainers().catch(error => logger.error({ error }, "Idle reaper failed"));
+  }, Math.min(REAP_INTERVAL_MS, config.docker.idleTimeoutMs));
+  // Don't keep the process alive just for the reaper
+  reaperTimer.unref();
+}
+
+async function reapIdleContainers(): Promise<void> {
+  const now = Date.now();
+
+  for (const [sessionId, entry] of containers) {
+    const sessionProcesses = [...processes.values()].filter(proc => proc.info.sessionId === sessionId);
+    if (entry.running > 0 || sessionProcesses.some(proc => proc.info.status === "running")) {
+      continue;
+    }
+
+    const lastActivity = Math.max(entry.lastUsed, ...sessionProcesses.map(proc => proc.info.endedAt ?? 0));
+    if (now - lastActivity < config.docker.idleTimeoutMs) {
+      continue;
+    }
+
+    logger.info({ containerName: getContainerName(sessionId), idleMs: now - lastActivity }, "Stopping idle container");
+    await stopSessionProcesses(sessionId);
+    containers.delete(sessionId);
+    await entry.container.stop({ t: 5 }).catch(error => {
+      logger.debug({ error }, "Error stopping idle container (may already be stopped)");
+    });
+  }
+}
+
+/**
+ * Stop every background process and container this process used and the
+ * idle reaper, e.g. on exit
+ * Containers are kept, so resumed sessions get their filesystem back
+ */
+export async function shutdownContainers(): Promise<void> {
+  if (reaperTimer) {
+    clearInterval(reaperTimer);
+    reaperTimer = null;
+  }
+
+  const sessionIds = new Set([...processes.values()].map(proc => proc.info.sessionId));
+  await Promise.all([...sessionIds].map(sessionId => stopSessionProcesses(sessionId)));
+
+  const entries = [...containers.entries()];
+  containers.clear();
+
+  await Promise.all(entries.map(async ([sessionId, entry]) => {
+    try {
+      await entry.container.stop({ t: 5 });
+      logger.info({ containerName: getContainerName(sessionId) }, "Container stopped");
+    } catch (error) {
+      logger.debug({ error }, "Error stopping container (may already be stopped)");
+    }
+  }));
+}
+
+/**
+ * Background processes
+ * Long-running commands (dev servers, watchers) started without waiting for
+ * them to exit. Each runs in its own process group in the session's
+ * container; its combined stdout/stderr is kept in a bounded buffer that
+ * can be read while it runs
+ */
+
+export type ProcessStatus = "running" | "exited" | "stopped";
+
+export interface ProcessInfo {
+  id: string;
+  sessionId: string;
+  command: string;
+  execId: string;
+  status: ProcessStatus;
+  // null while running, or when the exit code couldn't be read
+  exitCode: number | null;
+  startedAt: number;
+  endedAt: number | null;
+  // Output characters produced so far, including ones dropped from the buffer
+  outputChars: number;
+}
+
+export interface ProcessOutput {
+  text: string;
+  offset: number;
+  nextOffset: number;
+  // Characters between the requested offset and the oldest one still buffered
+  droppedChars: number;
+  status: ProcessStatus;
+}
+
+// Output kept per background process; older output is dropped
+const PROCESS_BUFFER_CHARS = 256 * 1024;
+
+// Background processes running at once per session
+export const MAX_PROCESSES_PER_SESSION = 8;
+
+/**
+ * Keeps the last maxChars characters of a stream, addressed by offsets into
+ * everything ever written
+ */
+class OutputRing {
+  private text = "";
+  // Offset of text[0]
+  private start = 0;
+
+  constructor(private readonly maxChars: number) {}
+
+  get end(): number {
+    return this.start + this.text.length;
+  }
+
+  append(chunk: string): void {
+    this.text += chunk;
+    if (this.text.length > this.maxChars) {
+      const drop = this.text.length - this.maxChars;
+      this.text = this.text.slice(drop);
+      this.start += drop;
+    }
+  }
+
+  read(offset: number, maxChars: number): { text: string; offset: number; droppedChars: number } {
+    const from = Math.min(Math.max(offset, this.start), this.end);
+    return {
+      text: this.text.slice(from - this.start, from - this.start + maxChars),
+      offset: from,
+      droppedChars: Math.max(0, this.start - offset),
+    };
+  }
+}
+
+interface BackgroundProcess {
+  info: ProcessInfo;
+  pidFile: string;
+  output: OutputRing;
+  // Where reads without an offset continue from
+  readOffset: number;
+  stopRequested: boolean;
+  stream: Duplex;
+  // Resolves once the process has exited and its status is final
+  done: Promise<void>;
+  markDone: () => void;
+}
+
+// Background processes by id, across sessions
+const processes = new Map<string, BackgroundProcess>();
+
+/**
+ * Start a command in the background in the session's container
+ */
+export async function startProcess(sessionId: string, command: string): Promise<ProcessInfo> {
+  const running = [...processes.values()].filter(
+    proc => proc.info.sessionId === sessionId && proc.info.status === "running"
+  );
+  if (running.length >= MAX_PROCESSES_PER_SESSION) {
+    throw new Error(`Session already has ${running.length} background processes running (max ${MAX_PROCESSES_PER_SESSION}); stop one first`);
+  }
+
+  const container = await ensureContainer(sessionId);
+  const entry = containers.get(sessionId);
+  if (entry) {
+    entry.dirty = true;
+  }
+  const id = `proc-${randomUUID().slice(0, 8)}`;
+  const pidFile = `/tmp/.runable-${id}.pid`;
+
+  const execInstance = await container.exec({
+    Cmd: ["/bin/sh", "-c", EXEC_WRAPPER, "sh", command, pidFile],
+    AttachStdout: true,
+    AttachStderr: true,
+  });
+  const stream = await execInstance.start({ hijack: true });
+
+  let markDone: () => void = () => {};
+  const done = new Promise<void>(resolve => { markDone = resolve; });
+  const proc: BackgroundProcess = {
+    info: {
+      id,
+      sessionId,
+      command,
+      execId: execInstance.id,
+      status: "running",
+      exitCode: null,
+      startedAt: Date.now(),
+      endedAt: null,
+      outputChars: 0,
+    },
+    pidFile,
+    output: new OutputRing(PROCESS_BUFFER_CHARS),
+    readOffset: 0,
+    stopRequested: false,
+    stream,
+    done,
+    markDone,
+  };
+  processes.set(id, proc);
+
+  const append: ExecOutputHandler = (_name, text) => {
+    proc.output.append(text);
+    proc.info.outputChars = proc.output.end;
+  };
+  const stdout = collectStream("stdout", append);
+  const stderr = collectStream("stderr", append);
+  getDocker().modem.demuxStream(stream, stdout.writable, stderr.writable);
+
+  const finish = async () => {
+    if (proc.info.status !== "running") {
+      return;
+    }
+    stdout.flush();
+    stderr.flush();
+
+    try {
+      const inspectData = await execInstance.inspect();
+      proc.info.exitCode = inspectData.ExitCode ?? null;
+    } catch (error) {
+      // The container may be gone (stopped, reaped or crashed)
+      logger.debug({ error, id }, "Could not read background process exit code");
+    }
+
+    proc.info.status = proc.stopRequested ? "stopped" : "exited";
+    proc.info.endedAt = Date.now();
+    logger.info({ id, sessionId, exitCode: proc.info.exitCode, status: proc.info.status }, "Background process ended");
+    proc.markDone();
+  };
+
+  stream.on("end", finish);
+  stream.on("close", finish);
+  stream.on("error", (error) => {
+    logger.warn({ error, id }, "Background process stream failed");
+    finish();
+  });
+
+  logger.info({ id, sessionId, command }, "Background process started");
+  return { ...proc.info };
+}
+
+/**
+ * Look up a session's background process
+ */
+function getSessionProcess(sessionId: string, id: string): BackgroundProcess {
+  const proc = processes.get(id);
+  if (!proc || proc.info.sessionId !== sessionId) {
+    throw new Error(`No background process ${id} in this session`);
+  }
+  return proc;
+}
+
+/**
+ * Status of one background process
+ */
+export function getProcess(sessionId: string, id: string): ProcessInfo {
+  return { ...getSessionProcess(sessionId, id).info };
+}
+
+/**
+ * Every background process of a session, oldest first
+ */
+export function listProcesses(sessionId: string): ProcessInfo[] {
+  return [...processes.values()]
+    .filter(proc => proc.info.sessionId === sessionId)
+    .map(proc => ({ ...proc.info }));
+}
+
+/**
+ * Wait until a background process exits, or the timeout passes
+ */
+export async function waitForProcess(sessionId: string, id: string, timeoutMs: number): Promise<ProcessInfo> {
+  const proc = getSessionProcess(sessionId, id);
+  let timer: NodeJS.Timeout | undefined;
+
+  await Promise.race([
+    proc.done,
+    new Promise<void>(resolve => { timer = setTimeout(resolve, timeoutMs); }),
+  ]);
+  clearTimeout(timer);
+
+  return { ...proc.info };
+}
+
+/**
+ * Read a background process's output
+ * Without an offset, continues where the previous read stopped
+ */
+export function readProcessOutput(
+  sessionId: string,
+  id: string,
+  offset: number | undefined,
+  maxChars: number
+): ProcessOutput {
+  const proc = getSessionProcess(sessionId, id);
+  const read = proc.output.read(offset ?? proc.readOffset, maxChars);
+  const nextOffset = read.offset + read.text.length;
+  proc.readOffset = Math.max(proc.readOffset, nextOffset);
+
+  return { ...read, nextOffset, status: proc.info.status };
+}
+
+/**
+ * Stop a background process: its whole process group gets SIGTERM, then
+ * SIGKILL after a grace period
+ */
+export async function stopProcess(sessionId: string, id: string): Promise<ProcessInfo> {
+  const proc = getSessionProcess(sessionId, id);
+
+  if (proc.info.status === "running") {
+    proc.stopRequested = true;
+    logger.info({ id, sessionId }, "Stopping background process");
+
+    try {
+      await killProcessGroup(sessionId, proc.pidFile);
+    } catch (error) {
+      logger.error({ error, id }, "Failed to kill background process");
+    }
+
+    const { status } = await waitForProcess(sessionId, id, STREAM_CLOSE_TIMEOUT_MS);
+    if (status === "running") {
+      logger.warn({ id }, "Background process stream still open after kill, detaching");
+      proc.stream.destroy();
+      proc.info.status = "stopped";
+      proc.info.endedAt = Date.now();
+      // The stream's close now finds the status final and returns early, so
+      // waiters are released here
+      proc.markDone();
+    }
+  }
+
+  return { ...proc.info };
+}
+
+/**
+ * Stop every background process of a session and forget them, e.g. when the
+ * session ends or its container goes away
+ */
+export async function stopSessionProcesses(sessionId: string): Promise<void> {
+  const ids = [...processes.values()]
+    .filter(proc => proc.info.sessionId === sessionId)
+    .map(proc => proc.info.id);
+
+  await Promise.all(ids.map(id => stopProcess(sessionId, id)));
+
+  for (const id of ids) {
+    processes.delete(id);
+  }
+}
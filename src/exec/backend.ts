@@ -0,0 +1,87 @@
+import { config } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import { DockerExecBackend } from "./docker.js";
+import { LocalExecBackend } from "./local.js";
+import { FakeExecBackend } from "./fake.js";
+
+/**
+ * Execution backends
+ * Where the agent's commands run: a Docker container per session, a local
+ * subprocess (isolated with bubblewrap or unshare when available), or an
+ * in-memory fake for tests. Selected with EXEC_BACKEND
+ */
+
+export type ExecStream = "stdout" | "stderr";
+
+/**
+ * Receives command output as it arrives, decoded as UTF-8
+ */
+export type ExecOutputHandler = (stream: ExecStream, text: string) => void;
+
+export interface ExecResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  // The command was killed at the timeout; stdout/stderr hold what it printed until then
+  timedOut: boolean;
+}
+
+export interface ExecBackend {
+  readonly name: "docker" | "local" | "fake";
+  // Workspace root as the commands see it
+  readonly workdir: string;
+
+  /**
+   * Run a shell command in the session's environment
+   * At the timeout the command and everything it started are killed and the
+   * partial output returned
+   */
+  exec(sessionId: string, cmd: string, timeoutMs?: number, onOutput?: ExecOutputHandler): Promise<ExecResult>;
+
+  /**
+   * Read and write files by their path as the commands see them
+   * No confinement here; callers resolve paths within the workspace first
+   */
+  readFile(sessionId: string, path: string): Promise<string>;
+  writeFile(sessionId: string, path: string, content: string): Promise<void>;
+
+  /**
+   * Make the session's environment ready (create or start it)
+   */
+  ensure(sessionId: string): Promise<void>;
+
+  /**
+   * Throw away the session's environment and start a fresh one
+   */
+  recreate(sessionId: string): Promise<void>;
+}
+
+let backend: ExecBackend | null = null;
+
+/**
+ * The configured execution backend, created on first use
+ */
+export function getExecBackend(): ExecBackend {
+  if (!backend) {
+    switch (config.exec.backend) {
+      case "docker":
+        backend = new DockerExecBackend();
+        break;
+      case "local":
+        backend = new LocalExecBackend();
+        break;
+      case "fake":
+        backend = new FakeExecBackend();
+        break;
+    }
+    logger.info({ backend: backend.name, workdir: backend.workdir }, "Using exec backend");
+  }
+  return backend;
+}
+
+/**
+ * Replace the backend, e.g. with a scripted FakeExecBackend in tests
+ */
+export function setExecBackend(next: ExecBackend): void {
+  backend = next;
+}
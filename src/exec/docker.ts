@@ -0,0 +1,57 @@
+import { config } from "../config/env.js";
+import { exec, ensureContainer, recreateContainer } from "../docker/manager.js";
+import { shellQuote } from "../utils/shell.js";
+import type { ExecBackend, ExecOutputHandler, ExecResult } from "./backend.js";
+
+/**
+ * Docker backend: commands run in the session's container (see
+ * src/docker/manager.ts), with the workspace mounted at the Docker workdir
+ */
+
+// Base64 characters per write command, well under the exec argument limit
+const WRITE_CHUNK = 64 * 1024;
+
+export class DockerExecBackend implements ExecBackend {
+  readonly name = "docker";
+  readonly workdir = config.docker.workdir;
+
+  exec(sessionId: string, cmd: string, timeoutMs?: number, onOutput?: ExecOutputHandler): Promise<ExecResult> {
+    return exec(sessionId, cmd, timeoutMs, onOutput);
+  }
+
+  /**
+   * Files are transferred base64-encoded, so binary-safe over the exec stream
+   */
+  async readFile(sessionId: string, path: string): Promise<string> {
+    const result = await exec(sessionId, `base64 ${shellQuote(path)}`);
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr.trim() || `Failed to read ${path} (exit code ${result.exitCode})`);
+    }
+    return Buffer.from(result.stdout, "base64").toString("utf-8");
+  }
+
+  async writeFile(sessionId: string, path: string, content: string): Promise<void> {
+    const encoded = Buffer.from(content, "utf-8").toString("base64");
+
+    // Truncate first, then append chunk by chunk (an empty file needs no chunks)
+    const commands = [`: > ${shellQuote(path)}`];
+    for (let offset = 0; offset < encoded.length; offset += WRITE_CHUNK) {
+      commands.push(`printf '%s' '${encoded.slice(offset, offset + WRITE_CHUNK)}' | base64 -d >> ${shellQuote(path)}`);
+    }
+
+    for (const command of commands) {
+      const result = await exec(sessionId, command);
+      if (result.exitCode !== 0) {
+        throw new Error(result.stderr.trim() || `Failed to write ${path} (exit code ${result.exitCode})`);
+      }
+    }
+  }
+
+  async ensure(sessionId: string): Promise<void> {
+    await ensureContainer(sessionId);
+  }
+
+  recreate(sessionId: string): Promise<void> {
+    return recreateContainer(sessionId);
+  }
+}
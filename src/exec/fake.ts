@@ -0,0 +1,62 @@
+import type { ExecBackend, ExecOutputHandler, ExecResult } from "./backend.js";
+
+/**
+ * In-memory fake backend for tests
+ * Commands are answered by a handler and recorded; files live in a map.
+ * Nothing is executed, so tools and callers can be tested without Docker
+ */
+
+export type FakeCommandHandler = (cmd: string, sessionId: string) => Partial<ExecResult> | undefined;
+
+export class FakeExecBackend implements ExecBackend {
+  readonly name = "fake";
+  readonly workdir = "/workspace";
+  // Every command run, in order
+  readonly commands: { sessionId: string; cmd: string; timeoutMs?: number }[] = [];
+  // File contents by path
+  readonly files = new Map<string, string>();
+  readonly sessions = new Set<string>();
+  recreated = 0;
+
+  constructor(private readonly handler: FakeCommandHandler = () => undefined) {}
+
+  /**
+   * Returns the handler's result; commands it doesn't answer fail like a
+   * missing command (exit code 127)
+   */
+  async exec(sessionId: string, cmd: string, timeoutMs?: number, onOutput?: ExecOutputHandler): Promise<ExecResult> {
+    await this.ensure(sessionId);
+    this.commands.push({ sessionId, cmd, timeoutMs });
+
+    const scripted = this.handler(cmd, sessionId);
+    const result: ExecResult = scripted
+      ? { stdout: "", stderr: "", exitCode: 0, timedOut: false, ...scripted }
+      : { stdout: "", stderr: `fake backend: no scripted result for: ${cmd}\n`, exitCode: 127, timedOut: false };
+
+    if (result.stdout) onOutput?.("stdout", result.stdout);
+    if (result.stderr) onOutput?.("stderr", result.stderr);
+
+    return result;
+  }
+
+  async readFile(_sessionId: string, path: string): Promise<string> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      throw new Error(`No such file: ${path}`);
+    }
+    return content;
+  }
+
+  async writeFile(_sessionId: string, path: string, content: string): Promise<void> {
+    this.files.set(path, content);
+  }
+
+  async ensure(sessionId: string): Promise<void> {
+    this.sessions.add(sessionId);
+  }
+
+  async recreate(sessionId: string): Promise<void> {
+    this.sessions.add(sessionId);
+    this.recreated++;
+  }
+}
@@ -0,0 +1,244 @@
+import { spawn, spawnSync } from "child_process";
+import { constants } from "os";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { config } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import type { ExecBackend, ExecOutputHandler, ExecResult } from "./backend.js";
+
+/**
+ * Local backend: commands run as subprocesses of the agent, in the workspace
+ * directory (a temp directory unless WORKSPACE_DIR is set)
+ * With bubblewrap the rest of the filesystem is read-only and home
+ * directories are hidden; with unshare only processes (and the network,
+ * when disabled) are isolated; without either the command runs unconfined
+ */
+
+export type LocalIsolation = "bwrap" | "unshare" | "none";
+
+// Time a timed-out command gets between SIGTERM and SIGKILL
+const KILL_GRACE_MS = 2000;
+
+// How long to wait for output pipes to close after killing; processes that
+// left the group (e.g. daemons) can keep them open
+const STREAM_CLOSE_TIMEOUT_MS = 5000;
+
+export class LocalExecBackend implements ExecBackend {
+  readonly name = "local";
+  readonly workdir = config.workspace.hostDir;
+  private isolation: LocalIsolation | null = null;
+  // Process groups of running commands by session, so recreate can kill them
+  private running = new Map<string, Set<number>>();
+
+  async exec(
+    sessionId: string,
+    cmd: string,
+    timeoutMs: number = 30000,
+    onOutput?: ExecOutputHandler
+  ): Promise<ExecResult> {
+    await this.ensure(sessionId);
+    const [file, ...args] = this.wrap(cmd);
+
+    logger.debug({ sessionId, cmd, timeoutMs, isolation: this.isolation }, "Executing command locally");
+
+    return new Promise((resolve, reject) => {
+      // Detached: the command leads its own process group, killed as a whole
+      const child = spawn(file, args, {
+        cwd: this.workdir,
+        env: sandboxEnv(),
+        detached: true,
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+
+      const output = { stdout: "", stderr: "" };
+      let timedOut = false;
+      let settled = false;
+      const timers: NodeJS.Timeout[] = [];
+      const group = child.pid;
+
+      if (group) {
+        this.trackGroup(sessionId, group, true);
+      }
+
+      const finish = (exitCode: number) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        timers.forEach(clearTimeout);
+        if (group) {
+          this.trackGroup(sessionId, group, false);
+        }
+
+        logger.debug({ exitCode, timedOut, stdoutLength: output.stdout.length, stderrLength: output.stderr.length }, "Command completed");
+        resolve({ stdout: output.stdout, stderr: output.stderr, exitCode, timedOut });
+      };
+
+      for (const name of ["stdout", "stderr"] as const) {
+        child[name].setEncoding("utf-8");
+        child[name].on("data", (text: string) => {
+          output[name] += text;
+          onOutput?.(name, text);
+        });
+      }
+
+      timers.push(setTimeout(() => {
+        timedOut = true;
+        logger.warn({ cmd, timeoutMs }, "Command timed out, killing its process group");
+
+        killGroup(group, "SIGTERM");
+        timers.push(setTimeout(() => killGroup(group, "SIGKILL"), KILL_GRACE_MS));
+        timers.push(setTimeout(() => {
+          logger.warn({ cmd }, "Command output still open after kill, detaching");
+          child.stdout.destroy();
+          child.stderr.destroy();
+          finish(-1);
+        }, KILL_GRACE_MS + STREAM_CLOSE_TIMEOUT_MS));
+      }, timeoutMs));
+
+      child.on("close", (code, signal) => {
+        finish(code ?? (signal ? 128 + constants.signals[signal] : -1));
+      });
+
+      child.on("error", (error) => {
+        if (!settled) {
+          settled = true;
+          timers.forEach(clearTimeout);
+          reject(error);
+        }
+      });
+    });
+  }
+
+  async readFile(_sessionId: string, path: string): Promise<string> {
+    return readFile(path, "utf-8");
+  }
+
+  async writeFile(_sessionId: string, path: string, content: string): Promise<void> {
+    await writeFile(path, content, "utf-8");
+  }
+
+  async ensure(_sessionId: string): Promise<void> {
+    if (this.isolation) {
+      return;
+    }
+
+    await mkdir(this.workdir, { recursive: true });
+    this.isolation = detectIsolation(config.exec.localIsolation, this.workdir);
+
+    if (this.isolation === "none") {
+      logger.warn({ workdir: this.workdir }, "No bubblewrap or unshare available; local commands run unconfined");
+    }
+    if (config.docker.network === "allowlist") {
+      logger.warn("Network allowlists need the docker backend; local commands get no network");
+    }
+    logger.info({ workdir: this.workdir, isolation: this.isolation }, "Local exec backend ready");
+  }
+
+  /**
+   * Kill the session's running commands; there is no environment to rebuild
+   */
+  async recreate(sessionId: string): Promise<void> {
+    for (const group of this.running.get(sessionId) ?? []) {
+      killGroup(group, "SIGKILL");
+    }
+    this.running.delete(sessionId);
+  }
+
+  private trackGroup(sessionId: string, group: number, running: boolean): void {
+    const groups = this.running.get(sessionId) ?? new Set<number>();
+    if (running) {
+      groups.add(group);
+    } else {
+      groups.delete(group);
+    }
+    this.running.set(sessionId, groups);
+  }
+
+  /**
+   * Command line for the detected isolation
+   */
+  private wrap(cmd: string): string[] {
+    return [...isolationArgs(this.isolation ?? "none", this.workdir), "/bin/sh", "-c", cmd];
+  }
+}
+
+/**
+ * Prefix that runs a command under the given isolation
+ */
+function isolationArgs(isolation: LocalIsolation, workdir: string): string[] {
+  const offline = config.docker.network !== "bridge";
+
+  switch (isolation) {
+    case "bwrap":
+      return [
+        "bwrap",
+        "--ro-bind", "/", "/",
+        "--dev", "/dev",
+        "--proc", "/proc",
+        "--tmpfs", "/tmp",
+        "--tmpfs", "/home",
+        "--tmpfs", "/root",
+        // After the tmpfs mounts, so a workspace under one of them stays visible
+        "--bind", workdir, workdir,
+        "--chdir", workdir,
+        "--unshare-all",
+        ...(offline ? [] : ["--share-net"]),
+        "--die-with-parent",
+        "--new-session",
+      ];
+    case "unshare":
+      return [
+        "unshare",
+        "--user", "--map-root-user",
+        "--pid", "--fork", "--kill-child", "--mount-proc",
+        ...(offline ? ["--net"] : []),
+      ];
+    case "none":
+      return [];
+  }
+}
+
+/**
+ * Pick the isolation to use: the configured one, or in auto mode the
+ * strongest that works here (user namespaces can be disabled)
+ */
+function detectIsolation(setting: LocalIsolation | "auto", workdir: string): LocalIsolation {
+  const candidates: LocalIsolation[] = setting === "auto" ? ["bwrap", "unshare", "none"] : [setting];
+
+  for (const isolation of candidates) {
+    if (isolation === "none") {
+      return isolation;
+    }
+    const [file, ...args] = isolationArgs(isolation, workdir);
+    const probe = spawnSync(file, [...args, "/bin/sh", "-c", "true"], { cwd: workdir, stdio: "ignore", timeout: 10_000 });
+    if (probe.status === 0) {
+      return isolation;
+    }
+    logger.debug({ isolation, error: probe.error?.message, status: probe.status }, "Isolation unavailable");
+  }
+
+  throw new Error(`LOCAL_ISOLATION=${setting} is not available on this machine`);
+}
+
+/**
+ * Environment for local commands: no API keys or other agent settings
+ */
+function sandboxEnv(): NodeJS.ProcessEnv {
+  return {
+    PATH: process.env.PATH ?? "/usr/local/bin:/usr/bin:/bin",
+    HOME: "/tmp",
+    LANG: "C.UTF-8",
+    TERM: "dumb",
+  };
+}
+
+function killGroup(group: number | undefined, signal: NodeJS.Signals): void {
+  if (!group) {
+    return;
+  }
+  try {
+    process.kill(-group, signal);
+  } catch {
+    // Already gone
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Quote a string for POSIX sh
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,190 @@
+/**
+ * An in-memory fake of the Docker daemon for offline tests of the container
+ * manager. Install it with setDocker before the first container call
+ */
+
+import { PassThrough, Readable } from "stream";
+import Docker from "dockerode";
+
+export interface FakeImage {
+  id: string;
+  tags: Set<string>;
+  parent: string | null;
+  labels: Record<string, string>;
+  env: string[];
+}
+
+export interface FakeContainer {
+  name: string;
+  image: string;
+  labels: Record<string, string>;
+  running: boolean;
+}
+
+/**
+ * One exec'd command. The manager runs commands through its wrapper script,
+ * so command is the wrapped command and pidFile where the wrapper would
+ * write the process group's pid
+ */
+export interface FakeExec {
+  id: string;
+  command: string;
+  pidFile: string;
+  // The multiplexed output stream; ending it ends the command
+  stream: PassThrough;
+  // What inspect reports once the stream has ended
+  exitCode: number | null;
+}
+
+/**
+ * Just enough of the Docker daemon for the manager's code paths: images with
+ * tags and parents, containers that can be committed or exported, and execs
+ * whose output a test scripts through onExec. By default a command exits 0
+ * at once without output
+ */
+export class FakeDocker {
+  readonly modem = new Docker().modem;
+  readonly images = new Map<string, FakeImage>();
+  readonly containers = new Map<string, FakeContainer>();
+  readonly imports: { repo: string; tag: string; changes: string[] }[] = [];
+  readonly execs: FakeExec[] = [];
+  onExec: (exec: FakeExec) => void = exec => setImmediate(() => exec.stream.end());
+  private nextId = 0;
+
+  addImage(tag: string | null, labels: Record<string, string> = {}, parent: string | null = null): string {
+    const id = `sha256:image-${++this.nextId}`;
+    this.images.set(id, { id, tags: new Set(), parent, labels, env: ["PATH=/usr/bin:/bin"] });
+    if (tag) {
+      this.tag(id, tag);
+    }
+    return id;
+  }
+
+  addContainer(name: string, image: string): void {
+    this.containers.set(name, { name, image: this.resolve(image)!.id, labels: { ...this.resolve(image)!.labels }, running: true });
+  }
+
+  resolve(ref: string): FakeImage | undefined {
+    return this.images.get(ref) ?? [...this.images.values()].find(image => image.tags.has(ref));
+  }
+
+  tagOf(ref: string): FakeImage | undefined {
+    return [...this.images.values()].find(image => image.tags.has(ref));
+  }
+
+  private tag(id: string, tag: string): void {
+    for (const image of this.images.values()) {
+      image.tags.delete(tag);
+    }
+    this.images.get(id)!.tags.add(tag);
+  }
+
+  getImage(ref: string) {
+    return {
+      inspect: async () => {
+        const image = this.resolve(ref) ?? notFound(ref);
+        return { Id: image.id, RepoTags: [...image.tags], Config: { Labels: image.labels, Env: image.env, Cmd: ["/bin/sh"] } };
+      },
+      remove: async () => {
+        const image = this.resolve(ref) ?? notFound(ref);
+        if ([...this.containers.values()].some(container => container.image === image.id)) {
+          throw Object.assign(new Error(`image ${image.id} is being used by a container`), { statusCode: 409 });
+        }
+        this.images.delete(image.id);
+      },
+    };
+  }
+
+  getContainer(name: string) {
+    const fake = this;
+    const find = () => this.containers.get(name) ?? notFound(name);
+    return {
+      inspect: async () => {
+        const container = find();
+        return { State: { Running: container.running }, Image: container.image, Config: { Labels: container.labels }, HostConfig: {} };
+      },
+      start: async () => { find().running = true; },
+      stop: async () => { find().running = false; },
+      remove: async () => { fake.containers.delete(name); },
+      changes: async () => [{ Path: "/root/.cache", Kind: 1 }],
+      exec: async (options: { Cmd: string[] }) => fake.createExec(options.Cmd),
+      commit: async (options: { repo: string; tag: string; changes: string }) => {
+        const container = find();
+        const id = fake.addImage(null, { ...container.labels, ...parseLabels([options.changes]) }, container.image);
+        fake.tag(id, `${options.repo}:${options.tag}`);
+        return { Id: id };
+      },
+      export: async () => Readable.from(["filesystem"]),
+    };
+  }
+
+  private createExec(cmd: string[]) {
+    // ["/bin/sh", "-c", wrapper, "sh", command, pidFile]
+    const exec: FakeExec = {
+      id: `exec-${++this.nextId}`,
+      command: cmd[4],
+      pidFile: cmd[5],
+      stream: new PassThrough(),
+      exitCode: 0,
+    };
+
+    // Like the real exec, start hands the stream to a callback when given
+    // one and returns it otherwise
+    const start = (_options: unknown, callback?: (error: Error | null, stream: PassThrough) => void) => {
+      this.execs.push(exec);
+      this.onExec(exec);
+      if (!callback) {
+        return Promise.resolve(exec.stream);
+      }
+      callback(null, exec.stream);
+    };
+
+    return {
+      id: exec.id,
+      start,
+      inspect: async () => ({ ExitCode: exec.exitCode }),
+    };
+  }
+
+  async createContainer(options: { Image: string; name?: string; Labels?: Record<string, string> }) {
+    const name = options.name ?? `temp-${++this.nextId}`;
+    const image = this.resolve(options.Image) ?? notFound(options.Image);
+    this.containers.set(name, { name, image: image.id, labels: { ...image.labels, ...options.Labels }, running: false });
+    return this.getContainer(name);
+  }
+
+  async importImage(_archive: Readable, options: { repo: string; tag: string; changes: string[] }) {
+    this.imports.push(options);
+    const id = this.addImage(null, parseLabels(options.changes));
+    this.tag(id, `${options.repo}:${options.tag}`);
+    return Readable.from([`${JSON.stringify({ status: id })}\n`]);
+  }
+}
+
+/**
+ * One frame of Docker's multiplexed exec output: stream type (1 stdout,
+ * 2 stderr), three zero bytes and the payload length, then the payload
+ */
+export function frame(stream: "stdout" | "stderr", payload: string | Buffer): Buffer {
+  const body = typeof payload === "string" ? Buffer.from(payload, "utf-8") : payload;
+  const header = Buffer.alloc(8);
+  header.writeUInt8(stream === "stdout" ? 1 : 2, 0);
+  header.writeUInt32BE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+function notFound(ref: string): never {
+  throw Object.assign(new Error(`No such image or container: ${ref}`), { statusCode: 404 });
+}
+
+function parseLabels(changes: string[]): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const change of changes) {
+    const match = change.match(/^LABEL ("[^"]+"|[^=]+)=(.*)$/);
+    if (match) {
+      const unquote = (text: string) => (text.startsWith("\"") ? JSON.parse(text) : text);
+      labels[unquote(match[1])] = unquote(match[2]);
+    }
+  }
+  return labels;
+}
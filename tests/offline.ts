@@ -0,0 +1,50 @@
+/**
+ * Setup for offline tests: the scripted mock model, the fake exec backend,
+ * and a fresh database and workspace per run
+ * Import it first, before anything that loads the config
+ */
+
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { fileURLToPath } from "url";
+import type { Tool, ToolExecutionOptions } from "ai";
+import type { ToolContext } from "../src/agent/artifacts.js";
+
+export const testDir = mkdtempSync(join(tmpdir(), "runable-test-"));
+
+process.env.MODEL_PROVIDER = "mock";
+process.env.MOCK_FIXTURE_PATH = fileURLToPath(new URL("./fixtures/mock-model.json", import.meta.url));
+process.env.EXEC_BACKEND = "fake";
+process.env.DB_PATH = join(testDir, "test.sqlite");
+process.env.WORKSPACE_DIR = join(testDir, "workspace");
+process.env.LOG_LEVEL ??= "error";
+
+process.on("exit", () => rmSync(testDir, { recursive: true, force: true }));
+
+let toolCalls = 0;
+
+/**
+ * Run a tool's execute the way the agent loop does, with typed call options
+ * and the tool context as experimental_context
+ */
+export async function executeTool<INPUT, OUTPUT>(tool: Tool<INPUT, OUTPUT>, input: INPUT, context?: ToolContext): Promise<OUTPUT> {
+  const options: ToolExecutionOptions = {
+    toolCallId: `test-call-${++toolCalls}`,
+    messages: [],
+    experimental_context: context,
+  };
+  const output = await tool.execute!(input, options);
+  if (output && typeof output === "object" && Symbol.asyncIterator in output) {
+    throw new Error("Streaming tool outputs are not supported in tests");
+  }
+  return output as OUTPUT;
+}
+
+export function check(condition: boolean, label: string): void {
+  if (!condition) {
+    console.log(`❌ ${label}`);
+    throw new Error(`Check failed: ${label}`);
+  }
+  console.log(`✅ ${label}`);
+}
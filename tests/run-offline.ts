@@ -0,0 +1,45 @@
+/**
+ * Run the offline test scripts (mock model, fake exec backend), each in its
+ * own process so each gets a fresh config, database and workspace
+ * Run with: npm test
+ */
+
+import { spawnSync } from "child_process";
+import { fileURLToPath } from "url";
+
+const TESTS = [
+  "test-abort.ts",
+  "test-agent-loop.ts",
+  "test-apply-patch.ts",
+  "test-approval.ts",
+  "test-compaction-chunks.ts",
+  "test-compaction-split.ts",
+  "test-context-budget.ts",
+  "test-docker-exec.ts",
+  "test-exec-backend.ts",
+  "test-fork.ts",
+  "test-resume.ts",
+  "test-schema.ts",
+  "test-session-export.ts",
+  "test-snapshots.ts",
+  "test-workspace.ts",
+];
+
+const failed: string[] = [];
+
+for (const test of TESTS) {
+  console.log(`\n▶️  ${test}`);
+  const result = spawnSync(process.execPath, ["--import", "tsx", fileURLToPath(new URL(test, import.meta.url))], {
+    stdio: "inherit",
+    timeout: 120_000,
+  });
+  if (result.status !== 0) {
+    failed.push(test);
+  }
+}
+
+if (failed.length > 0) {
+  console.log(`\n❌ ${failed.length} of ${TESTS.length} test script(s) failed: ${failed.join(", ")}`);
+  process.exit(1);
+}
+console.log(`\n✅ All ${TESTS.length} test scripts passed`);
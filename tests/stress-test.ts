@@ -8,29 +8,24 @@
  * 4. Recovers and recreates container
  * 5. Resumes session and completes task
  * 
- * Run with: npm run test
+ * Run with: npm run test:stress
  */
 
 import "dotenv/config";
-import { generateText } from "ai";
-import { createGateway } from "@ai-sdk/gateway";
+import { generateText, stepCountIs } from "ai";
 import { config } from "../src/config/env.js";
+import { getModel } from "../src/agent/provider.js";
 import { logger } from "../src/utils/logger.js";
 import { initDB, runMigrations } from "../src/db/index.js";
 import { Session } from "../src/agent/session.js";
 import { tools } from "../src/agent/tools.js";
 import { extractUsage } from "../src/agent/tokenCounter.js";
-import { ensureContainer, stopContainer } from "../src/docker/manager.js";
+import { ensureContainer, stopContainer, getContainerName, snapshotContainer } from "../src/docker/manager.js";
 import Docker from "dockerode";
 
 const docker = new Docker();
-const CONTAINER_NAME = "runable-sandbox";
 
-// Initialize gateway
-const gateway = createGateway({
-  apiKey: config.apiKey,
-});
-const model = gateway(config.model);
+const model = getModel();
 
 const SYSTEM_PROMPT = `You are a coding assistant with access to shell commands, file reading, and file writing.
 Work in a sandboxed Docker environment. Be concise and focus on completing tasks.`;
@@ -48,15 +43,19 @@ async function runAgent(session: Session, userMessage: string) {
     model,
     messages,
     tools,
-    maxSteps: 10,
+    stopWhen: stepCountIs(10),
+    experimental_context: { sessionId: session.getId() },
   });
 
+  // result.usage is the final step's usage - its input is the whole prompt
   const usage = extractUsage(result.usage);
   
   // Handle responses with tool calls but no text
   const responseText = result.text || "(Used tools to complete the task)";
-  session.addAssistantMessage(responseText, usage.totalTokens);
+  session.addResponseMessages(result.response.messages);
   session.updateTokenCount(usage.inputTokens, usage.outputTokens);
+  session.recordConversationUsage(extractUsage(result.totalUsage), result.steps.length);
+  await snapshotContainer(session.getId(), "turn");
 
   console.log(`\n🤖 Assistant: ${responseText}`);
   if (result.toolCalls && result.toolCalls.length > 0) {
@@ -76,13 +75,15 @@ async function runAgent(session: Session, userMessage: string) {
 /**
  * Kill Docker container (for real!)
  */
-async function killContainer() {
+async function killContainer(sessionId: string) {
+  const containerName = getContainerName(sessionId);
+
   try {
-    const container = docker.getContainer(CONTAINER_NAME);
+    const container = docker.getContainer(containerName);
     const info = await container.inspect();
     
     if (info.State.Running) {
-      console.log(`\n💥 KILLING Docker container: ${CONTAINER_NAME}`);
+      console.log(`\n💥 KILLING Docker container: ${containerName}`);
       console.log(`   PID: ${info.State.Pid}`);
       console.log(`   Status before kill: ${info.State.Status}`);
       
@@ -121,16 +122,16 @@ async function stressTest() {
   runMigrations();
   console.log("✅ Database ready");
 
-  console.log("\n🐳 Step 2: Starting Docker container...");
-  await ensureContainer();
-  console.log("✅ Docker container ready");
-
   // Create session
-  console.log("\n📝 Step 3: Creating new session...");
+  console.log("\n📝 Step 2: Creating new session...");
   const session = await Session.loadOrCreate();
   const sessionId = session.getId();
   console.log(`✅ Session created: ${sessionId.substring(0, 8)}...`);
 
+  console.log("\n🐳 Step 3: Starting the session's Docker container...");
+  await ensureContainer(sessionId);
+  console.log("✅ Docker container ready");
+
   // Long running task
   console.log("\n" + "=".repeat(70));
   console.log("🚀 Step 4: Starting LONG TASK (multiple messages)");
@@ -162,7 +163,7 @@ async function stressTest() {
   console.log("\n" + "=".repeat(70));
   console.log("💥 Step 6: KILLING DOCKER CONTAINER (for real, not simulated!)");
   console.log("=".repeat(70));
-  await killContainer();
+  await killContainer(sessionId);
   console.log("\n⏳ Waiting 2 seconds to let it fully die...");
   await new Promise(resolve => setTimeout(resolve, 2000));
 
@@ -180,10 +181,10 @@ async function stressTest() {
 
   // Verify recovery
   console.log("\n🐳 Step 8: Verifying Docker recovery...");
-  await ensureContainer();
+  await ensureContainer(sessionId);
   
   // Verify container is actually running
-  const container = docker.getContainer(CONTAINER_NAME);
+  const container = docker.getContainer(getContainerName(sessionId));
   const recoveredInfo = await container.inspect();
   console.log("✅ Docker container recovered!");
   console.log(`   New PID: ${recoveredInfo.State.Pid}`);
@@ -220,6 +221,9 @@ async function stressTest() {
   console.log(`   ✅ Session persisted and resumed: ${sessionId.substring(0, 8)}...`);
   console.log(`   ✅ Total tokens managed: ${finalState.totalTokens}`);
   console.log(`   ✅ Context compaction: ${finalState.summary ? 'WORKED' : 'Not triggered'}`);
+  for (const row of resumedSession.getUsage()) {
+    console.log(`   💰 ${row.kind} usage (${row.model}): ${row.total_tokens} tokens in ${row.calls} call(s)`);
+  }
   console.log(`   ✅ Docker crash recovery: WORKED`);
   console.log(`   ✅ Session persistence: WORKED`);
   console.log(`   ✅ Files survived container kill: VERIFIED`);
@@ -229,7 +233,7 @@ async function stressTest() {
 
   // Cleanup
   console.log("\n🧹 Cleaning up...");
-  await stopContainer();
+  await stopContainer(sessionId);
   console.log("✅ Cleanup complete");
 }
 
@@ -0,0 +1,78 @@
+/**
+ * Test script for stopping a turn: tool calls that already ran stay in the
+ * history even if their step never finished (offline)
+ * Run with: npx tsx tests/test-abort.ts
+ */
+
+import { check } from "./offline.js";
+import type { ModelMessage } from "ai";
+import { initDB, runMigrations } from "../src/db/index.js";
+import { setExecBackend } from "../src/exec/backend.js";
+import { FakeExecBackend } from "../src/exec/fake.js";
+import { setMockFixture } from "../src/agent/provider.js";
+import { Session } from "../src/agent/session.js";
+import { SYSTEM_PROMPT, runAgent } from "../src/agent/agent.js";
+
+// Ctrl+C while the migration runs
+const controller = new AbortController();
+setExecBackend(new FakeExecBackend((cmd) => {
+  if (cmd === "npm run migrate") {
+    controller.abort();
+  }
+  return { stdout: "ok\n" };
+}));
+setMockFixture({
+  turns: [
+    {
+      match: "migrate",
+      steps: [
+        { toolCalls: [{ toolName: "run_shell", input: { command: "npm ci" } }] },
+        { toolCalls: [{ toolName: "run_shell", input: { command: "npm run migrate" } }] },
+        { text: "Migrated.", toolCalls: [] },
+      ],
+    },
+  ],
+});
+
+function parts(message: ModelMessage): any[] {
+  return typeof message.content === "string" ? [] : message.content;
+}
+
+async function testAbortDuringTool() {
+  console.log("\n🧪 Stopping a turn during a tool call");
+  console.log("=".repeat(50));
+
+  initDB();
+  runMigrations();
+
+  const session = await Session.loadOrCreate(undefined, SYSTEM_PROMPT);
+  const result = await runAgent(session, "Install and migrate", { abortSignal: controller.signal });
+  check(result.aborted, "the turn is aborted");
+
+  const messages = session.getAllMessages();
+  const calls = messages.filter(msg => msg.role === "assistant").flatMap(parts).filter(part => part.type === "tool-call");
+  const results = messages.filter(msg => msg.role === "tool").flatMap(parts);
+  check(calls.map(call => call.input.command).join(",") === "npm ci,npm run migrate", "the stopped step's tool call is kept after the finished step's");
+  check(results.length === 2 && results.every(part => calls.some(call => call.toolCallId === part.toolCallId)), "every kept call has a result");
+  check(
+    results.some(part => part.toolCallId === calls[1].toolCallId && part.output.type === "json" && part.output.value.stdout === "ok\n"),
+    "the stopped step's call keeps the result it finished with"
+  );
+
+  const turn = session.getRuns().find(run => run.kind === "turn");
+  check(turn?.status === "aborted", "the turn is recorded as aborted");
+
+  const next = await runAgent(session, "What happened?");
+  check(!next.aborted && session.getAllMessages().at(-1)?.role === "assistant", "the next turn runs on the kept history");
+}
+
+async function main() {
+  await testAbortDuringTool();
+
+  console.log("\n✅ All abort tests passed!");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+/**
+ * Test script for the agent loop against the scripted mock model (offline)
+ * Run with: npx tsx tests/test-agent-loop.ts
+ */
+
+import { check } from "./offline.js";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { config } from "../src/config/env.js";
+import { initDB, runMigrations } from "../src/db/index.js";
+import { setExecBackend } from "../src/exec/backend.js";
+import { FakeExecBackend } from "../src/exec/fake.js";
+import { Session } from "../src/agent/session.js";
+import { SYSTEM_PROMPT, runAgent } from "../src/agent/agent.js";
+
+const backend = new FakeExecBackend((cmd) => {
+  if (cmd === "python3 fibonacci.py") {
+    return { stdout: "[0, 1, 1, 2, 3, 5, 8, 13, 21, 34]\n" };
+  }
+  return undefined;
+});
+setExecBackend(backend);
+
+async function testAgentLoop() {
+  console.log("\n🧪 Agent loop on the mock model");
+  console.log("=".repeat(50));
+
+  initDB();
+  runMigrations();
+
+  const session = await Session.loadOrCreate(undefined, SYSTEM_PROMPT);
+  const started: string[] = [];
+  const result = await runAgent(session, "Write a fibonacci script and run it", {
+    onToolStart: (toolName) => started.push(toolName),
+  });
+
+  check(result.text.includes("Created fibonacci.py") && !result.aborted, "turn finishes with the scripted reply");
+  check(started.join(",") === "write_file,run_shell", "tools run in the scripted order");
+  check(readFileSync(join(config.workspace.hostDir, "fibonacci.py"), "utf-8").includes("def fib"), "write_file wrote to the workspace");
+  check(backend.commands.some(command => command.cmd === "python3 fibonacci.py"), "run_shell ran on the exec backend");
+
+  const roles = session.getAllMessages().map(message => message.role);
+  check(roles.join(",") === "user,assistant,tool,assistant,tool,assistant", "tool calls and results are stored with the turn");
+
+  const runs = session.getRuns();
+  check(runs[0]?.kind === "turn" && runs[0].status === "completed", "turn is recorded as completed");
+  check(runs.filter(run => run.kind === "step").length === 3, "each model call is recorded as a step");
+
+  const [usage] = session.getUsage();
+  check(usage?.kind === "conversation" && usage.calls === 3, "usage counts every model call of the turn");
+
+  const reloaded = await Session.loadOrCreate(session.getId(), SYSTEM_PROMPT);
+  check(reloaded.getState().totalTokens > 0 && !reloaded.getPendingTurn(), "session reloads with no pending turn");
+
+  console.log("\n✅ All agent loop tests passed!");
+}
+
+testAgentLoop().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -78,21 +78,26 @@ async function testDockerRecovery() {
   console.log("\n🐳 Test 3: Docker Container Recovery");
   console.log("=" .repeat(50));
   
-  console.log("Ensuring container exists...");
-  await ensureContainer();
+  const session = await Session.loadOrCreate();
+  const sessionId = session.getId();
+
+  console.log(`Ensuring container exists for session ${sessionId}...`);
+  await ensureContainer(sessionId);
   console.log("✅ Container is running");
   
   console.log("Stopping container to simulate crash...");
   try {
-    await stopContainer();
+    await stopContainer(sessionId);
     console.log("✅ Container stopped");
   } catch (error: any) {
     console.log(`Note: ${error.message}`);
   }
   
   console.log("Attempting to ensure container (should recreate)...");
-  await ensureContainer();
+  await ensureContainer(sessionId);
   console.log("✅ Container recovered/recreated successfully!");
+
+  await stopContainer(sessionId);
 }
 
 async function testCompactionThreshold() {
@@ -101,7 +106,7 @@ async function testCompactionThreshold() {
   
   console.log(`Max Tokens: ${config.maxTokens.toLocaleString()}`);
   console.log(`Compact At: ${config.compactAtTokens.toLocaleString()} (${config.compactAtPercent}%)`);
-  console.log(`Keep Recent Messages: ${config.keepRecentMessages}`);
+  console.log(`Keep Recent: ${config.keepRecentTokens.toLocaleString()} tokens (${config.keepRecentPercent}%)`);
   
   const session = await Session.loadOrCreate();
   const state = session.getState();
@@ -129,16 +134,6 @@ async function runAllTests() {
     console.log("\n" + "=" .repeat(50));
     console.log("✅ All tests passed!");
     console.log("=" .repeat(50));
-    
-    // Cleanup: stop container
-    console.log("\nCleaning up...");
-    try {
-      await stopContainer();
-      console.log("✅ Container stopped");
-    } catch (error) {
-      // Ignore cleanup errors
-    }
-    
   } catch (error: any) {
     console.log("\n" + "=" .repeat(50));
     console.log("❌ Test failed!");
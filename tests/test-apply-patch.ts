@@ -0,0 +1,137 @@
+/**
+ * Test script for the apply_patch tool: multi-file patches apply all or
+ * nothing (offline, host file I/O)
+ * Run with: npx tsx tests/test-apply-patch.ts
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { check, executeTool } from "./offline.js";
+import { config } from "../src/config/env.js";
+import { applyPatchTool } from "../src/agent/tools.js";
+
+const workspace = config.workspace.hostDir;
+
+async function applyPatch(patch: string) {
+  return executeTool(applyPatchTool, { patch });
+}
+
+function seed(files: Record<string, string>): void {
+  mkdirSync(workspace, { recursive: true });
+  for (const [path, content] of Object.entries(files)) {
+    writeFileSync(join(workspace, path), content, "utf-8");
+  }
+}
+
+function read(path: string): string {
+  return readFileSync(join(workspace, path), "utf-8");
+}
+
+async function testSecondFileFails() {
+  console.log("\n🧪 A patch whose second file fails");
+  console.log("=".repeat(50));
+
+  seed({ "first.txt": "one\ntwo\nthree\n", "blocker.txt": "a file, not a directory\n" });
+
+  // The second file can only be written under blocker.txt, which is a file
+  const result = await applyPatch([
+    "--- a/first.txt",
+    "+++ b/first.txt",
+    "@@ -1,3 +1,3 @@",
+    " one",
+    "-two",
+    "+TWO",
+    " three",
+    "--- /dev/null",
+    "+++ b/blocker.txt/nested.txt",
+    "@@ -0,0 +1 @@",
+    "+new",
+    "",
+  ].join("\n"));
+
+  check("errorCode" in result && result.errorCode === "io_error", "the patch fails");
+  check(read("first.txt") === "one\ntwo\nthree\n", "the first file keeps its original content");
+  check(read("blocker.txt") === "a file, not a directory\n", "the blocking file is untouched");
+  check(readdirSync(workspace).every(name => !name.includes(".patch-")), "no staged temp files are left behind");
+}
+
+async function testFailureAfterCommit() {
+  console.log("\n🧪 A patch that fails after files were replaced");
+  console.log("=".repeat(50));
+
+  seed({ "source.txt": "original\n", "other.txt": "untouched\n" });
+
+  // The rename removes source.txt, so the later deletion of it fails
+  const result = await applyPatch([
+    "--- a/other.txt",
+    "+++ b/other.txt",
+    "@@ -1 +1 @@",
+    "-untouched",
+    "+changed",
+    "--- a/source.txt",
+    "+++ b/target.txt",
+    "@@ -1 +1 @@",
+    "-original",
+    "+renamed",
+    "--- a/source.txt",
+    "+++ /dev/null",
+    "@@ -1 +0,0 @@",
+    "-original",
+    "",
+  ].join("\n"));
+
+  check("errorCode" in result && result.errorCode === "not_found", "the patch fails on the second deletion");
+  check(read("other.txt") === "untouched\n", "the replaced file is restored");
+  check(read("source.txt") === "original\n", "the renamed file is back under its old name");
+  check(!existsSync(join(workspace, "target.txt")), "the rename target is removed again");
+}
+
+async function testPatchApplies() {
+  console.log("\n🧪 A patch across several files");
+  console.log("=".repeat(50));
+
+  seed({ "keep.txt": "alpha\nbeta\n", "old-name.txt": "moved\n", "gone.txt": "bye\n" });
+
+  const result = await applyPatch([
+    "--- a/keep.txt",
+    "+++ b/keep.txt",
+    "@@ -1,2 +1,2 @@",
+    " alpha",
+    "-beta",
+    "+gamma",
+    "--- a/old-name.txt",
+    "+++ b/new-name.txt",
+    "@@ -1 +1 @@",
+    "-moved",
+    "+moved and renamed",
+    "--- a/gone.txt",
+    "+++ /dev/null",
+    "@@ -1 +0,0 @@",
+    "-bye",
+    "--- /dev/null",
+    "+++ b/added/file.txt",
+    "@@ -0,0 +1 @@",
+    "+hello",
+    "",
+  ].join("\n"));
+
+  check(result.success, "the patch applies");
+  check(read("keep.txt") === "alpha\ngamma\n", "the modified file has the new content");
+  check(!existsSync(join(workspace, "old-name.txt")) && read("new-name.txt") === "moved and renamed\n", "the renamed file moved");
+  check(!existsSync(join(workspace, "gone.txt")), "the deleted file is gone");
+  check(read("added/file.txt") === "hello\n", "the new file is created with its directory");
+  check(readdirSync(workspace).every(name => !name.includes(".patch-")), "no staged temp files are left behind");
+}
+
+async function main() {
+  await testSecondFileFails();
+  await testFailureAfterCommit();
+  await testPatchApplies();
+
+  console.log("\n✅ All apply_patch tests passed!");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+/**
+ * Test script for the approval policy: rule matching by tool, command and
+ * path, and how allow, ask and deny decisions reach the tools (offline)
+ * Run with: npx tsx tests/test-approval.ts
+ */
+
+import { check, executeTool, testDir } from "./offline.js";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import type { ApprovalRequest } from "../src/agent/approval.js";
+
+const POLICY_PATH = join(testDir, "approval-policy.json");
+writeFileSync(POLICY_PATH, JSON.stringify({
+  default: "allow",
+  rules: [
+    { action: "deny", command: String.raw`\brm\s+-rf\s+/(\s|$)`, reason: "Deleting the root directory" },
+    { action: "ask", tools: ["write_file", "edit_file", "apply_patch"], path: ".github/**", reason: "CI configuration" },
+    { action: "ask", command: String.raw`\bgit\s+push\b`, reason: "Publishes commits" },
+    { action: "allow", tools: ["run_shell"], command: "^git " },
+  ],
+}), "utf-8");
+
+// Set before the config loads, so the modules below are imported dynamically
+process.env.APPROVAL_POLICY_PATH = POLICY_PATH;
+
+const { initDB, runMigrations } = await import("../src/db/index.js");
+const { getApprovals, createSession } = await import("../src/db/client.js");
+const { setExecBackend } = await import("../src/exec/backend.js");
+const { FakeExecBackend } = await import("../src/exec/fake.js");
+const { evaluateToolCall, authorizeToolCall, loadApprovalPolicy } = await import("../src/agent/approval.js");
+const { tools } = await import("../src/agent/tools.js");
+
+const backend = new FakeExecBackend(() => ({ stdout: "ok\n" }));
+setExecBackend(backend);
+
+async function testRuleMatching() {
+  console.log("\n🧪 Rule matching");
+  console.log("=".repeat(50));
+
+  const denied = evaluateToolCall("run_shell", { command: "rm -rf /" });
+  check(denied.action === "deny" && denied.rule?.index === 0, "a command rule denies a matching command");
+  check(evaluateToolCall("run_shell", { command: "rm -rf /tmp/build" }).action === "allow", "the command regex doesn't over-match");
+
+  check(evaluateToolCall("write_file", { path: ".github/workflows/ci.yml" }).action === "ask", "a path rule matches a glob under the directory");
+  check(evaluateToolCall("write_file", { path: "./src/../.github/ci.yml" }).action === "ask", "paths are normalized before matching");
+  check(evaluateToolCall("read_file", { path: ".github/workflows/ci.yml" }).action === "allow", "a path rule only applies to its tools");
+
+  const patch = [
+    "--- /dev/null",
+    "+++ b/.github/CODEOWNERS",
+    "@@ -0,0 +1 @@",
+    "+* @maintainers",
+    "",
+  ].join("\n");
+  check(evaluateToolCall("apply_patch", { patch }).action === "ask", "the paths inside a patch are matched");
+
+  const push = evaluateToolCall("run_shell", { command: "git push origin main" });
+  check(push.action === "ask" && push.rule?.index === 2, "the first matching rule wins over later ones");
+  check(evaluateToolCall("run_shell", { command: "git status" }).rule?.index === 3, "later rules still match what earlier ones don't");
+  check(evaluateToolCall("list_dir", {}).action === "allow" && !evaluateToolCall("list_dir", {}).rule, "calls no rule matches get the default");
+
+  const badPath = join(testDir, "bad-policy.json");
+  writeFileSync(badPath, JSON.stringify({ rules: [{ action: "deny", command: "(" }] }), "utf-8");
+  let error = "";
+  try {
+    loadApprovalPolicy(badPath);
+  } catch (e: any) {
+    error = e.message;
+  }
+  check(error.startsWith(`Invalid approval policy ${badPath}: rule 1 command`), "an invalid rule regex is reported with its rule number");
+}
+
+async function testDecisions() {
+  console.log("\n🧪 Decisions through the tools");
+  console.log("=".repeat(50));
+
+  initDB();
+  runMigrations();
+  const sessionId = createSession().id;
+
+  const denied = await executeTool(tools.run_shell, { command: "rm -rf /" }, { sessionId });
+  check("errorCode" in denied && denied.errorCode === "denied", "a denied call returns a denied error");
+  check(backend.commands.length === 0, "a denied command never runs");
+
+  const unasked = await executeTool(tools.run_shell, { command: "git push" }, { sessionId });
+  check("errorCode" in unasked && unasked.errorCode === "denied", "an ask call is denied when no one can be asked");
+
+  const asked: ApprovalRequest[] = [];
+  const context = {
+    sessionId,
+    requestApproval: async (request: ApprovalRequest) => {
+      asked.push(request);
+      return { approved: true as const, remember: true };
+    },
+  };
+  const pushed = await executeTool(tools.run_shell, { command: "git push" }, context);
+  check(pushed.success && asked.length === 1 && asked[0].reason === "Publishes commits", "an approved call runs after asking");
+
+  const again = await authorizeToolCall("run_shell", { command: "git push --tags" }, "call-again", context);
+  check(again.approved && asked.length === 1, "a remembered approval isn't asked again in the session");
+
+  const rejected = await authorizeToolCall("write_file", { path: ".github/ci.yml" }, "call-rejected", {
+    sessionId,
+    requestApproval: async () => ({ approved: false, reason: "not now" }),
+  });
+  check(!rejected.approved && rejected.reason === "Denied by the user: not now", "a rejected call carries the user's reason");
+
+  const decisions = getApprovals(sessionId).reverse().map(record => `${record.decided_by}:${record.approved}`);
+  check(
+    decisions.join(",") === "policy:0,policy:0,user:1,session:1,user:0",
+    "every decision except plain default allows is recorded"
+  );
+}
+
+async function main() {
+  await testRuleMatching();
+  await testDecisions();
+
+  console.log("\n✅ All approval tests passed!");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
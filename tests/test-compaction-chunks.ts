@@ -0,0 +1,124 @@
+/**
+ * Test script for map-reduce compaction: history too large for one call is
+ * packed into chunks, and each chunk is summarized on top of the summary so
+ * far (offline)
+ * Run with: npx tsx tests/test-compaction-chunks.ts
+ */
+
+import { check } from "./offline.js";
+import type { ModelMessage } from "ai";
+
+// Small chunks and a small verbatim budget, so a short history needs several
+// chunks; set before the config loads, so the modules below are imported dynamically
+process.env.COMPACTION_CHUNK_TOKENS = "1000";
+process.env.KEEP_RECENT_PERCENT = "1";
+
+const { config } = await import("../src/config/env.js");
+const { setMockFixture } = await import("../src/agent/provider.js");
+const { mockModelCalls } = await import("../src/agent/mockModel.js");
+const { compactConversation, chunkMessagesForCompaction, chooseSplitIndex } = await import("../src/agent/compactor.js");
+const { getTokenizer } = await import("../src/agent/tokenCounter.js");
+
+const CHUNK_TOKENS = config.compactionChunkTokens;
+const compactionTokenizer = getTokenizer(config.compaction.model);
+
+setMockFixture({
+  turns: [],
+  object: {
+    goal: "Ship the todo API",
+    currentPlan: ["Add routes", "Add tests"],
+    keyDecisions: ["Use PostgreSQL"],
+    factsConstraints: [],
+    toolResults: [],
+    openQuestions: [],
+  },
+});
+
+// Turn 4's reply is a log far larger than a whole chunk
+const OVERSIZED_INDEX = 7;
+
+function history(): ModelMessage[] {
+  const messages: ModelMessage[] = [];
+  for (let turn = 0; turn < 12; turn++) {
+    messages.push({ role: "user", content: `Step ${turn}: ${"please continue with the next part ".repeat(8)}` });
+    messages.push({
+      role: "assistant",
+      content: messages.length === OVERSIZED_INDEX
+        ? Array.from({ length: 800 }, (_, i) => `line ${i} of the build log`).join("\n")
+        : `Done with step ${turn}. ${"the change compiles and the tests pass ".repeat(30)}`,
+    });
+  }
+  return messages;
+}
+
+function promptText(call: (typeof mockModelCalls)[number]): string {
+  return call.prompt
+    .flatMap(message => (typeof message.content === "string" ? [message.content] : message.content.map(part => ("text" in part ? part.text : ""))))
+    .join("\n");
+}
+
+async function testChunking() {
+  console.log("\n🧪 Packing messages into chunks");
+  console.log("=".repeat(50));
+
+  const messages = history();
+  const chunks = chunkMessagesForCompaction(messages, CHUNK_TOKENS);
+
+  check(chunks.length > 2, "a history over the chunk size is split into several chunks");
+  check(
+    chunks.flatMap(chunk => chunk.messages).every((message, i) => message === messages[i]) && chunks.flatMap(chunk => chunk.messages).length === messages.length,
+    "chunks hold every message once, in order"
+  );
+  check(chunks.every(chunk => chunk.tokens <= CHUNK_TOKENS), "no chunk exceeds the chunk size");
+  check(
+    chunks.slice(1).every((chunk, i) => chunks[i].tokens + compactionTokenizer.count(chunk.text[0]) > CHUNK_TOKENS),
+    "a chunk only ends when its next message doesn't fit"
+  );
+  check(
+    chunks.every(chunk => chunk.text.every((text, i) => text.startsWith(`[${messages.indexOf(chunk.messages[i]) + 1}] `))),
+    "messages are numbered by their position in the whole history"
+  );
+
+  const oversized = chunks.find(chunk => chunk.messages.includes(messages[OVERSIZED_INDEX]))!;
+  check(oversized.messages.length === 1, "a message larger than a chunk gets a chunk of its own");
+  check(/\.\.\.\[\d+ characters truncated\]$/.test(oversized.text[0]) && oversized.text[0].startsWith(`[${OVERSIZED_INDEX + 1}] ASSISTANT: line 0 of`), "it is cut to fit, keeping its start");
+  check(oversized.tokens <= CHUNK_TOKENS && oversized.tokens > CHUNK_TOKENS * 0.5, "the cut keeps most of the chunk size");
+}
+
+async function testMapReduce() {
+  console.log("\n🧪 Summarizing chunk by chunk");
+  console.log("=".repeat(50));
+
+  const messages = history();
+  const keepFrom = chooseSplitIndex(messages, config.keepRecentTokens, getTokenizer(config.model));
+  const chunks = chunkMessagesForCompaction(messages.slice(0, keepFrom), CHUNK_TOKENS);
+
+  const callsBefore = mockModelCalls.length;
+  const result = await compactConversation({ messages });
+  const calls = mockModelCalls.slice(callsBefore);
+  const prompts = calls.map(promptText);
+
+  check(result.keepMessagesFromIndex === keepFrom && result.compactedMessageCount === keepFrom, "the messages before the split are compacted");
+  check(chunks.length > 1 && result.calls === chunks.length, "one model call is counted per chunk");
+  check(calls.length === chunks.length && calls.every(call => call.structured && call.modelId === config.compaction.model), "each chunk is one structured call to the compaction model");
+  check(prompts.every((prompt, i) => prompt.includes(`part ${i + 1} of ${chunks.length}`)), "each call says which part it is");
+  check(prompts.every((prompt, i) => prompt.includes(chunks[i].text.join("\n\n"))), "each call gets its own chunk's messages");
+  check(!prompts[0].includes("## Existing Summary"), "the first chunk starts without a summary");
+  check(
+    prompts.slice(1).every(prompt => prompt.includes("## Existing Summary") && prompt.includes("Ship the todo API") && prompt.includes("Use PostgreSQL")),
+    "later chunks get the summary of the chunks before them"
+  );
+  check(result.summary.goal === "Ship the todo API" && result.summary.keyDecisions.length === 1, "the chunk summaries merge into one");
+}
+
+async function main() {
+  await testChunking();
+  await testMapReduce();
+
+  console.log("\n✅ All map-reduce compaction tests passed!");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
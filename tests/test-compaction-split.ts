@@ -0,0 +1,113 @@
+/**
+ * Test script for the compaction building blocks: token counting, where the
+ * history is split and how summaries merge (offline)
+ * Run with: npx tsx tests/test-compaction-split.ts
+ */
+
+import { check } from "./offline.js";
+import type { ModelMessage } from "ai";
+import { chooseSplitIndex } from "../src/agent/compactor.js";
+import { getTokenizer, countMessageTokens, countMessagesTokens } from "../src/agent/tokenCounter.js";
+import { emptySummary, mergeSummaries, isEmptySummary, parseSummary, serializeSummary } from "../src/agent/summary.js";
+
+const tokenizer = getTokenizer("anthropic/claude-sonnet-4.5");
+
+function toolTurn(prompt: string, output: string): ModelMessage[] {
+  const toolCallId = `call-${prompt.length}-${output.length}`;
+  return [
+    { role: "user", content: prompt },
+    { role: "assistant", content: [{ type: "tool-call", toolCallId, toolName: "run_shell", input: { command: "ls" } }] },
+    { role: "tool", content: [{ type: "tool-result", toolCallId, toolName: "run_shell", output: { type: "text", value: output } }] },
+    { role: "assistant", content: `Done: ${prompt}` },
+  ];
+}
+
+async function testTokenizer() {
+  console.log("\n🧪 Token counting");
+  console.log("=".repeat(50));
+
+  check(getTokenizer("gpt-4o") === getTokenizer("google/gemini-2.5-pro") && getTokenizer("gpt-4o") !== tokenizer, "tokenizers are picked by model family");
+  check(getTokenizer("unknown/model") === tokenizer, "unknown families get the small vocabulary estimate");
+  check(getTokenizer("gpt-4o").count("internationalization") < tokenizer.count("internationalization"), "larger vocabularies merge long words into fewer tokens");
+  check(tokenizer.count("hello world") === 2, "common words are one token each");
+  check(tokenizer.count("1234567") === 3, "numbers split into groups of up to 3 digits");
+  check(tokenizer.count("你好世界") === 4, "unspaced scripts count per character");
+  check(tokenizer.encode("internationalization").join("") === "internationalization", "long words split into pieces without losing text");
+
+  const [user, call, result] = toolTurn("list files", "a.txt\nb.txt");
+  check(countMessageTokens(user, tokenizer) === 4 + tokenizer.count("list files"), "a message adds its role overhead");
+  check(countMessageTokens(call, tokenizer) > 4 && countMessageTokens(result, tokenizer) > 4, "tool calls and results are counted");
+  check(countMessagesTokens([user, call], tokenizer) === countMessageTokens(user, tokenizer) + countMessageTokens(call, tokenizer), "a prompt is the sum of its messages");
+}
+
+async function testSplitIndex() {
+  console.log("\n🧪 Split selection");
+  console.log("=".repeat(50));
+
+  const turns = [toolTurn("first", "x ".repeat(200)), toolTurn("second", "y ".repeat(200)), toolTurn("third", "z ".repeat(200))];
+  const messages = turns.flat();
+  const turnTokens = countMessagesTokens(turns[2], tokenizer);
+
+  check(chooseSplitIndex(messages, countMessagesTokens(messages, tokenizer), tokenizer) === 0, "nothing is compacted when everything fits");
+  check(chooseSplitIndex(messages, turnTokens * 2 + 10, tokenizer) === 4, "the recent turns that fit are kept");
+  check(chooseSplitIndex(messages, turnTokens + 10, tokenizer) === 8, "one turn's budget keeps the latest turn");
+  check(chooseSplitIndex(messages, 1, tokenizer) === 8, "the latest turn is kept even if it alone exceeds the budget");
+
+  const split = chooseSplitIndex(messages, turnTokens * 2 - 10, tokenizer);
+  check(messages[split].role === "user", "splits land on a user message, never between a tool call and its result");
+}
+
+async function testSummaryMerge() {
+  console.log("\n🧪 Summary merging");
+  console.log("=".repeat(50));
+
+  const existing = {
+    goal: "Build a todo API",
+    currentPlan: ["Set up Express", "Add routes"],
+    keyDecisions: ["Use PostgreSQL"],
+    factsConstraints: ["Node 20"],
+    toolResults: ["npm install succeeded"],
+    openQuestions: ["Which auth?"],
+  };
+  const update = {
+    goal: "",
+    currentPlan: [],
+    keyDecisions: ["use postgresql", "Use JWT auth"],
+    factsConstraints: ["Port 3000"],
+    toolResults: [],
+    openQuestions: [],
+  };
+
+  const merged = mergeSummaries(existing, update, 4000);
+  check(merged.goal === "Build a todo API", "an empty goal keeps the existing one");
+  check(merged.currentPlan.join("|") === "Set up Express|Add routes", "an empty plan keeps the current one");
+  check(merged.keyDecisions.join("|") === "use postgresql|Use JWT auth", "decisions accumulate, repeated ones kept once at their latest position");
+  check(merged.factsConstraints.join("|") === "Node 20|Port 3000", "facts accumulate");
+  check(merged.openQuestions.length === 0, "open questions are replaced, even by none");
+
+  const crowded = mergeSummaries(emptySummary(), {
+    ...emptySummary(),
+    goal: "Keep going",
+    factsConstraints: Array.from({ length: 200 }, (_, i) => `fact number ${i} about the project`),
+    toolResults: ["tests pass"],
+  }, 2000);
+  check(crowded.factsConstraints.at(-1) === "fact number 199 about the project", "an oversized section keeps its newest items");
+  check(crowded.factsConstraints.join("\n").length <= 2000 * 0.3, "an oversized section is cut to its share");
+  check(crowded.toolResults[0] === "tests pass" && crowded.goal === "Keep going", "other sections survive an oversized one");
+
+  check(isEmptySummary(parseSummary(null)) && !isEmptySummary(merged), "a missing summary parses as empty");
+  check(JSON.stringify(parseSummary(serializeSummary(merged))) === JSON.stringify(merged), "summaries round-trip through their stored form");
+}
+
+async function main() {
+  await testTokenizer();
+  await testSplitIndex();
+  await testSummaryMerge();
+
+  console.log("\n✅ All compaction building block tests passed!");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -3,7 +3,10 @@
  * Run with: bun run test-compactor.ts
  */
 
-import { compactConversation } from "../src/agent/compactor.js";
+import { compactConversation, chooseSplitIndex } from "../src/agent/compactor.js";
+import { getTokenizer } from "../src/agent/tokenCounter.js";
+import { config } from "../src/config/env.js";
+import { renderSummaryMarkdown } from "../src/agent/summary.js";
 import type { ModelMessage } from "ai";
 
 async function testCompactor() {
@@ -40,9 +43,11 @@ async function testCompactor() {
     { role: "user", content: "Finally, can you add a README with setup instructions?" },
   ];
 
+  const keepFrom = chooseSplitIndex(messages, config.keepRecentTokens, getTokenizer(config.model));
+
   console.log(`Total messages: ${messages.length}`);
-  console.log(`Messages to compact: ${messages.length - 20}`);
-  console.log(`Messages to keep: 20\n`);
+  console.log(`Messages to compact: ${keepFrom}`);
+  console.log(`Messages to keep: ${messages.length - keepFrom} (budget ${config.keepRecentTokens} tokens)\n`);
 
   const result = await compactConversation({
     messages,
@@ -50,10 +55,10 @@ async function testCompactor() {
 
   console.log("=== COMPACTION RESULT ===\n");
   console.log(`Compacted ${result.compactedMessageCount} messages`);
-  console.log(`Summary length: ${result.newSummary.length} characters`);
+  console.log(`Summary length: ${renderSummaryMarkdown(result.summary).length} characters`);
   console.log(`Token usage: ${result.usage.totalTokens} total\n`);
   console.log("=== NEW SUMMARY ===\n");
-  console.log(result.newSummary);
+  console.log(renderSummaryMarkdown(result.summary));
 }
 
 testCompactor().catch(console.error);
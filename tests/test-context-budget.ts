@@ -0,0 +1,78 @@
+/**
+ * Test script for the per-step context budget: a tool result that overflows
+ * the budget mid-turn is truncated before the next model call (offline)
+ * Run with: npx tsx tests/test-context-budget.ts
+ */
+
+import { check } from "./offline.js";
+import type { ContextBudgetReport } from "../src/agent/session.js";
+
+// A small window, so one large tool result overflows it; set before the
+// config loads, so the modules below are imported dynamically
+process.env.MAX_TOKENS = "8000";
+process.env.OUTPUT_RESERVE_TOKENS = "1000";
+process.env.TOOL_OUTPUT_MAX_CHARS = "60000";
+
+const { config } = await import("../src/config/env.js");
+const { initDB, runMigrations } = await import("../src/db/index.js");
+const { setExecBackend } = await import("../src/exec/backend.js");
+const { FakeExecBackend } = await import("../src/exec/fake.js");
+const { setMockFixture } = await import("../src/agent/provider.js");
+const { Session } = await import("../src/agent/session.js");
+const { SYSTEM_PROMPT, runAgent } = await import("../src/agent/agent.js");
+
+const BIG_OUTPUT = Array.from({ length: 2000 }, (_, i) => `log line ${i}: request handled in ${i % 97} ms`).join("\n");
+
+setExecBackend(new FakeExecBackend((cmd) => (cmd === "cat server.log" ? { stdout: BIG_OUTPUT } : undefined)));
+setMockFixture({
+  turns: [
+    {
+      match: "log",
+      steps: [
+        { toolCalls: [{ toolName: "run_shell", input: { command: "cat server.log" } }] },
+        { text: "The log shows normal request times.", toolCalls: [] },
+      ],
+    },
+  ],
+  object: {
+    goal: "Check the server log",
+    currentPlan: [],
+    keyDecisions: [],
+    factsConstraints: [],
+    toolResults: [],
+    openQuestions: [],
+  },
+});
+
+async function testContextBudget() {
+  console.log("\n🧪 Context budget between steps");
+  console.log("=".repeat(50));
+
+  initDB();
+  runMigrations();
+
+  const session = await Session.loadOrCreate(undefined, SYSTEM_PROMPT);
+  const reports: ContextBudgetReport[] = [];
+  const result = await runAgent(session, "What does the server log say?", {
+    onContextBudget: (report) => reports.push(report),
+  });
+
+  check(result.text.includes("normal request times"), "turn completes after the oversized tool result");
+  check(reports.length === 1, "the budget is exceeded once, before the second step");
+
+  const [report] = reports;
+  check(report.tokensBefore > config.contextBudgetTokens, "the step prompt with the tool result exceeds the budget");
+  check(report.truncatedMessages > 0 && report.tokensAfter <= config.contextBudgetTokens, "the step prompt is truncated to fit");
+  check(!report.compacted, "the stored conversation is not compacted mid-turn");
+
+  // The mock model counts its prompt, so the second step's input shows what it was sent
+  const steps = session.getRuns().filter(run => run.kind === "step");
+  check(steps.length === 2 && steps[1].input_tokens < report.tokensBefore, "the second model call gets the truncated prompt");
+
+  console.log("\n✅ All context budget tests passed!");
+}
+
+testContextBudget().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,179 @@
+/**
+ * Test script for commands run in the session's container: Docker's
+ * multiplexed output demuxed into stdout and stderr, timed-out commands
+ * killed with their process group, and background processes stopped
+ * (offline, against an in-memory fake of the Docker daemon)
+ * Run with: npx tsx tests/test-docker-exec.ts
+ */
+
+import { check } from "./offline.js";
+import { FakeDocker, frame, type FakeExec } from "./fake-docker.js";
+import type Docker from "dockerode";
+import type { PassThrough } from "stream";
+import { setDocker } from "../src/docker/client.js";
+import { exec, getContainerName, readProcessOutput, startProcess, stopProcess, waitForProcess } from "../src/docker/manager.js";
+
+const SESSION_ID = "session-exec";
+
+/**
+ * Write the chunks as separate data events, then end the stream
+ */
+function writeChunks(stream: PassThrough, chunks: Buffer[]): void {
+  const next = () => {
+    const chunk = chunks.shift();
+    if (chunk) {
+      stream.write(chunk);
+      setImmediate(next);
+    } else {
+      stream.end();
+    }
+  };
+  setImmediate(next);
+}
+
+async function testDemux(docker: FakeDocker) {
+  console.log("\n🧪 Multiplexed output split and merged across chunks");
+  console.log("=".repeat(50));
+
+  // The process wrote "✓" in two writes, so Docker framed it in two halves
+  const checkMark = Buffer.from("✓\n");
+  const output = Buffer.concat([
+    frame("stdout", "héllo "),
+    frame("stderr", "warning: deprecated\n"),
+    frame("stdout", Buffer.concat([Buffer.from("wörld "), checkMark.subarray(0, 1)])),
+    frame("stdout", checkMark.subarray(1)),
+    frame("stderr", "done\n"),
+  ]);
+  const first = frame("stdout", "héllo ").length;
+  const second = first + frame("stderr", "warning: deprecated\n").length;
+  // Splits inside a header and inside "é" and "ö", and one chunk that holds
+  // the end of one frame and the start of the next
+  const cuts = [3, 10, first + 4, second + 8 + 2, output.length - 12, output.length];
+
+  docker.onExec = fake => {
+    const chunks = cuts.map((cut, i) => output.subarray(i === 0 ? 0 : cuts[i - 1], cut));
+    writeChunks(fake.stream, chunks);
+  };
+
+  const streamed = { stdout: "", stderr: "" };
+  const result = await exec(SESSION_ID, "npm test", 30000, (name, text) => {
+    streamed[name] += text;
+  });
+
+  check(result.stdout === "héllo wörld ✓\n", "stdout frames are reassembled across chunks");
+  check(result.stderr === "warning: deprecated\ndone\n", "stderr frames are reassembled across chunks");
+  check(!result.stdout.includes("�") && !result.stderr.includes("�"), "characters split across chunks and frames are decoded whole");
+  check(streamed.stdout === result.stdout && streamed.stderr === result.stderr, "the streamed output matches the returned output");
+  check(result.exitCode === 0 && !result.timedOut, "the command exits normally");
+}
+
+async function testMergedFrames(docker: FakeDocker) {
+  console.log("\n🧪 Several frames in one chunk");
+  console.log("=".repeat(50));
+
+  docker.onExec = fake => {
+    fake.exitCode = 2;
+    writeChunks(fake.stream, [Buffer.concat([
+      frame("stderr", "error: "),
+      frame("stdout", "partial "),
+      frame("stderr", "not found\n"),
+      frame("stdout", "output\n"),
+    ])]);
+  };
+
+  const result = await exec(SESSION_ID, "make");
+  check(result.stdout === "partial output\n", "stdout frames packed into one chunk are separated");
+  check(result.stderr === "error: not found\n", "stderr frames packed into one chunk are separated");
+  check(result.exitCode === 2, "the exit code comes from the exec");
+}
+
+async function testTimeout(docker: FakeDocker) {
+  console.log("\n🧪 A command past its timeout");
+  console.log("=".repeat(50));
+
+  let server: FakeExec | undefined;
+  docker.onExec = fake => {
+    if (!server) {
+      // Prints one line, then runs until its process group is killed
+      server = fake;
+      fake.stream.write(frame("stdout", "listening on :3000\n"));
+      return;
+    }
+
+    if (fake.command.includes(server.pidFile)) {
+      server.exitCode = 143;
+      setImmediate(() => server!.stream.end());
+    }
+    setImmediate(() => fake.stream.end());
+  };
+
+  const started = Date.now();
+  const result = await exec(SESSION_ID, "npm run dev", 200);
+
+  check(result.timedOut, "the result is marked as timed out");
+  check(result.stdout === "listening on :3000\n", "the output before the timeout is kept");
+  check(result.exitCode === 143, "the exit code is the killed command's");
+  check(Date.now() - started < 2000, "the result comes back once the killed command's stream ends");
+
+  const kill = docker.execs.at(-1)!;
+  check(kill !== server && kill.command.includes(`cat ${server!.pidFile}`), "the kill runs as its own exec and reads the command's pid file");
+  check(kill.command.includes(`kill -TERM -"$pid"`) && kill.command.includes(`kill -KILL -"$pid"`), "the whole process group gets SIGTERM, then SIGKILL");
+}
+
+async function testStopProcess(docker: FakeDocker) {
+  console.log("\n🧪 Stopping background processes");
+  console.log("=".repeat(50));
+
+  // A process whose group dies with the kill, and one whose stream a daemon
+  // it forked keeps open
+  const holdsStream = new Set<string>();
+  const started = new Map<string, FakeExec>();
+  docker.onExec = fake => {
+    const target = [...started.values()].find(proc => fake.command.includes(proc.pidFile));
+    if (!target) {
+      started.set(fake.command, fake);
+      fake.stream.write(frame("stdout", `${fake.command} started\n`));
+      return;
+    }
+
+    if (!holdsStream.has(target.command)) {
+      target.exitCode = 143;
+      setImmediate(() => target.stream.end());
+    }
+    setImmediate(() => fake.stream.end());
+  };
+
+  const watcher = await startProcess(SESSION_ID, "npm run watch");
+  let stopped = await stopProcess(SESSION_ID, watcher.id);
+  check(stopped.status === "stopped" && stopped.exitCode === 143, "a killed process is stopped with its exit code");
+  check(readProcessOutput(SESSION_ID, watcher.id, 0, 1000).text === "npm run watch started\n", "its output is kept");
+
+  holdsStream.add("npm run serve");
+  const server = await startProcess(SESSION_ID, "npm run serve");
+  stopped = await stopProcess(SESSION_ID, server.id);
+  check(stopped.status === "stopped" && stopped.endedAt !== null, "a process whose stream stays open is detached and stopped");
+
+  const waitStarted = Date.now();
+  const waited = await waitForProcess(SESSION_ID, server.id, 10000);
+  check(Date.now() - waitStarted < 1000, "waiting on the detached process returns at once");
+  check(waited.status === "stopped", "it stays stopped");
+}
+
+async function main() {
+  const docker = new FakeDocker();
+  docker.addImage("runable-test-base:1");
+  docker.addContainer(getContainerName(SESSION_ID), "runable-test-base:1");
+  setDocker(docker as unknown as Docker);
+
+  await testDemux(docker);
+  await testMergedFrames(docker);
+  await testTimeout(docker);
+  await testStopProcess(docker);
+
+  console.log("\n✅ All docker exec tests passed!");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,60 @@
+/**
+ * Test script for run_shell against the fake exec backend (no Docker needed)
+ * Run with: npx tsx tests/test-exec-backend.ts
+ */
+
+import { check, executeTool } from "./offline.js";
+import { setExecBackend } from "../src/exec/backend.js";
+import { FakeExecBackend } from "../src/exec/fake.js";
+import { tools } from "../src/agent/tools.js";
+
+const backend = new FakeExecBackend((cmd) => {
+  if (cmd === "echo hello") {
+    return { stdout: "hello\n" };
+  }
+  if (cmd === "false") {
+    return { exitCode: 1, stderr: "failed\n" };
+  }
+  if (cmd === "sleep 60") {
+    return { stdout: "partial\n", exitCode: -1, timedOut: true };
+  }
+  return undefined;
+});
+setExecBackend(backend);
+
+async function runShell(command: string, streamed: string[] = []) {
+  return executeTool(tools.run_shell, { command, timeoutMs: 1000 }, {
+    sessionId: "test-session",
+    onToolOutput: (_toolCallId, stream, text) => streamed.push(`${stream}:${text}`),
+  });
+}
+
+async function testExecBackend() {
+  console.log("\n🧪 run_shell on the fake exec backend");
+  console.log("=".repeat(50));
+
+  const streamed: string[] = [];
+  const ok = await runShell("echo hello", streamed);
+  check(ok.success && ok.exitCode === 0 && ok.stdout === "hello\n", "successful command returns its output");
+  check(streamed.join("") === "stdout:hello\n", "output is streamed to onToolOutput");
+  check(backend.commands[0]?.sessionId === "test-session" && backend.commands[0]?.timeoutMs === 1000, "command runs in the calling session with its timeout");
+
+  const failed = await runShell("false");
+  check(!failed.success && failed.exitCode === 1 && failed.stderr === "failed\n", "non-zero exit is reported as a failure");
+
+  const timedOut = await runShell("sleep 60");
+  check(!timedOut.success && timedOut.timedOut === true && timedOut.stdout === "partial\n", "timed-out command returns its partial output");
+
+  const unknown = await runShell("unscripted");
+  check(!unknown.success && unknown.exitCode === 127, "unscripted commands fail like a missing command");
+
+  const stopped = await executeTool(tools.start_process, { command: "sleep 60" }, { sessionId: "test-session" });
+  check("errorCode" in stopped && stopped.errorCode === "unavailable", "background processes are refused outside the docker backend");
+
+  console.log("\n✅ All exec backend tests passed!");
+}
+
+testExecBackend().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+/**
+ * Test script for forking a session: the fork copies the summary and the
+ * messages up to its fork point, and both sessions go on independently
+ * (offline)
+ * Run with: npx tsx tests/test-fork.ts
+ */
+
+import { check } from "./offline.js";
+import { initDB, runMigrations } from "../src/db/index.js";
+import { getSession, getAllMessages, setSummary } from "../src/db/client.js";
+import { setExecBackend } from "../src/exec/backend.js";
+import { FakeExecBackend } from "../src/exec/fake.js";
+import { setMockFixture } from "../src/agent/provider.js";
+import { Session } from "../src/agent/session.js";
+import { SYSTEM_PROMPT, runAgent } from "../src/agent/agent.js";
+import { readToolOutput } from "../src/agent/artifacts.js";
+
+// Longer than the tool output cap, so the full text is saved with the parent
+const BIG_LOG = Array.from({ length: 1500 }, (_, i) => `GET /api/${i} 200`).join("\n");
+
+setExecBackend(new FakeExecBackend((cmd) => (cmd === "cat access.log" ? { stdout: BIG_LOG } : undefined)));
+setMockFixture({
+  turns: [
+    {
+      match: "log",
+      steps: [
+        { toolCalls: [{ toolName: "run_shell", input: { command: "cat access.log" } }] },
+        { text: "Every request succeeded.", toolCalls: [] },
+      ],
+    },
+    { match: "postgres", steps: [{ text: "Let's use PostgreSQL.", toolCalls: [] }] },
+    { match: "sqlite", steps: [{ text: "Let's use SQLite.", toolCalls: [] }] },
+  ],
+});
+
+async function testFork() {
+  console.log("\n🧪 Forking a session");
+  console.log("=".repeat(50));
+
+  initDB();
+  runMigrations();
+
+  const parent = await Session.loadOrCreate(undefined, SYSTEM_PROMPT);
+  await runAgent(parent, "Check the access log");
+  setSummary(parent.getId(), JSON.stringify({ goal: "Pick a database", currentPlan: [], keyDecisions: [], factsConstraints: [], toolResults: [], openQuestions: [] }));
+  await runAgent(parent, "Should we use postgres?");
+
+  const points = parent.getForkPoints();
+  check(points.length === 2 && points[0].reply === "Every request succeeded.", "each finished exchange is a fork point");
+
+  const parentMessages = getAllMessages(parent.getId());
+  const fork = await parent.fork(points[0].messageId);
+  const forkMessages = getAllMessages(fork.getId());
+  const copied = parentMessages.filter(msg => msg.id <= points[0].messageId);
+
+  check(fork.getId() !== parent.getId(), "the fork is a new session");
+  check(
+    forkMessages.length === copied.length && forkMessages.every((msg, i) => msg.content === copied[i].content && msg.content_json === copied[i].content_json),
+    "the fork copies the messages up to the fork point, in order"
+  );
+  check(forkMessages.every(msg => !parentMessages.some(original => original.id === msg.id)), "copies get new ids");
+
+  const stored = getSession(fork.getId())!;
+  check(stored.parent_session_id === parent.getId() && stored.forked_from_message_id === points[0].messageId, "the fork records where it branched off");
+  check(stored.summary_text === getSession(parent.getId())!.summary_text, "the fork shares the parent's summary");
+
+  const toolCallId = forkMessages.flatMap(msg => (msg.content_json ? JSON.parse(msg.content_json) : []))
+    .find((part: any) => part.type === "tool-call")?.toolCallId;
+  const output = readToolOutput(fork.getId(), toolCallId, undefined, 0, 100);
+  check(output?.totalLength === BIG_LOG.length, "the fork can read saved outputs of the tool calls it copied");
+
+  await runAgent(fork, "Should we use sqlite instead?");
+  const forkAfter = getAllMessages(fork.getId());
+  check(forkAfter.at(-1)?.content === "Let's use SQLite.", "the fork continues on its own branch");
+  check(getAllMessages(parent.getId()).length === parentMessages.length, "the parent is left as it was");
+  check(getAllMessages(parent.getId()).at(-1)?.content === "Let's use PostgreSQL.", "the parent keeps its own reply");
+}
+
+async function main() {
+  await testFork();
+
+  console.log("\n✅ All fork tests passed!");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
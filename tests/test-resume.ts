@@ -0,0 +1,150 @@
+/**
+ * Test script for resuming a turn a crash cut off: finished tool calls are
+ * replayed from the journal instead of run again. A turn that fails keeps the
+ * tool calls it ran (offline)
+ * Run with: npx tsx tests/test-resume.ts
+ */
+
+import { check } from "./offline.js";
+import type { ModelMessage } from "ai";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { config } from "../src/config/env.js";
+import { initDB, runMigrations } from "../src/db/index.js";
+import { getAllMessages } from "../src/db/client.js";
+import { setExecBackend } from "../src/exec/backend.js";
+import { FakeExecBackend } from "../src/exec/fake.js";
+import { setMockFixture } from "../src/agent/provider.js";
+import { Session } from "../src/agent/session.js";
+import { SYSTEM_PROMPT, runAgent, resumeAgent } from "../src/agent/agent.js";
+
+const backend = new FakeExecBackend(() => ({ stdout: "ok\n" }));
+setExecBackend(backend);
+setMockFixture({
+  turns: [
+    {
+      match: "deploy",
+      steps: [
+        { toolCalls: [{ toolName: "run_shell", input: { command: "npm run build" } }, { toolName: "run_shell", input: { command: "npm run deploy" } }] },
+        { toolCalls: [{ toolName: "run_shell", input: { command: "curl -s localhost/health" } }] },
+        { text: "Deployed and healthy.", toolCalls: [] },
+      ],
+    },
+    {
+      match: "migrate",
+      steps: [
+        { toolCalls: [{ toolName: "write_file", input: { path: "migrations/001.sql", content: "CREATE TABLE todos (id INTEGER);\n" } }] },
+        { error: "429 Too Many Requests", toolCalls: [] },
+      ],
+    },
+  ],
+});
+
+/**
+ * Leave a session as a crash during its first step would: the turn run is
+ * still "running", one tool call finished and one never did
+ */
+async function crashMidTurn(): Promise<string> {
+  const session = await Session.loadOrCreate(undefined, SYSTEM_PROMPT);
+  session.addUserMessage("Build and deploy the app");
+  const userMessage = getAllMessages(session.getId()).at(-1)!;
+
+  const turn = session.startRun("turn", 0);
+  session.setRunMessage(turn.id, userMessage.id);
+  session.startRun("step", 1, turn.id);
+  session.journalToolCall(turn.id, 1, "call-build", "run_shell", { command: "npm run build" });
+  session.journalToolResult(turn.id, "call-build", { success: true, stdout: "built\n", exitCode: 0 }, false);
+  session.journalToolCall(turn.id, 1, "call-deploy", "run_shell", { command: "npm run deploy" });
+
+  return session.getId();
+}
+
+function parts(message: ModelMessage): any[] {
+  return typeof message.content === "string" ? [] : message.content;
+}
+
+async function testResume() {
+  console.log("\n🧪 Resuming an interrupted turn");
+  console.log("=".repeat(50));
+
+  initDB();
+  runMigrations();
+
+  const sessionId = await crashMidTurn();
+  const session = await Session.loadOrCreate(sessionId, SYSTEM_PROMPT);
+  const pending = session.getPendingTurn();
+  check(pending !== null && pending.toolCalls.length === 2, "the reloaded session finds the interrupted turn and its tool calls");
+  check(session.getRuns().every(run => run.status === "interrupted"), "runs left running are marked interrupted");
+
+  const result = await resumeAgent(session);
+  check(result.text.includes("Deployed and healthy"), "the resumed turn finishes");
+  check(
+    backend.commands.map(command => command.cmd).join(",") === "curl -s localhost/health",
+    "only the steps after the replayed calls run; journaled calls aren't run again"
+  );
+
+  const messages = session.getAllMessages();
+  const replayedCall = messages.find(msg => msg.role === "assistant" && parts(msg).some(part => part.toolCallId === "call-build"));
+  const replayedResults = messages.filter(msg => msg.role === "tool").flatMap(parts);
+  check(!!replayedCall && parts(replayedCall).length === 2, "the interrupted step's calls are replayed together");
+  check(
+    replayedResults.some(part => part.toolCallId === "call-build" && part.output.type === "json" && part.output.value.stdout === "built\n"),
+    "a finished call is replayed with its journaled result"
+  );
+  check(
+    replayedResults.some(part => part.toolCallId === "call-deploy" && part.output.type === "error-text" && part.output.value.includes("exited while this tool call was running")),
+    "an unfinished call is replayed as interrupted"
+  );
+
+  const turns = session.getRuns().filter(run => run.kind === "turn");
+  check(turns.some(run => run.recovery === "resumed") && turns.some(run => run.status === "completed"), "the old turn is marked resumed and the new one completes");
+  check(session.getPendingTurn() === null && (await Session.loadOrCreate(sessionId)).getPendingTurn() === null, "nothing is pending afterwards");
+}
+
+async function testDiscard() {
+  console.log("\n🧪 Discarding an interrupted turn");
+  console.log("=".repeat(50));
+
+  const sessionId = await crashMidTurn();
+  const session = await Session.loadOrCreate(sessionId, SYSTEM_PROMPT);
+
+  check(session.discardPendingTurn() === 1, "the turn's user message is deleted");
+  check(getAllMessages(sessionId).length === 0, "the conversation is back to before the turn");
+  check((await Session.loadOrCreate(sessionId)).getPendingTurn() === null, "a discarded turn isn't offered again");
+}
+
+async function testFailedStep() {
+  console.log("\n🧪 A turn failing after its tools ran");
+  console.log("=".repeat(50));
+
+  const session = await Session.loadOrCreate(undefined, SYSTEM_PROMPT);
+  let error = "";
+  try {
+    await runAgent(session, "Write the first migrate script");
+  } catch (e: any) {
+    error = e.message;
+  }
+  check(error.includes("429"), "the model's error on step 2 fails the turn");
+
+  const messages = session.getAllMessages();
+  const written = messages.find(msg => msg.role === "assistant" && parts(msg).some(part => part.toolName === "write_file"));
+  const result = messages.filter(msg => msg.role === "tool").flatMap(parts).find(part => part.toolName === "write_file");
+  check(!!written && result?.output.value.success === true, "the step that wrote a file is kept in the history");
+  check(readFileSync(join(config.workspace.hostDir, "migrations/001.sql"), "utf-8").startsWith("CREATE TABLE"), "the file it wrote is in the workspace");
+
+  const turn = session.getRuns().find(run => run.kind === "turn");
+  check(turn?.status === "failed" && (await Session.loadOrCreate(session.getId())).getPendingTurn() === null, "the failed turn is recorded and not offered for resume");
+}
+
+async function main() {
+  await testResume();
+  await testDiscard();
+  await testFailedStep();
+
+  console.log("\n✅ All resume tests passed!");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,111 @@
+/**
+ * Test script for the database schema: a new database and one upgraded by the
+ * migrations from the first release's schema end up with the same tables,
+ * columns and indexes (offline)
+ * Run with: npx tsx tests/test-schema.ts
+ */
+
+import { check } from "./offline.js";
+import Database from "better-sqlite3";
+import { existsSync, rmSync } from "fs";
+import { config } from "../src/config/env.js";
+import { initDB, runMigrations, getDB } from "../src/db/index.js";
+
+// The schema databases were created with before the migrations existed
+const FIRST_RELEASE_SQL = `
+CREATE TABLE sessions (
+  id TEXT PRIMARY KEY,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  summary_text TEXT,
+  last_compacted_at INTEGER,
+  metadata_json TEXT
+);
+CREATE TABLE messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK(role IN ('user', 'assistant', 'system')),
+  content TEXT NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  token_count INTEGER,
+  FOREIGN KEY (session_id) REFERENCES sessions(id)
+);
+CREATE INDEX idx_messages_session_created ON messages(session_id, created_at);
+CREATE TABLE runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  step_no INTEGER NOT NULL,
+  status TEXT NOT NULL CHECK(status IN ('running', 'completed', 'failed')),
+  error TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (session_id) REFERENCES sessions(id)
+);
+CREATE INDEX idx_runs_session ON runs(session_id, step_no);
+`;
+
+/**
+ * Tables with their columns, sorted so column order doesn't matter, and the
+ * names of their indexes
+ */
+function describeSchema(): string {
+  const db = getDB();
+  const tables = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name").all() as { name: string }[];
+
+  return JSON.stringify(tables.map(({ name }) => ({
+    name,
+    columns: (db.prepare(`PRAGMA table_info(${name})`).all() as any[])
+      .map(({ name, type, notnull, dflt_value, pk }) => ({ name, type, notnull, dflt_value, pk }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    indexes: (db.prepare(`PRAGMA index_list(${name})`).all() as any[])
+      .map(index => index.name)
+      .filter((index: string) => !index.startsWith("sqlite_autoindex"))
+      .sort(),
+  })), null, 2);
+}
+
+function appliedMigrations(): string {
+  return (getDB().prepare("SELECT id FROM migrations ORDER BY id").all() as { id: number }[]).map(row => row.id).join(",");
+}
+
+async function testSchema() {
+  console.log("\n🧪 New and upgraded databases");
+  console.log("=".repeat(50));
+
+  const firstRelease = new Database(config.dbPath);
+  firstRelease.exec(FIRST_RELEASE_SQL);
+  firstRelease.close();
+
+  initDB();
+  runMigrations();
+  const upgraded = describeSchema();
+  const upgradedMigrations = appliedMigrations();
+  getDB().close();
+
+  rmSync(config.dbPath);
+  check(!existsSync(config.dbPath), "the upgraded database is removed");
+
+  initDB();
+  const created = describeSchema();
+  check(appliedMigrations() === upgradedMigrations, "a new database starts with every migration applied");
+  runMigrations();
+  check(describeSchema() === created, "running the migrations on a new database changes nothing");
+  check(created === upgraded, "a new database has the same tables, columns and indexes as an upgraded one");
+
+  const db = getDB();
+  db.prepare("INSERT INTO sessions (id) VALUES ('s')").run();
+  db.prepare("INSERT INTO messages (session_id, role, content, content_json) VALUES ('s', 'tool', '', '[]')").run();
+  db.prepare("INSERT INTO runs (session_id, kind, step_no, status, recovery) VALUES ('s', 'turn', 0, 'interrupted', 'resumed')").run();
+  const counts = db.prepare("SELECT (SELECT COUNT(*) FROM messages) AS messages, (SELECT COUNT(*) FROM runs) AS runs").get() as { messages: number; runs: number };
+  check(counts.messages === 1 && counts.runs === 1, "a new database accepts tool messages and the current run statuses");
+}
+
+async function main() {
+  await testSchema();
+
+  console.log("\n✅ All schema tests passed!");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
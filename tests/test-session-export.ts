@@ -0,0 +1,199 @@
+/**
+ * Test script for session export and import: a JSON export imported into the
+ * same database and exported again holds the same session under new ids,
+ * compactions, journaled tool calls and saved tool outputs included (offline)
+ * Run with: npx tsx tests/test-session-export.ts
+ */
+
+import { check, testDir } from "./offline.js";
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { Message } from "../src/db/schema.js";
+import type { SessionExport } from "../src/agent/sessionExport.js";
+
+// Keep only the latest turn on compaction; set before the config loads, so
+// the modules below are imported dynamically
+process.env.KEEP_RECENT_PERCENT = "1";
+
+const { initDB, runMigrations } = await import("../src/db/index.js");
+const { getAllMessages, getSession } = await import("../src/db/client.js");
+const { setExecBackend } = await import("../src/exec/backend.js");
+const { FakeExecBackend } = await import("../src/exec/fake.js");
+const { setMockFixture } = await import("../src/agent/provider.js");
+const { Session } = await import("../src/agent/session.js");
+const { SYSTEM_PROMPT, runAgent } = await import("../src/agent/agent.js");
+const { readToolOutput } = await import("../src/agent/artifacts.js");
+const { exportSessionFile, importSessionFile, loadSessionExport } = await import("../src/agent/sessionExport.js");
+
+// Longer than the tool output cap, so the full text is saved
+const BIG_OUTPUT = Array.from({ length: 1500 }, (_, i) => `test ${i} passed`).join("\n");
+
+setExecBackend(new FakeExecBackend((cmd) => (cmd === "npm test" ? { stdout: BIG_OUTPUT } : undefined)));
+setMockFixture({
+  turns: [
+    {
+      match: "tests",
+      steps: [
+        { toolCalls: [{ toolName: "run_shell", input: { command: "npm test" } }] },
+        { text: "All 1500 tests passed.", toolCalls: [] },
+      ],
+    },
+  ],
+  object: {
+    goal: "Run the tests",
+    currentPlan: [],
+    keyDecisions: [],
+    factsConstraints: [],
+    toolResults: [],
+    openQuestions: [],
+  },
+});
+
+/**
+ * An export with its ids replaced by positions, so two exports of the same
+ * session under different ids compare equal
+ */
+function normalize(data: SessionExport) {
+  const messageIndex = new Map(data.messages.map((msg, i) => [msg.id, i]));
+  const runIndex = new Map(data.runs.map((run, i) => [run.id, i]));
+
+  return {
+    summary: data.session.summary_text,
+    messages: data.messages.map(({ role, content, content_json, created_at, token_count }) => ({ role, content, content_json, created_at, token_count })),
+    compactions: data.compactions.map(({ id: _id, session_id: _session, archived_messages_json, ...rest }) => ({
+      ...rest,
+      archived: (JSON.parse(archived_messages_json) as Message[]).map(({ role, content, content_json }) => ({ role, content, content_json })),
+    })),
+    runs: data.runs.map(({ id: _id, session_id: _session, parent_id, message_id, ...rest }) => ({
+      ...rest,
+      parent: parent_id !== null ? runIndex.get(parent_id) : null,
+      message: message_id !== null ? messageIndex.get(message_id) : null,
+    })),
+    toolCallJournal: data.toolCallJournal.map(({ id: _id, session_id: _session, run_id, ...rest }) => ({ ...rest, run: runIndex.get(run_id) })),
+    toolOutputs: data.toolOutputs.map(({ session_id: _session, ...rest }) => rest),
+  };
+}
+
+async function testRoundTrip() {
+  console.log("\n🧪 Export, import and export again");
+  console.log("=".repeat(50));
+
+  initDB();
+  runMigrations();
+
+  const session = await Session.loadOrCreate(undefined, SYSTEM_PROMPT);
+  await runAgent(session, "Run the tests");
+  await runAgent(session, "Thanks");
+  check(await session.checkAndCompact(true), "the first turn is compacted into the summary");
+
+  const exported = loadSessionExport(exportSessionFile(session.getId(), "json", join(testDir, "original.json")));
+  check(exported.toolCallJournal.length === 1 && exported.toolCallJournal[0].output_json !== null, "the journaled tool call is exported with its result");
+  check(exported.toolOutputs.length > 0 && exported.toolOutputs[0].content === BIG_OUTPUT, "the full tool output is exported");
+
+  const imported = importSessionFile(join(testDir, "original.json"));
+  const reexported = loadSessionExport(exportSessionFile(imported.id, "json", join(testDir, "reexported.json")));
+
+  check(imported.id !== session.getId() && reexported.session.id === imported.id, "the import is a new session");
+  check(exported.compactions.length === 1 && JSON.parse(exported.compactions[0].archived_messages_json).length > 0, "the compaction is exported with its archived messages");
+  check(JSON.stringify(normalize(reexported)) === JSON.stringify(normalize(exported)), "the re-export matches the original apart from ids");
+
+  const runIds = new Set(reexported.runs.map(run => run.id));
+  check(reexported.toolCallJournal.every(call => runIds.has(call.run_id)), "journaled calls point at the imported runs");
+  check(
+    reexported.toolCallJournal[0].tool_call_id === exported.toolCallJournal[0].tool_call_id,
+    "tool call ids are kept, so they still match the messages"
+  );
+  check(reexported.toolOutputs.every(output => output.session_id === imported.id), "tool outputs belong to the imported session");
+
+  const toolCallId = exported.toolOutputs[0].tool_call_id;
+  const original = readToolOutput(session.getId(), toolCallId, undefined, 0, 100);
+  const copy = readToolOutput(imported.id, toolCallId, undefined, 0, 100);
+  check(!!original && !!copy && copy.totalLength === BIG_OUTPUT.length, "both sessions can read the saved output in the same database");
+}
+
+async function testIdRemapping() {
+  console.log("\n🧪 Id remapping on import");
+  console.log("=".repeat(50));
+
+  const original = loadSessionExport(join(testDir, "original.json"));
+  const imported = importSessionFile(join(testDir, "original.json"));
+  const reexported = loadSessionExport(exportSessionFile(imported.id, "json", join(testDir, "remapped.json")));
+
+  const originalIds = new Set([
+    ...original.messages.map(msg => msg.id),
+    ...original.compactions.flatMap(compaction => (JSON.parse(compaction.archived_messages_json) as Message[]).map(msg => msg.id)),
+  ]);
+  const archived = JSON.parse(reexported.compactions[0].archived_messages_json) as Message[];
+  const liveIds = reexported.messages.map(msg => msg.id);
+
+  check(liveIds.every(id => !originalIds.has(id)) && archived.every(msg => !originalIds.has(msg.id)), "messages, live and archived, get new ids");
+  check(archived.every(msg => msg.session_id === imported.id), "archived messages belong to the imported session");
+  check(Math.max(...archived.map(msg => msg.id)) < Math.min(...liveIds), "archived messages keep their place before the live ones");
+  check(
+    reexported.runs.filter(run => run.message_id !== null).every(run => [...liveIds, ...archived.map(msg => msg.id)].includes(run.message_id!)),
+    "runs point at the imported messages"
+  );
+  check(
+    reexported.runs.filter(run => run.parent_id !== null).every(run => reexported.runs.some(parent => parent.id === run.parent_id && parent.kind === "turn")),
+    "steps point at the imported turns"
+  );
+
+  // Rolling back the imported compaction restores its messages in their old order
+  const session = await Session.loadOrCreate(imported.id, SYSTEM_PROMPT);
+  session.rollbackCompaction(reexported.compactions[0].id);
+  const restored = getAllMessages(imported.id).map(msg => msg.content);
+  const expected = loadSessionExport(join(testDir, "original.json"));
+  const expectedOrder = [...(JSON.parse(expected.compactions[0].archived_messages_json) as Message[]), ...expected.messages].map(msg => msg.content);
+  check(JSON.stringify(restored) === JSON.stringify(expectedOrder), "rolling back the imported compaction restores the messages in order");
+  check(
+    getSession(original.session.id) !== null && getAllMessages(original.session.id).length === original.messages.length,
+    "the original session is untouched"
+  );
+}
+
+async function testForkLink() {
+  console.log("\n🧪 Fork links on import");
+  console.log("=".repeat(50));
+
+  const parent = loadSessionExport(join(testDir, "original.json"));
+  const fork = await (await Session.loadOrCreate(parent.session.id)).fork(parent.messages.at(-1)!.id);
+  const path = exportSessionFile(fork.getId(), "json", join(testDir, "fork.json"));
+
+  const linked = importSessionFile(path);
+  check(linked.parent_session_id === parent.session.id, "the fork link is kept when the parent is in this database");
+
+  const data = JSON.parse(readFileSync(path, "utf-8"));
+  data.session.parent_session_id = "not-in-this-database";
+  writeFileSync(join(testDir, "orphan.json"), JSON.stringify(data), "utf-8");
+  const orphan = importSessionFile(join(testDir, "orphan.json"));
+  check(orphan.parent_session_id === null && orphan.forked_from_message_id === null, "the fork link is dropped when the parent is missing");
+}
+
+async function testVersionOneImport() {
+  console.log("\n🧪 Importing a version 1 export");
+  console.log("=".repeat(50));
+
+  const data = JSON.parse(readFileSync(join(testDir, "original.json"), "utf-8"));
+  delete data.toolCallJournal;
+  delete data.toolOutputs;
+  writeFileSync(join(testDir, "v1.json"), JSON.stringify({ ...data, version: 1 }), "utf-8");
+
+  const imported = importSessionFile(join(testDir, "v1.json"));
+  const reexported = loadSessionExport(exportSessionFile(imported.id, "json", join(testDir, "v1-reexported.json")));
+  check(reexported.messages.length === data.messages.length, "the messages are imported");
+  check(reexported.toolCallJournal.length === 0 && reexported.toolOutputs.length === 0, "no journal or tool outputs are invented");
+}
+
+async function main() {
+  await testRoundTrip();
+  await testIdRemapping();
+  await testForkLink();
+  await testVersionOneImport();
+
+  console.log("\n✅ All session export tests passed!");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,96 @@
+/**
+ * Test script for container snapshots: replaced snapshot images are removed,
+ * deep snapshots flattened and a removed container takes its snapshot along
+ * (offline, against an in-memory fake of the Docker daemon)
+ * Run with: npx tsx tests/test-snapshots.ts
+ */
+
+import { check } from "./offline.js";
+import { FakeDocker } from "./fake-docker.js";
+import type Docker from "dockerode";
+
+// A prebuilt sandbox image, so no Dockerfile build is needed; set before the
+// config loads, so the modules below are imported dynamically
+process.env.DOCKER_IMAGE = "runable-test-base:1";
+process.env.DOCKER_SNAPSHOT_ON = "turn,compaction";
+
+const { setDocker } = await import("../src/docker/client.js");
+const { exec, snapshotContainer, stopContainer, getContainerName, getSnapshotImage } = await import("../src/docker/manager.js");
+
+const BASE_LABELS = { "runable.base-image": "runable-test-base:1" };
+
+async function testReplacedSnapshotsRemoved(docker: FakeDocker) {
+  console.log("\n🧪 Replaced snapshots are removed");
+  console.log("=".repeat(50));
+
+  const sessionId = "session-replaced";
+  docker.addContainer(getContainerName(sessionId), "runable-test-base:1");
+
+  await exec(sessionId, "npm install");
+  check(await snapshotContainer(sessionId, "turn"), "the first snapshot is committed");
+  const first = docker.tagOf(getSnapshotImage(sessionId))!;
+  check(first.labels["runable.snapshot-depth"] === "1", "the snapshot is one commit deep");
+
+  await exec(sessionId, "npm install left-pad");
+  check(await snapshotContainer(sessionId, "turn"), "the second snapshot is committed");
+  const second = docker.tagOf(getSnapshotImage(sessionId))!;
+  check(second.id !== first.id && !docker.images.has(first.id), "the replaced snapshot image is removed");
+  check(second.labels["runable.snapshot-depth"] === "1", "commits from one container stay one layer deep");
+  check(docker.images.has(docker.resolve("runable-test-base:1")!.id), "the base image is kept");
+
+  check(!(await snapshotContainer(sessionId, "turn")), "no snapshot without commands since the last one");
+}
+
+async function testSnapshotInUse(docker: FakeDocker) {
+  console.log("\n🧪 A replaced snapshot still in use");
+  console.log("=".repeat(50));
+
+  const sessionId = "session-in-use";
+  const restored = docker.addImage(getSnapshotImage(sessionId), { ...BASE_LABELS, "runable.snapshot-depth": "3" });
+  docker.addContainer(getContainerName(sessionId), restored);
+
+  await exec(sessionId, "make");
+  check(await snapshotContainer(sessionId, "turn"), "the snapshot is committed");
+  check(docker.images.has(restored), "the image the container runs on is kept");
+  check(docker.tagOf(getSnapshotImage(sessionId))!.labels["runable.snapshot-depth"] === "4", "the depth counts the restored snapshot");
+
+  await stopContainer(sessionId);
+  check(!docker.tagOf(getSnapshotImage(sessionId)), "removing the container removes its snapshot");
+}
+
+async function testDeepSnapshotFlattened(docker: FakeDocker) {
+  console.log("\n🧪 A deep snapshot is flattened");
+  console.log("=".repeat(50));
+
+  const sessionId = "session-deep";
+  const deep = docker.addImage(getSnapshotImage(sessionId), { ...BASE_LABELS, "runable.session": sessionId, "runable.snapshot-depth": "10" });
+
+  // No container yet, so the first command creates one from the snapshot
+  await exec(sessionId, "ls");
+
+  const flat = docker.tagOf(getSnapshotImage(sessionId))!;
+  check(docker.imports.length === 1 && flat.id !== deep, "the snapshot is re-imported as one layer");
+  check(!docker.images.has(deep), "the deep image is removed");
+  check(flat.labels["runable.snapshot-depth"] === "0", "the flattened snapshot starts over at depth 0");
+  check(flat.labels["runable.base-image"] === "runable-test-base:1", "the base image label survives, so the snapshot is still used");
+  check(docker.imports[0].changes.some(change => change.startsWith("ENV PATH=")), "the environment is carried over");
+  check(docker.containers.get(getContainerName(sessionId))?.image === flat.id, "the container is created from the flattened snapshot");
+  check([...docker.containers.keys()].every(name => !name.startsWith("temp-")), "the export container is removed");
+}
+
+async function main() {
+  const docker = new FakeDocker();
+  docker.addImage("runable-test-base:1");
+  setDocker(docker as unknown as Docker);
+
+  await testReplacedSnapshotsRemoved(docker);
+  await testSnapshotInUse(docker);
+  await testDeepSnapshotFlattened(docker);
+
+  console.log("\n✅ All snapshot tests passed!");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,113 @@
+/**
+ * Test script for workspace confinement: paths and symlinks that lead outside
+ * the workspace are refused by the file tools, on the host and through the
+ * sandbox (FILE_IO_MODE=container) (offline)
+ * Run with: npx tsx tests/test-workspace.ts
+ */
+
+import { check, executeTool, testDir } from "./offline.js";
+import { existsSync, mkdirSync, readFileSync, rmSync, symlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import { config } from "../src/config/env.js";
+import { WorkspaceError, resolveWorkspacePath } from "../src/agent/workspace.js";
+import { tools } from "../src/agent/tools.js";
+import { setExecBackend } from "../src/exec/backend.js";
+import { LocalExecBackend } from "../src/exec/local.js";
+
+const OUTSIDE = join(testDir, "outside");
+
+function errorCode(path: string): string | undefined {
+  try {
+    resolveWorkspacePath(path);
+    return undefined;
+  } catch (error) {
+    return error instanceof WorkspaceError ? error.code : "unexpected";
+  }
+}
+
+async function testPathResolution() {
+  console.log("\n🧪 Path resolution");
+  console.log("=".repeat(50));
+
+  check(resolveWorkspacePath("src/../README.md").relative === "README.md", "paths are normalized inside the workspace");
+  check(resolveWorkspacePath("/workspace/src/index.ts").relative === "src/index.ts", "absolute paths under the workdir are accepted");
+  check(resolveWorkspacePath(".").relative === "" && resolveWorkspacePath(".").containerPath === "/workspace", "the root resolves to the workdir");
+  check(errorCode("../secrets.txt") === "outside_workspace", "a relative path climbing out is refused");
+  check(errorCode("src/../../etc/passwd") === "outside_workspace", "a path that normalizes outside is refused");
+  check(errorCode("/etc/passwd") === "outside_workspace", "an absolute path outside the workdir is refused");
+  check(errorCode("/workspace-other/file") === "outside_workspace", "a sibling sharing the workdir's prefix is refused");
+  check(errorCode("") === "invalid_path", "an empty path is refused");
+}
+
+async function testSymlinkEscapes() {
+  console.log("\n🧪 Symlink escapes");
+  console.log("=".repeat(50));
+
+  const root = config.workspace.hostDir;
+  mkdirSync(root, { recursive: true });
+  mkdirSync(OUTSIDE, { recursive: true });
+  writeFileSync(join(OUTSIDE, "secret.txt"), "top secret", "utf-8");
+  symlinkSync(OUTSIDE, join(root, "escape"));
+  symlinkSync(join(OUTSIDE, "secret.txt"), join(root, "secret-link.txt"));
+  symlinkSync(join(OUTSIDE, "missing.txt"), join(root, "dangling.txt"));
+  mkdirSync(join(root, "src"), { recursive: true });
+  symlinkSync(join(root, "src"), join(root, "src-link"));
+
+  const read = await executeTool(tools.read_file, { path: "escape/secret.txt" });
+  check("errorCode" in read && read.errorCode === "symlink_escape", "reading through a linked directory outside is refused");
+
+  const linked = await executeTool(tools.read_file, { path: "secret-link.txt" });
+  check("errorCode" in linked && linked.errorCode === "symlink_escape", "reading a linked file outside is refused");
+
+  const written = await executeTool(tools.write_file, { path: "escape/new.txt", content: "planted" });
+  check("errorCode" in written && written.errorCode === "symlink_escape", "writing through a link outside is refused");
+  check(!existsSync(join(OUTSIDE, "new.txt")), "nothing is written outside");
+
+  const nested = await executeTool(tools.write_file, { path: "escape/new/x.txt", content: "planted" });
+  check("errorCode" in nested && nested.errorCode === "symlink_escape" && !existsSync(join(OUTSIDE, "new")), "no directories are created through a link outside");
+
+  const dangling = await executeTool(tools.write_file, { path: "dangling.txt", content: "planted" });
+  check("errorCode" in dangling && dangling.errorCode === "symlink_escape", "writing through a dangling link outside is refused");
+  check(!existsSync(join(OUTSIDE, "missing.txt")), "a dangling link's target isn't created");
+
+  const inside = await executeTool(tools.write_file, { path: "src-link/index.ts", content: "export {};\n" });
+  check(!("errorCode" in inside) && readFileSync(join(root, "src", "index.ts"), "utf-8") === "export {};\n", "links that stay inside the workspace still work");
+}
+
+async function testContainerEscapes() {
+  console.log("\n🧪 Symlink escapes through the sandbox");
+  console.log("=".repeat(50));
+
+  // The local backend runs the sandbox scripts on this machine, in the workspace
+  (config.workspace as { fileIo: string }).fileIo = "container";
+  setExecBackend(new LocalExecBackend());
+  const context = { sessionId: "workspace-test" };
+  rmSync(join(OUTSIDE, "new"), { recursive: true, force: true });
+
+  const nested = await executeTool(tools.write_file, { path: "escape/new/x.txt", content: "planted" }, context);
+  check("errorCode" in nested && nested.errorCode === "symlink_escape", "writing under a linked directory outside is refused");
+  check(!existsSync(join(OUTSIDE, "new")), "no directories are created outside before the refusal");
+
+  const read = await executeTool(tools.read_file, { path: "escape/secret.txt" }, context);
+  check("errorCode" in read && read.errorCode === "symlink_escape", "reading through a link outside is refused");
+
+  const patch = ["--- /dev/null", "+++ b/escape/deep/y.txt", "@@ -0,0 +1 @@", "+planted", ""].join("\n");
+  const patched = await executeTool(tools.apply_patch, { patch }, context);
+  check("errorCode" in patched && !existsSync(join(OUTSIDE, "deep")), "a patch can't create directories outside either");
+
+  const inside = await executeTool(tools.write_file, { path: "src-link/new/deep.ts", content: "export {};\n" }, context);
+  check(!("errorCode" in inside) && existsSync(join(config.workspace.hostDir, "src", "new", "deep.ts")), "new directories under links inside the workspace are still created");
+}
+
+async function main() {
+  await testPathResolution();
+  await testSymlinkEscapes();
+  await testContainerEscapes();
+
+  console.log("\n✅ All workspace tests passed!");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});